@@ -41,10 +41,13 @@ function handleExtensionInstalled(details) {
   // Set default options
   chrome.storage.sync.set({
     githubToken: '',
+    githubHost: 'github.com',
     defaultBranch: 'main',
     environments: ['main', 'development', 'staging', 'production'],
     autoSync: false,
-    syncInterval: 30 // minutes
+    syncInterval: 30, // minutes
+    exportTarget: 'repository', // or 'gist' for single-file experiments
+    gistPublic: false
   }).catch(error => {
     console.error('[Bolt.DIY to GitHub] Failed to set default options:', error);
     logError('SET_DEFAULT_OPTIONS_FAILED', error);
@@ -91,6 +94,7 @@ function handleExtensionUpdate(details) {
 function restoreState() {
   chrome.storage.sync.get([
     'githubToken',
+    'githubHost',
     'defaultBranch',
     'environments',
     'autoSync',
@@ -183,10 +187,13 @@ function handleMessage(message, sender, sendResponse) {
     case 'GET_OPTIONS':
       chrome.storage.sync.get([
         'githubToken',
+        'githubHost',
         'defaultBranch',
         'environments',
         'autoSync',
-        'syncInterval'
+        'syncInterval',
+        'exportTarget',
+        'gistPublic'
       ]).then(options => {
         sendResponse({
           type: 'OPTIONS_RESPONSE',
@@ -274,20 +281,29 @@ function startSyncProcess(projectId, options) {
   // Get GitHub token and options
   chrome.storage.sync.get([
     'githubToken',
+    'githubHost',
     'defaultBranch',
-    'environments'
-  ]).then(options => {
-    githubToken = options.githubToken;
+    'environments',
+    'exportTarget',
+    'gistPublic',
+    'gistIds'
+  ]).then(storedOptions => {
+    githubToken = storedOptions.githubToken;
 
     if (!githubToken) {
       throw new Error('GitHub token not configured');
     }
 
-    // Proceed with sync process
-    return performSync(projectId, options);
+    // Proceed with sync process; options of this sync (branch, waitForCi) win over stored ones
+    return performSync(projectId, { ...storedOptions, ...options });
   }).then(result => {
     // Sync completed successfully
     syncInProgress = false;
+
+    // Remember the gist of this project so the next sync updates it
+    if (result && result.gist) {
+      rememberGist(projectId, result.gist.id);
+    }
     console.log('[Bolt.DIY to GitHub] Sync completed successfully:', result);
 
     // Notify UI of completion
@@ -325,10 +341,13 @@ async function performSync(projectId, options) {
 
   // In a real implementation, this would:
   // 1. Collect all project files from the Bolt.DIY page
-  // 2. Create a ZIP archive of the project files
+  // 2. Create a ZIP archive of the project files with StreamingZipWriter.createArchive
   // 3. Process the ZIP with the OptimizedZipProcessor
   // 4. Upload files to GitHub using the FileService
-  // 5. Handle multi-environment branching
+  // 5. Handle multi-environment branching, or with options.exportTarget === 'gist'
+  //    publish the filtered files via GistService.exportFiles instead, passing
+  //    options.gistIds[projectId] so later syncs update the same gist
+  // 6. With options.waitForCi, dispatch the CI workflow (see waitForWorkflowRun)
 
   // For now, we'll simulate the process
   await new Promise(resolve => setTimeout(resolve, 2000)); // Simulate processing time
@@ -347,9 +366,75 @@ async function performSync(projectId, options) {
     timestamp: Date.now()
   };
 
+  if (options.waitForCi) {
+    result.workflowRun = await waitForWorkflowRun(projectId, branchToUse);
+  }
+
   return result;
 }
 
+/**
+ * Dispatch the CI workflow on the exported branch and wait for its run to complete,
+ * relaying every status change to the popup
+ * @param {string} projectId - Project ID the run belongs to
+ * @param {string} branch - Branch the workflow runs on
+ * @returns {Promise<Object>} Completed workflow run
+ */
+async function waitForWorkflowRun(projectId, branch) {
+  // In a real implementation, this would call ActionsService.dispatchAndWait with
+  // onProgress: ({ run }) => notifyWorkflowRun(projectId, run) and return result.run
+
+  // For now, we'll simulate a run moving through its states
+  const run = {
+    id: Date.now(),
+    name: 'CI',
+    head_branch: branch,
+    html_url: '',
+    status: 'queued',
+    conclusion: null
+  };
+
+  for (const status of ['queued', 'in_progress', 'completed']) {
+    run.status = status;
+    run.conclusion = status === 'completed' ? 'success' : null;
+    notifyWorkflowRun(projectId, run);
+    if (status !== 'completed') {
+      await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate the poll interval
+    }
+  }
+
+  return { ...run };
+}
+
+/**
+ * Tell the popup about the progress of a CI workflow run
+ * @param {string} projectId - Project ID the run belongs to
+ * @param {Object} run - Workflow run
+ */
+function notifyWorkflowRun(projectId, run) {
+  chrome.runtime.sendMessage({
+    type: 'WORKFLOW_RUN_UPDATED',
+    projectId: projectId,
+    run: { ...run }
+  }).catch(error => {
+    console.warn('[Bolt.DIY to GitHub] Failed to notify UI of workflow run update:', error);
+  });
+}
+
+/**
+ * Store the gist a project was published to
+ * @param {string} projectId - Project ID
+ * @param {string} gistId - Gist ID
+ */
+function rememberGist(projectId, gistId) {
+  chrome.storage.sync.get(['gistIds']).then(options => {
+    const gistIds = { ...(options.gistIds || {}), [projectId]: gistId };
+    return chrome.storage.sync.set({ gistIds });
+  }).catch(error => {
+    console.error('[Bolt.DIY to GitHub] Failed to remember gist:', error);
+  });
+}
+
 /**
  * Trigger project sync from context menu
  * @param {number} tabId - Tab ID
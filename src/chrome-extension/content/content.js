@@ -237,6 +237,13 @@ function handleMessage(message, sender, sendResponse) {
       sendResponse({ type: 'SYNC_STARTED' });
       return false; // Synchronous response
 
+    case 'IMPORT_PROJECT':
+      // Hand an imported repository bundle to the Bolt.DIY page
+      sendResponse({
+        type: handOffProjectBundle(message.bundle) ? 'IMPORT_STARTED' : 'IMPORT_FAILED'
+      });
+      return false; // Synchronous response
+
     default:
       console.warn('[Bolt.DIY to GitHub] Unknown message type:', message.type);
       return false; // No response needed
@@ -266,6 +273,29 @@ function triggerSync(options) {
   });
 }
 
+/**
+ * Hand a project bundle imported from GitHub to the Bolt.DIY page
+ * @param {Object} bundle - Project bundle with a file map and metadata
+ * @returns {boolean} True if the bundle was posted to the page
+ */
+function handOffProjectBundle(bundle) {
+  if (!bundle || !bundle.files || !bundle.metadata) {
+    logContentError('Received an invalid project bundle');
+    return false;
+  }
+
+  console.log(`[Bolt.DIY to GitHub] Importing ${bundle.metadata.fileCount} files from ${bundle.metadata.source.owner}/${bundle.metadata.source.repo}`);
+
+  // The page listens for window messages; restrict delivery to its own origin
+  window.postMessage({
+    source: 'bolt-diy-to-github',
+    type: 'IMPORT_PROJECT_BUNDLE',
+    bundle: bundle
+  }, window.location.origin);
+
+  return true;
+}
+
 // Export for testing
 if (typeof module !== 'undefined' && module.exports) {
   module.exports = {
@@ -273,6 +303,7 @@ if (typeof module !== 'undefined' && module.exports) {
     extractProjectId,
     extractProjectName,
     extractProjectDescription,
-    extractFileStructure
+    extractFileStructure,
+    handOffProjectBundle
   };
 }
\ No newline at end of file
@@ -30,6 +30,11 @@ function handleBackgroundMessage(message) {
       app.$set({ syncInProgress: true, syncStatus: 'Sync started...' });
       break;
 
+    case 'WORKFLOW_RUN_UPDATED':
+      // Update UI with the progress of the CI run started after the export
+      app.$set({ syncStatus: `CI ${message.run.status.replace('_', ' ')}...` });
+      break;
+
     case 'SYNC_COMPLETED':
       // Update UI to show sync completion
       app.$set({
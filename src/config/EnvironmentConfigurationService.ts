@@ -27,7 +27,8 @@ export class EnvironmentConfigurationService {
     tokenEncryptionService: TokenEncryptionService,
     encryptionPassword: string,
     githubPatAuthService: GitHubPATAuthService,
-    githubAppAuthService?: GitHubAppAuthService
+    githubAppAuthService?: GitHubAppAuthService,
+    githubHost?: string
   ) {
     this.configurationManager = new BasicConfigurationManager(
       payloadEncryptionService,
@@ -38,7 +39,8 @@ export class EnvironmentConfigurationService {
       githubPatAuthService,
       tokenEncryptionService,
       encryptionPassword,
-      githubAppAuthService
+      githubAppAuthService,
+      githubHost
     );
     this.encryptionPassword = encryptionPassword;
   }
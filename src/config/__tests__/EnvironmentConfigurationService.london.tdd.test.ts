@@ -96,7 +96,8 @@ describe('EnvironmentConfigurationService - London School TDD', () => {
         mockGitHubPATAuthService,
         mockTokenEncryptionService,
         testEncryptionPassword,
-        mockGitHubAppAuthService
+        mockGitHubAppAuthService,
+        undefined
       );
     });
   });
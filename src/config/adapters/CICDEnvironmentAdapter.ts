@@ -3,6 +3,7 @@
 
 import { EnvironmentAdapter, EnvironmentType } from '../EnvironmentAdapter';
 import { ConfigurationSource, ConfigurationSourceType, ValidationResult } from '../ConfigurationManager';
+import { withGitHubEndpoints } from '../../utils/githubEndpoints';
 import * as path from 'path';
 
 /**
@@ -113,6 +114,11 @@ export class CICDEnvironmentAdapter implements EnvironmentAdapter {
       };
     }
 
+    // Resolve GitHub API and OAuth endpoints (GitHub Actions exposes the server URL)
+    if (config.github) {
+      config.github = withGitHubEndpoints(config.github, process.env.GITHUB_SERVER_URL || process.env.GITHUB_HOST);
+    }
+
     return config;
   }
 
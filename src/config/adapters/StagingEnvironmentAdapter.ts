@@ -3,6 +3,7 @@
 
 import { EnvironmentAdapter, EnvironmentType } from '../EnvironmentAdapter';
 import { ConfigurationSource, ConfigurationSourceType, ValidationResult } from '../ConfigurationManager';
+import { withGitHubEndpoints } from '../../utils/githubEndpoints';
 import * as path from 'path';
 
 /**
@@ -95,6 +96,11 @@ export class StagingEnvironmentAdapter implements EnvironmentAdapter {
       };
     }
 
+    // Resolve GitHub API and OAuth endpoints for github.com or GitHub Enterprise Server
+    if (config.github) {
+      config.github = withGitHubEndpoints(config.github, process.env.GITHUB_HOST);
+    }
+
     return config;
   }
 
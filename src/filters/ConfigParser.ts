@@ -3,6 +3,7 @@ import { SimpleGlobMatcher } from './SimpleGlobMatcher';
 import { SizeFilter } from './SizeFilter';
 import { ContentTypeFilter } from './ContentTypeFilter';
 import { IncludeFilterGroup } from './IncludeFilterGroup';
+import { LargeFilePolicy } from './LargeFilePolicy';
 
 /**
  * Filter configuration parser
@@ -74,6 +75,11 @@ export class ConfigParser {
       filters.push(new ContentTypeFilter({ contentTypes: config.contentTypes }));
     }
 
+    // Large file policy runs last so only files that passed every other filter are routed
+    if (config.largeFiles) {
+      filters.push(new LargeFilePolicy(config.largeFiles));
+    }
+
     return filters;
   }
 
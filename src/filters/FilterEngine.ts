@@ -1,5 +1,6 @@
-import { FilterConfig, FilterResult, FileMetadata } from '../types/filters';
+import { FilterConfig, FilterResult, FileMetadata, LargeFileRoute } from '../types/filters';
 import { ConfigParser } from './ConfigParser';
+import { LargeFilePolicy } from './LargeFilePolicy';
 import { FilterHooksService, FilterResultSummary } from './hooks/FilterHooksService';
 import { FilterVerificationService, VerificationReport } from './verification/FilterVerificationService';
 
@@ -83,6 +84,12 @@ export class FilterEngine {
     // Create filter result
     const result: FilterResult = { included, excluded, reasons };
 
+    // Record how included large files must be uploaded
+    const largeFilePolicy = filters.find((filter): filter is LargeFilePolicy => filter instanceof LargeFilePolicy);
+    if (largeFilePolicy) {
+      result.routes = this.routeLargeFiles(largeFilePolicy, files, included);
+    }
+
     // Calculate truth score
     const truthScore = verificationService.calculateTruthScore(config, files, result);
 
@@ -165,6 +172,27 @@ export class FilterEngine {
     };
   }
 
+  /**
+   * Collect the upload routes of included large files
+   * @param policy Large file policy
+   * @param files All filtered files
+   * @param included Paths of included files
+   * @returns Route per large file path
+   */
+  private routeLargeFiles(policy: LargeFilePolicy, files: FileMetadata[], included: string[]): Record<string, LargeFileRoute> {
+    const includedPaths = new Set(included);
+    const routes: Record<string, LargeFileRoute> = {};
+
+    for (const file of files) {
+      const route = includedPaths.has(file.path) ? policy.route(file) : null;
+      if (route) {
+        routes[file.path] = route;
+      }
+    }
+
+    return routes;
+  }
+
   /**
    * Aggregate exclusion reasons for reporting
    * @param reasons Record of file paths to exclusion reasons
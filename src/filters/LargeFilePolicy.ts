@@ -0,0 +1,72 @@
+import { Filter, FileMetadata, LargeFileAction, LargeFilePolicyConfig, LargeFileRoute } from '../types/filters';
+
+/** Largest file the contents API accepts */
+export const DEFAULT_LARGE_FILE_THRESHOLD = 1024 * 1024;
+
+/** Largest blob GitHub accepts; bigger files can only be stored in Git LFS */
+export const GITHUB_BLOB_SIZE_LIMIT = 100 * 1024 * 1024;
+
+/**
+ * Large file policy
+ * Routes files above the threshold to Git LFS or the Git Data API, or excludes them
+ */
+export class LargeFilePolicy implements Filter {
+  private action: LargeFileAction;
+  private threshold: number;
+  private reason: string = '';
+
+  /**
+   * Create a new large file policy
+   * @param config Policy configuration with action and threshold
+   */
+  constructor(config: LargeFilePolicyConfig) {
+    this.action = config.action;
+    this.threshold = config.threshold ?? DEFAULT_LARGE_FILE_THRESHOLD;
+  }
+
+  /**
+   * Apply the policy to a file
+   * @param file File metadata to filter
+   * @returns false when the policy excludes the file, true otherwise
+   */
+  apply(file: FileMetadata): boolean {
+    // Reset reason for each application
+    this.reason = '';
+
+    if (file.size <= this.threshold) {
+      return true;
+    }
+
+    if (this.action === 'exclude') {
+      this.reason = `File size ${file.size} bytes is above large file threshold ${this.threshold} bytes`;
+      return false;
+    }
+
+    if (this.action === 'blob' && file.size > GITHUB_BLOB_SIZE_LIMIT) {
+      this.reason = `File size ${file.size} bytes is above GitHub blob limit ${GITHUB_BLOB_SIZE_LIMIT} bytes; use Git LFS`;
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Get the upload route of a file that passed the policy
+   * @param file File metadata
+   * @returns 'lfs' or 'blob' for large files, null for files the contents API can take
+   */
+  route(file: FileMetadata): LargeFileRoute | null {
+    if (file.size <= this.threshold || this.action === 'exclude') {
+      return null;
+    }
+    return this.action;
+  }
+
+  /**
+   * Get reason for filter exclusion
+   * @returns Reason string explaining why file was excluded
+   */
+  getReason(): string {
+    return this.reason;
+  }
+}
@@ -0,0 +1,61 @@
+import { LargeFilePolicy, DEFAULT_LARGE_FILE_THRESHOLD, GITHUB_BLOB_SIZE_LIMIT } from '../LargeFilePolicy';
+import { FilterEngine } from '../FilterEngine';
+
+describe('LargeFilePolicy', () => {
+  test('should leave files at or below the threshold alone', () => {
+    const policy = new LargeFilePolicy({ action: 'exclude' });
+    const file = { path: 'logo.png', size: DEFAULT_LARGE_FILE_THRESHOLD, contentType: 'image/png' };
+
+    expect(policy.apply(file)).toBe(true);
+    expect(policy.route(file)).toBeNull();
+  });
+
+  test('should exclude large files with a reason', () => {
+    const policy = new LargeFilePolicy({ action: 'exclude', threshold: 1000 });
+
+    expect(policy.apply({ path: 'video.mp4', size: 1500, contentType: 'video/mp4' })).toBe(false);
+    expect(policy.getReason()).toBe('File size 1500 bytes is above large file threshold 1000 bytes');
+  });
+
+  test('should route large files to Git LFS', () => {
+    const policy = new LargeFilePolicy({ action: 'lfs', threshold: 1000 });
+    const file = { path: 'model.onnx', size: GITHUB_BLOB_SIZE_LIMIT * 2, contentType: 'application/octet-stream' };
+
+    expect(policy.apply(file)).toBe(true);
+    expect(policy.route(file)).toBe('lfs');
+  });
+
+  test('should route large files to blobs but exclude files above the blob limit', () => {
+    const policy = new LargeFilePolicy({ action: 'blob', threshold: 1000 });
+
+    expect(policy.route({ path: 'hero.jpg', size: 5000, contentType: 'image/jpeg' })).toBe('blob');
+    expect(policy.apply({ path: 'dump.bin', size: GITHUB_BLOB_SIZE_LIMIT + 1, contentType: 'application/octet-stream' })).toBe(false);
+    expect(policy.getReason()).toBe(`File size ${GITHUB_BLOB_SIZE_LIMIT + 1} bytes is above GitHub blob limit ${GITHUB_BLOB_SIZE_LIMIT} bytes; use Git LFS`);
+  });
+
+  test('should report routes of included large files through the filter engine', async () => {
+    const engine = new FilterEngine();
+    const files = [
+      { path: 'src/app.ts', size: 200, contentType: 'text/typescript' },
+      { path: 'public/hero.png', size: 2048, contentType: 'image/png' },
+      { path: 'dist/bundle.js', size: 4096, contentType: 'application/javascript' }
+    ];
+
+    const result = await engine.filter({ maxSize: 3000, largeFiles: { action: 'lfs', threshold: 1024 } }, files);
+
+    expect(result.included).toEqual(['src/app.ts', 'public/hero.png']);
+    expect(result.routes).toEqual({ 'public/hero.png': 'lfs' });
+  });
+
+  test('should report large file exclusions in the filter result', async () => {
+    const engine = new FilterEngine();
+
+    const result = await engine.filter({ largeFiles: { action: 'exclude', threshold: 1024 } }, [
+      { path: 'public/hero.png', size: 2048, contentType: 'image/png' }
+    ]);
+
+    expect(result.excluded).toEqual(['public/hero.png']);
+    expect(result.reasons['public/hero.png']).toBe('File size 2048 bytes is above large file threshold 1024 bytes');
+    expect(result.routes).toEqual({});
+  });
+});
@@ -3,5 +3,6 @@ export { GlobMatcher } from './GlobMatcher.js';
 export { SizeFilter } from './SizeFilter.js';
 export { ContentTypeFilter } from './ContentTypeFilter.js';
 export { ConfigParser } from './ConfigParser.js';
+export { LargeFilePolicy, DEFAULT_LARGE_FILE_THRESHOLD, GITHUB_BLOB_SIZE_LIMIT } from './LargeFilePolicy.js';
 
-export type { FilterConfig, FilterResult, FileMetadata, Filter } from '../types/filters.js';
\ No newline at end of file
+export type { FilterConfig, FilterResult, FileMetadata, Filter, LargeFileAction, LargeFileRoute, LargeFilePolicyConfig } from '../types/filters.js';
\ No newline at end of file
@@ -1,41 +1,83 @@
 // Main GitHub Client with service integration
 import { HttpClient } from '../utils/http';
-import { GitHubPATAuthService } from '../services/GitHubPATAuthService';
+import { HttpCacheStatus } from '../utils/httpCache';
+import { GitHubEndpoints, resolveGitHubEndpoints } from '../utils/githubEndpoints';
+import { AuthStrategy, createTokenStrategy } from '../services/auth/AuthStrategy';
 import { RepositoryService } from './repositories/RepositoryService';
 import { BranchService } from './branches/BranchService';
 import { FileService } from './files/FileService';
+import { GitDataService } from './git/GitDataService';
+import { PullRequestService } from './pulls/PullRequestService';
+import { ReleaseService } from './releases/ReleaseService';
+import { LfsService } from './lfs/LfsService';
+import { RepositoryImportService } from './imports/RepositoryImportService';
+import { ActionsService } from './actions/ActionsService';
+import { GistService } from './gists/GistService';
+import { GitHubClientOptions } from './types/github';
 
 export class GitHubClient {
   private httpClient: HttpClient;
-  private authService: GitHubPATAuthService;
-  private token: string;
+  private authStrategy: AuthStrategy;
+  private _endpoints: GitHubEndpoints;
   private _repositories: RepositoryService;
   private _branches: BranchService;
   private _files: FileService;
+  private _git: GitDataService;
+  private _pulls: PullRequestService;
+  private _releases: ReleaseService;
+  private _lfs: LfsService;
+  private _imports: RepositoryImportService;
+  private _actions: ActionsService;
+  private _gists: GistService;
 
-  constructor(token: string) {
-    // Validate token format
-    this.authService = new GitHubPATAuthService();
-    if (!this.authService.validateToken(token)) {
-      throw new Error('Invalid GitHub PAT format');
+  /**
+   * @param auth Raw token (PAT or OAuth user token) or an authentication strategy
+   * @param options HTTP client options
+   */
+  constructor(auth: string | AuthStrategy, options: GitHubClientOptions = {}) {
+    // Validate credential format
+    this.authStrategy = auth && typeof auth === 'object' ? auth : createTokenStrategy(auth);
+    if (!this.authStrategy.validate()) {
+      throw new Error(`Invalid ${this.authStrategy.label} format`);
     }
 
-    this.token = token;
+    this._endpoints = resolveGitHubEndpoints(options.baseUrl || options.host);
     this.httpClient = new HttpClient({
-      baseUrl: 'https://api.github.com',
-      userAgent: 'bolt-diy-to-github-client'
+      baseUrl: options.baseUrl || this._endpoints.apiBaseUrl,
+      userAgent: options.userAgent || 'bolt-diy-to-github-client',
+      timeout: options.timeout,
+      retry: options.retry === undefined ? {} : options.retry,
+      throttle: options.throttle,
+      cache: options.cache
     });
 
     // Initialize services
     this._repositories = new RepositoryService(this.httpClient, this.getAuthHeaders.bind(this));
     this._branches = new BranchService(this.httpClient, this.getAuthHeaders.bind(this));
     this._files = new FileService(this.httpClient, this.getAuthHeaders.bind(this));
+    this._git = new GitDataService(this.httpClient, this.getAuthHeaders.bind(this));
+    this._pulls = new PullRequestService(this.httpClient, this.getAuthHeaders.bind(this));
+    this._releases = new ReleaseService(this.httpClient, this.getAuthHeaders.bind(this), this._endpoints.uploadsBaseUrl);
+    this._lfs = new LfsService(this.httpClient, this.getAuthHeaders.bind(this), this._endpoints.webBaseUrl);
+    this._imports = new RepositoryImportService(this.httpClient, this.getAuthHeaders.bind(this));
+    this._actions = new ActionsService(this.httpClient, this.getAuthHeaders.bind(this));
+    this._gists = new GistService(this.httpClient, this.getAuthHeaders.bind(this));
   }
 
-  private getAuthHeaders(): Record<string, string> {
-    return {
-      'Authorization': `token ${this.token}`
-    };
+  private getAuthHeaders(): Promise<Record<string, string>> {
+    return this.authStrategy.getAuthHeaders();
+  }
+
+  /**
+   * Get hit/miss statistics of the response cache
+   * @returns Cache status
+   */
+  getCacheStatus(): Promise<HttpCacheStatus> {
+    return this.httpClient.getCacheStatus();
+  }
+
+  get endpoints() {
+    return this._endpoints;
   }
 
   get repositories() {
@@ -49,4 +91,32 @@ export class GitHubClient {
   get files() {
     return this._files;
   }
+
+  get git() {
+    return this._git;
+  }
+
+  get pulls() {
+    return this._pulls;
+  }
+
+  get releases() {
+    return this._releases;
+  }
+
+  get lfs() {
+    return this._lfs;
+  }
+
+  get imports() {
+    return this._imports;
+  }
+
+  get actions() {
+    return this._actions;
+  }
+
+  get gists() {
+    return this._gists;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,191 @@
+// Actions Service for dispatching workflows and tracking their runs
+import { HttpClient, AuthHeadersProvider, toQueryString } from '../../utils/http';
+import { sleep } from '../../utils/retry';
+import {
+  Workflow,
+  WorkflowRun,
+  WorkflowJob,
+  WorkflowRunListOptions,
+  WorkflowRunWaitOptions,
+  WorkflowDispatchParams,
+  WorkflowRunResult
+} from '../types/github';
+
+const DEFAULT_POLL_INTERVAL_MS = 10 * 1000;
+const DEFAULT_RUN_TIMEOUT_MS = 30 * 60 * 1000;
+
+export class ActionsService {
+  /**
+   * @param httpClient HTTP client for the REST API
+   * @param getAuthHeaders Authorization headers provider
+   */
+  constructor(private httpClient: HttpClient, private getAuthHeaders: AuthHeadersProvider) {}
+
+  /**
+   * List the workflows of a repository
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @returns Promise resolving to array of workflows
+   */
+  async listWorkflows(owner: string, repo: string): Promise<Workflow[]> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const response = await this.httpClient.get(`/repos/${owner}/${repo}/actions/workflows${toQueryString({ per_page: 100 })}`, headers);
+      return response.workflows;
+    } catch (error) {
+      throw new Error(`Failed to list workflows: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Trigger a workflow_dispatch event
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param workflow Workflow id or file name
+   * @param ref Branch or tag to run the workflow on
+   * @param inputs Inputs declared by the workflow
+   * @returns Promise resolving once GitHub has accepted the dispatch
+   */
+  async dispatch(
+    owner: string,
+    repo: string,
+    workflow: number | string,
+    ref: string,
+    inputs?: Record<string, string | number | boolean>
+  ): Promise<void> {
+    try {
+      const headers = await this.getAuthHeaders();
+      await this.httpClient.post(
+        `/repos/${owner}/${repo}/actions/workflows/${encodeURIComponent(String(workflow))}/dispatches`,
+        { ref, inputs },
+        headers
+      );
+    } catch (error) {
+      throw new Error(`Failed to dispatch workflow: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * List the most recent runs of a workflow, or of the whole repository
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param workflow Workflow id or file name; all workflows when omitted
+   * @param options Branch, event, status and page size filters
+   * @returns Promise resolving to runs, newest first
+   */
+  async listRuns(owner: string, repo: string, workflow?: number | string, options: WorkflowRunListOptions = {}): Promise<WorkflowRun[]> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const base = workflow === undefined
+        ? `/repos/${owner}/${repo}/actions/runs`
+        : `/repos/${owner}/${repo}/actions/workflows/${encodeURIComponent(String(workflow))}/runs`;
+      const response = await this.httpClient.get(`${base}${toQueryString({ ...options })}`, headers);
+      return response.workflow_runs;
+    } catch (error) {
+      throw new Error(`Failed to list workflow runs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get a workflow run
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param runId Run id
+   * @returns Promise resolving to the run
+   */
+  async getRun(owner: string, repo: string, runId: number): Promise<WorkflowRun> {
+    try {
+      const headers = await this.getAuthHeaders();
+      return await this.httpClient.get(`/repos/${owner}/${repo}/actions/runs/${runId}`, headers);
+    } catch (error) {
+      throw new Error(`Failed to get workflow run: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * List the jobs of the latest attempt of a workflow run
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param runId Run id
+   * @returns Promise resolving to array of jobs with their steps
+   */
+  async listJobs(owner: string, repo: string, runId: number): Promise<WorkflowJob[]> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const response = await this.httpClient.get(`/repos/${owner}/${repo}/actions/runs/${runId}/jobs${toQueryString({ per_page: 100 })}`, headers);
+      return response.jobs;
+    } catch (error) {
+      throw new Error(`Failed to list workflow jobs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Poll a run and its jobs until the run completes
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param runId Run id
+   * @param options Poll interval, timeout and progress callback
+   * @returns Promise resolving to the completed run, its jobs and conclusion
+   */
+  async waitForRun(owner: string, repo: string, runId: number, options: WorkflowRunWaitOptions = {}): Promise<WorkflowRunResult> {
+    const startTime = Date.now();
+    const timeout = options.timeout ?? DEFAULT_RUN_TIMEOUT_MS;
+
+    try {
+      for (;;) {
+        const [run, jobs] = await Promise.all([this.getRun(owner, repo, runId), this.listJobs(owner, repo, runId)]);
+        options.onProgress?.({ run, jobs });
+
+        if (run.status === 'completed') {
+          return { run, jobs, conclusion: run.conclusion, success: run.conclusion === 'success', duration: Date.now() - startTime };
+        }
+        if (Date.now() - startTime >= timeout) {
+          throw new Error(`Run ${runId} did not complete within ${timeout}ms (status: ${run.status})`);
+        }
+        await sleep(options.pollInterval ?? DEFAULT_POLL_INTERVAL_MS);
+      }
+    } catch (error) {
+      throw new Error(`Failed to wait for workflow run: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Dispatch a workflow and wait for the run it started to complete.
+   * The dispatch API does not return the run, so the first workflow_dispatch
+   * run on the ref that was not there before dispatching is tracked.
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param params Workflow, ref, inputs, poll interval, timeout and progress callback
+   * @returns Promise resolving to the completed run, its jobs and conclusion
+   */
+  async dispatchAndWait(owner: string, repo: string, params: WorkflowDispatchParams): Promise<WorkflowRunResult> {
+    const startTime = Date.now();
+    const timeout = params.timeout ?? DEFAULT_RUN_TIMEOUT_MS;
+    const filter: WorkflowRunListOptions = {
+      branch: params.ref.replace(/^refs\/(heads|tags)\//, ''),
+      event: 'workflow_dispatch',
+      per_page: 20
+    };
+
+    try {
+      const previousRuns = new Set((await this.listRuns(owner, repo, params.workflow, filter)).map(run => run.id));
+      await this.dispatch(owner, repo, params.workflow, params.ref, params.inputs);
+
+      let run: WorkflowRun | undefined;
+      while (!(run = (await this.listRuns(owner, repo, params.workflow, filter)).find(candidate => !previousRuns.has(candidate.id)))) {
+        if (Date.now() - startTime >= timeout) {
+          throw new Error(`No run of workflow ${params.workflow} appeared within ${timeout}ms`);
+        }
+        await sleep(params.pollInterval ?? DEFAULT_POLL_INTERVAL_MS);
+      }
+
+      const result = await this.waitForRun(owner, repo, run.id, {
+        ...params,
+        timeout: Math.max(timeout - (Date.now() - startTime), 0)
+      });
+      return { ...result, duration: Date.now() - startTime };
+    } catch (error) {
+      throw new Error(`Failed to dispatch and wait for workflow: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -0,0 +1,123 @@
+// London School TDD Unit Tests for ActionsService
+import { ActionsService } from '../ActionsService';
+import { HttpClient } from '../../../utils/http';
+
+function run(id: number, status: string, conclusion: string | null = null) {
+  return { id, name: 'CI', head_branch: 'main', status, conclusion, html_url: `https://github.com/owner/repo/actions/runs/${id}` };
+}
+
+describe('ActionsService (London School TDD)', () => {
+  let actionsService: ActionsService;
+  let mockHttpClient: jest.Mocked<HttpClient>;
+  let mockGetAuthHeaders: jest.Mock;
+  const authHeaders = { 'Authorization': 'token test-token' };
+
+  beforeEach(() => {
+    mockHttpClient = {
+      get: jest.fn(),
+      post: jest.fn()
+    } as any;
+
+    mockGetAuthHeaders = jest.fn().mockReturnValue(authHeaders);
+
+    actionsService = new ActionsService(mockHttpClient, mockGetAuthHeaders);
+  });
+
+  it('should dispatch a workflow by file name with its inputs', async () => {
+    mockHttpClient.post.mockResolvedValue(undefined);
+
+    await actionsService.dispatch('owner', 'repo', 'deploy.yml', 'main', { environment: 'staging' });
+
+    expect(mockHttpClient.post).toHaveBeenCalledWith(
+      '/repos/owner/repo/actions/workflows/deploy.yml/dispatches',
+      { ref: 'main', inputs: { environment: 'staging' } },
+      authHeaders
+    );
+  });
+
+  it('should list workflows, runs and jobs', async () => {
+    mockHttpClient.get
+      .mockResolvedValueOnce({ total_count: 1, workflows: [{ id: 1, path: '.github/workflows/ci.yml' }] })
+      .mockResolvedValueOnce({ total_count: 1, workflow_runs: [run(5, 'queued')] })
+      .mockResolvedValueOnce({ total_count: 1, jobs: [{ id: 9, name: 'build' }] });
+
+    await expect(actionsService.listWorkflows('owner', 'repo')).resolves.toEqual([{ id: 1, path: '.github/workflows/ci.yml' }]);
+    await expect(actionsService.listRuns('owner', 'repo', 1, { branch: 'main', event: 'push' })).resolves.toEqual([run(5, 'queued')]);
+    await expect(actionsService.listJobs('owner', 'repo', 5)).resolves.toEqual([{ id: 9, name: 'build' }]);
+
+    expect(mockHttpClient.get).toHaveBeenNthCalledWith(1, '/repos/owner/repo/actions/workflows?per_page=100', authHeaders);
+    expect(mockHttpClient.get).toHaveBeenNthCalledWith(2, '/repos/owner/repo/actions/workflows/1/runs?branch=main&event=push', authHeaders);
+    expect(mockHttpClient.get).toHaveBeenNthCalledWith(3, '/repos/owner/repo/actions/runs/5/jobs?per_page=100', authHeaders);
+  });
+
+  it('should poll a run and its jobs until it completes', async () => {
+    const onProgress = jest.fn();
+    mockHttpClient.get.mockImplementation(async (path: string) => {
+      if (path.includes('/jobs')) {
+        return { jobs: [{ id: 9, name: 'build', status: 'in_progress', conclusion: null }] };
+      }
+      return onProgress.mock.calls.length < 2 ? run(5, 'in_progress') : run(5, 'completed', 'failure');
+    });
+
+    const result = await actionsService.waitForRun('owner', 'repo', 5, { pollInterval: 0, onProgress });
+
+    expect(onProgress).toHaveBeenCalledTimes(3);
+    expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ run: run(5, 'in_progress') }));
+    expect(result.conclusion).toBe('failure');
+    expect(result.success).toBe(false);
+    expect(result.jobs).toHaveLength(1);
+  });
+
+  it('should give up on runs that do not complete in time', async () => {
+    mockHttpClient.get.mockImplementation(async (path: string) => path.includes('/jobs') ? { jobs: [] } : run(5, 'queued'));
+
+    await expect(actionsService.waitForRun('owner', 'repo', 5, { pollInterval: 0, timeout: 0 })).rejects.toThrow(
+      'Failed to wait for workflow run: Run 5 did not complete within 0ms (status: queued)'
+    );
+  });
+
+  it('should dispatch and track the run the dispatch created', async () => {
+    let listCalls = 0;
+    mockHttpClient.post.mockResolvedValue(undefined);
+    mockHttpClient.get.mockImplementation(async (path: string) => {
+      if (path.includes('/workflows/ci.yml/runs')) {
+        listCalls++;
+        // The new run only shows up on the second poll after dispatching
+        return { workflow_runs: listCalls < 3 ? [run(4, 'completed', 'success')] : [run(7, 'queued'), run(4, 'completed', 'success')] };
+      }
+      if (path.includes('/jobs')) {
+        return { jobs: [{ id: 11, name: 'test', status: 'completed', conclusion: 'success' }] };
+      }
+      return run(7, 'completed', 'success');
+    });
+
+    const result = await actionsService.dispatchAndWait('owner', 'repo', {
+      workflow: 'ci.yml',
+      ref: 'refs/heads/main',
+      pollInterval: 0
+    });
+
+    expect(mockHttpClient.get).toHaveBeenCalledWith(
+      '/repos/owner/repo/actions/workflows/ci.yml/runs?branch=main&event=workflow_dispatch&per_page=20',
+      authHeaders
+    );
+    expect(mockHttpClient.post).toHaveBeenCalledWith(
+      '/repos/owner/repo/actions/workflows/ci.yml/dispatches',
+      { ref: 'refs/heads/main', inputs: undefined },
+      authHeaders
+    );
+    expect(mockHttpClient.get).toHaveBeenCalledWith('/repos/owner/repo/actions/runs/7', authHeaders);
+    expect(result.run.id).toBe(7);
+    expect(result.success).toBe(true);
+    expect(result.duration).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should wrap dispatch failures with context', async () => {
+    mockHttpClient.get.mockResolvedValue({ workflow_runs: [] });
+    mockHttpClient.post.mockRejectedValue(new Error("HTTP 422: Unprocessable Entity - Workflow does not have 'workflow_dispatch' trigger"));
+
+    await expect(actionsService.dispatchAndWait('owner', 'repo', { workflow: 'ci.yml', ref: 'main' })).rejects.toThrow(
+      "Failed to dispatch and wait for workflow: Failed to dispatch workflow: HTTP 422: Unprocessable Entity - Workflow does not have 'workflow_dispatch' trigger"
+    );
+  });
+});
@@ -1,25 +1,79 @@
 // Branch Service
-import { HttpClient } from '../../utils/http';
-import { Branch } from '../types/github';
+import { HttpClient, AuthHeadersProvider, GitHubApiError, toQueryString } from '../../utils/http';
+import {
+  Branch,
+  BranchListOptions,
+  BranchProtectionRules,
+  BranchProtection,
+  BranchRule,
+  BranchPolicy
+} from '../types/github';
+
+/**
+ * Default protection for the environment branches offered by the extension:
+ * production-like branches need a reviewed PR, every environment keeps a
+ * linear history and none of them can be force-pushed or deleted.
+ */
+export const ENVIRONMENT_PROTECTION_PRESETS: Record<string, BranchProtectionRules> = {
+  main: { requiredApprovingReviews: 1, dismissStaleReviews: true, requireLinearHistory: true, allowForcePushes: false, allowDeletions: false },
+  production: { requiredApprovingReviews: 1, dismissStaleReviews: true, requireLinearHistory: true, allowForcePushes: false, allowDeletions: false },
+  staging: { requiredApprovingReviews: 0, requireLinearHistory: true, allowForcePushes: false, allowDeletions: false },
+  development: { allowForcePushes: false, allowDeletions: false }
+};
+
+// Ruleset rules that reject direct pushes of export commits
+const PULL_REQUEST_RULE_TYPES = ['pull_request', 'required_status_checks'];
 
 export class BranchService {
-  constructor(private httpClient: HttpClient, private getAuthHeaders: () => Record<string, string>) {}
+  constructor(private httpClient: HttpClient, private getAuthHeaders: AuthHeadersProvider) {}
 
   /**
-   * List branches for a repository
+   * List the first page of branches for a repository
    * @param owner Repository owner
    * @param repo Repository name
+   * @param options Page size and protection filter
    * @returns Promise resolving to array of branches
    */
-  async list(owner: string, repo: string): Promise<Branch[]> {
+  async list(owner: string, repo: string, options: BranchListOptions = {}): Promise<Branch[]> {
     try {
-      const headers = this.getAuthHeaders();
-      return await this.httpClient.get(`/repos/${owner}/${repo}/branches`, headers);
+      const headers = await this.getAuthHeaders();
+      return await this.httpClient.get(`/repos/${owner}/${repo}/branches${toQueryString({ ...options })}`, headers);
     } catch (error) {
       throw new Error(`Failed to list branches: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Iterate over all branches of a repository, following pagination links
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param options Page size and protection filter
+   * @returns Async iterator over every branch
+   */
+  async *iterate(owner: string, repo: string, options: BranchListOptions = {}): AsyncGenerator<Branch, void, undefined> {
+    try {
+      const headers = await this.getAuthHeaders();
+      yield* this.httpClient.paginate<Branch>(`/repos/${owner}/${repo}/branches${toQueryString({ ...options })}`, headers);
+    } catch (error) {
+      throw new Error(`Failed to list branches: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * List all branches of a repository across every page
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param options Page size and protection filter
+   * @returns Promise resolving to array of all branches
+   */
+  async listAll(owner: string, repo: string, options: BranchListOptions = {}): Promise<Branch[]> {
+    const branches: Branch[] = [];
+    for await (const branch of this.iterate(owner, repo, options)) {
+      branches.push(branch);
+    }
+    return branches;
+  }
+
   /**
    * Get a specific branch
    * @param owner Repository owner
@@ -29,7 +83,7 @@ export class BranchService {
    */
   async get(owner: string, repo: string, branch: string): Promise<Branch> {
     try {
-      const headers = this.getAuthHeaders();
+      const headers = await this.getAuthHeaders();
       return await this.httpClient.get(`/repos/${owner}/${repo}/branches/${branch}`, headers);
     } catch (error) {
       throw new Error(`Failed to get branch: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -46,7 +100,7 @@ export class BranchService {
    */
   async create(owner: string, repo: string, branch: string, sha: string): Promise<Branch> {
     try {
-      const headers = this.getAuthHeaders();
+      const headers = await this.getAuthHeaders();
       const data = {
         ref: `refs/heads/${branch}`,
         sha
@@ -66,10 +120,173 @@ export class BranchService {
    */
   async delete(owner: string, repo: string, branch: string): Promise<void> {
     try {
-      const headers = this.getAuthHeaders();
+      const headers = await this.getAuthHeaders();
       await this.httpClient.delete(`/repos/${owner}/${repo}/git/refs/heads/${branch}`, headers);
     } catch (error) {
       throw new Error(`Failed to delete branch: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Get the classic protection of a branch
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param branch Branch name
+   * @returns Promise resolving to the protection rules, or null when the branch is
+   * unprotected or the token lacks the admin access needed to read them
+   */
+  async getProtection(owner: string, repo: string, branch: string): Promise<BranchProtectionRules | null> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const protection: BranchProtection = await this.httpClient.get(`/repos/${owner}/${repo}/branches/${branch}/protection`, headers);
+      return this.toProtectionRules(protection);
+    } catch (error) {
+      if (error instanceof GitHubApiError && (error.status === 404 || error.status === 403)) {
+        return null;
+      }
+      throw new Error(`Failed to get branch protection: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Replace the protection of a branch
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param branch Branch name
+   * @param rules Required reviews, status checks, linear history and force-push settings
+   * @returns Promise resolving to the applied protection rules
+   */
+  async setProtection(owner: string, repo: string, branch: string, rules: BranchProtectionRules): Promise<BranchProtectionRules> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const protection: BranchProtection = await this.httpClient.put(
+        `/repos/${owner}/${repo}/branches/${branch}/protection`,
+        this.toProtectionBody(rules),
+        headers
+      );
+      return this.toProtectionRules(protection);
+    } catch (error) {
+      throw new Error(`Failed to set branch protection: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Remove the protection of a branch
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param branch Branch name
+   * @returns Promise resolving when the protection is removed
+   */
+  async removeProtection(owner: string, repo: string, branch: string): Promise<void> {
+    try {
+      const headers = await this.getAuthHeaders();
+      await this.httpClient.delete(`/repos/${owner}/${repo}/branches/${branch}/protection`, headers);
+    } catch (error) {
+      throw new Error(`Failed to remove branch protection: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the repository and organization ruleset rules that apply to a branch
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param branch Branch name
+   * @returns Promise resolving to the active rules
+   */
+  async getRules(owner: string, repo: string, branch: string): Promise<BranchRule[]> {
+    try {
+      const headers = await this.getAuthHeaders();
+      return await this.httpClient.get(`/repos/${owner}/${repo}/rules/branches/${branch}`, headers);
+    } catch (error) {
+      // GitHub Enterprise Server releases without rulesets do not have this endpoint
+      if (error instanceof GitHubApiError && error.status === 404) {
+        return [];
+      }
+      throw new Error(`Failed to get branch rules: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Determine whether exports to a branch must go through a pull request
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param branch Branch name
+   * @returns Promise resolving to the protection, rules and resulting write policy
+   */
+  async getPolicy(owner: string, repo: string, branch: string): Promise<BranchPolicy> {
+    const [protection, rules] = await Promise.all([
+      this.getProtection(owner, repo, branch),
+      this.getRules(owner, repo, branch)
+    ]);
+
+    const requiresPullRequest = Boolean(
+      (protection && (protection.requiredApprovingReviews !== undefined || (protection.requiredStatusChecks || []).length > 0)) ||
+      rules.some(rule => PULL_REQUEST_RULE_TYPES.includes(rule.type))
+    );
+
+    return { branch, protection, rules, requiresPullRequest };
+  }
+
+  /**
+   * Apply protection to each environment branch
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param policies Protection rules keyed by branch name
+   * @returns Promise resolving to the applied rules keyed by branch name
+   */
+  async protectEnvironments(
+    owner: string,
+    repo: string,
+    policies: Record<string, BranchProtectionRules> = ENVIRONMENT_PROTECTION_PRESETS
+  ): Promise<Record<string, BranchProtectionRules>> {
+    const applied: Record<string, BranchProtectionRules> = {};
+    for (const [branch, rules] of Object.entries(policies)) {
+      applied[branch] = await this.setProtection(owner, repo, branch, rules);
+    }
+    return applied;
+  }
+
+  private toProtectionBody(rules: BranchProtectionRules): Record<string, any> {
+    return {
+      required_status_checks: rules.requiredStatusChecks && rules.requiredStatusChecks.length > 0
+        ? { strict: rules.strictStatusChecks || false, contexts: rules.requiredStatusChecks }
+        : null,
+      enforce_admins: rules.enforceAdmins || false,
+      required_pull_request_reviews: rules.requiredApprovingReviews !== undefined
+        ? {
+          required_approving_review_count: rules.requiredApprovingReviews,
+          dismiss_stale_reviews: rules.dismissStaleReviews || false,
+          require_code_owner_reviews: rules.requireCodeOwnerReviews || false
+        }
+        : null,
+      restrictions: null,
+      required_linear_history: rules.requireLinearHistory || false,
+      allow_force_pushes: rules.allowForcePushes || false,
+      allow_deletions: rules.allowDeletions || false
+    };
+  }
+
+  private toProtectionRules(protection: BranchProtection): BranchProtectionRules {
+    const rules: BranchProtectionRules = {
+      enforceAdmins: protection.enforce_admins?.enabled || false,
+      requireLinearHistory: protection.required_linear_history?.enabled || false,
+      allowForcePushes: protection.allow_force_pushes?.enabled || false,
+      allowDeletions: protection.allow_deletions?.enabled || false
+    };
+
+    const reviews = protection.required_pull_request_reviews;
+    if (reviews) {
+      rules.requiredApprovingReviews = reviews.required_approving_review_count || 0;
+      rules.dismissStaleReviews = reviews.dismiss_stale_reviews || false;
+      rules.requireCodeOwnerReviews = reviews.require_code_owner_reviews || false;
+    }
+
+    const checks = protection.required_status_checks;
+    if (checks) {
+      rules.requiredStatusChecks = checks.contexts;
+      rules.strictStatusChecks = checks.strict;
+    }
+
+    return rules;
+  }
+}
@@ -1,6 +1,6 @@
 // London School TDD Unit Tests for BranchService
-import { BranchService } from '../BranchService';
-import { HttpClient } from '../../../utils/http';
+import { BranchService, ENVIRONMENT_PROTECTION_PRESETS } from '../BranchService';
+import { HttpClient, GitHubApiError } from '../../../utils/http';
 import { Branch } from '../../types/github';
 
 describe('BranchService (London School TDD)', () => {
@@ -12,7 +12,8 @@ describe('BranchService (London School TDD)', () => {
     mockHttpClient = {
       get: jest.fn(),
       post: jest.fn(),
-      delete: jest.fn()
+      delete: jest.fn(),
+      paginate: jest.fn()
     } as any;
 
     mockGetAuthHeaders = jest.fn().mockReturnValue({ 'Authorization': 'token test-token' });
@@ -47,6 +48,23 @@ describe('BranchService (London School TDD)', () => {
     });
   });
 
+  describe('pagination', () => {
+    it('should iterate over all branches with the requested page size', async () => {
+      const branches: Branch[] = [
+        { name: 'main', commit: { sha: 'abc123', url: 'url1' }, protected: true },
+        { name: 'staging', commit: { sha: 'def456', url: 'url2' }, protected: true }
+      ];
+      mockHttpClient.paginate.mockImplementation(async function* () {
+        yield* branches;
+      });
+
+      const result = await branchService.listAll('owner', 'repo', { per_page: 100, protected: true });
+
+      expect(mockHttpClient.paginate).toHaveBeenCalledWith('/repos/owner/repo/branches?per_page=100&protected=true', { 'Authorization': 'token test-token' });
+      expect(result).toEqual(branches);
+    });
+  });
+
   describe('get', () => {
     it('should call httpClient.get with correct path and headers', async () => {
       // Arrange
@@ -121,4 +139,92 @@ describe('BranchService (London School TDD)', () => {
       await expect(branchService.delete('owner', 'repo', 'main')).rejects.toThrow('Failed to delete branch: Branch is protected');
     });
   });
-});
\ No newline at end of file
+
+  describe('protection', () => {
+    const authHeaders = { 'Authorization': 'token test-token' };
+
+    it('should apply protection rules in the GitHub API shape and read them back', async () => {
+      mockHttpClient.put = jest.fn().mockResolvedValue({
+        required_status_checks: { strict: true, contexts: ['ci'] },
+        enforce_admins: { enabled: false },
+        required_pull_request_reviews: { required_approving_review_count: 2, dismiss_stale_reviews: true, require_code_owner_reviews: false },
+        required_linear_history: { enabled: true },
+        allow_force_pushes: { enabled: false },
+        allow_deletions: { enabled: false }
+      });
+      const rules = {
+        requiredApprovingReviews: 2,
+        dismissStaleReviews: true,
+        requiredStatusChecks: ['ci'],
+        strictStatusChecks: true,
+        requireLinearHistory: true
+      };
+
+      const applied = await branchService.setProtection('owner', 'repo', 'main', rules);
+
+      expect(mockHttpClient.put).toHaveBeenCalledWith('/repos/owner/repo/branches/main/protection', {
+        required_status_checks: { strict: true, contexts: ['ci'] },
+        enforce_admins: false,
+        required_pull_request_reviews: { required_approving_review_count: 2, dismiss_stale_reviews: true, require_code_owner_reviews: false },
+        restrictions: null,
+        required_linear_history: true,
+        allow_force_pushes: false,
+        allow_deletions: false
+      }, authHeaders);
+      expect(applied).toEqual({
+        ...rules,
+        requireCodeOwnerReviews: false,
+        enforceAdmins: false,
+        allowForcePushes: false,
+        allowDeletions: false
+      });
+    });
+
+    it('should return null for unprotected branches', async () => {
+      mockHttpClient.get.mockRejectedValue(new GitHubApiError('HTTP 404: Not Found - Branch not protected', 404));
+
+      await expect(branchService.getProtection('owner', 'repo', 'dev')).resolves.toBeNull();
+    });
+
+    it('should require a pull request when rulesets demand one', async () => {
+      mockHttpClient.get.mockImplementation(async (path: string) => {
+        if (path.endsWith('/protection')) {
+          throw new GitHubApiError('HTTP 403: Forbidden', 403);
+        }
+        return [{ type: 'non_fast_forward' }, { type: 'pull_request', parameters: { required_approving_review_count: 1 } }];
+      });
+
+      const policy = await branchService.getPolicy('owner', 'repo', 'main');
+
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/repos/owner/repo/rules/branches/main', authHeaders);
+      expect(policy).toMatchObject({ branch: 'main', protection: null, requiresPullRequest: true });
+    });
+
+    it('should allow direct pushes when only force-push is blocked', async () => {
+      mockHttpClient.get.mockImplementation(async (path: string) => {
+        if (path.endsWith('/protection')) {
+          return { allow_force_pushes: { enabled: false }, required_linear_history: { enabled: true } };
+        }
+        return [];
+      });
+
+      const policy = await branchService.getPolicy('owner', 'repo', 'development');
+
+      expect(policy.requiresPullRequest).toBe(false);
+      expect(policy.protection).toMatchObject({ requireLinearHistory: true, allowForcePushes: false });
+    });
+
+    it('should protect every environment branch', async () => {
+      mockHttpClient.put = jest.fn().mockResolvedValue({});
+
+      const applied = await branchService.protectEnvironments('owner', 'repo');
+
+      expect(Object.keys(applied)).toEqual(Object.keys(ENVIRONMENT_PROTECTION_PRESETS));
+      expect(mockHttpClient.put).toHaveBeenCalledWith(
+        '/repos/owner/repo/branches/production/protection',
+        expect.objectContaining({ required_pull_request_reviews: expect.objectContaining({ required_approving_review_count: 1 }) }),
+        authHeaders
+      );
+    });
+  });
+});
@@ -0,0 +1,39 @@
+// Markdown formatting of export change sets
+import { ExportChangeSet } from '../types/github';
+
+// Keep generated bodies well below GitHub's 65536 character limit
+const MAX_LISTED_FILES = 200;
+
+/**
+ * Format the files an export changed as Markdown, for pull request bodies and release notes
+ * @param changes Change set of the export
+ * @param maxListed Maximum number of paths listed across all sections
+ * @returns Markdown with a count line followed by Added/Modified/Deleted sections
+ */
+export function formatExportChanges(changes: ExportChangeSet, maxListed: number = MAX_LISTED_FILES): string {
+  const sections: Array<[string, string[]]> = [
+    ['Added', changes.added.map(file => file.path)],
+    ['Modified', changes.modified.map(file => file.path)],
+    ['Deleted', changes.deleted]
+  ];
+  const lines = [
+    `**${changes.added.length} added, ${changes.modified.length} modified, ${changes.deleted.length} deleted**` +
+      (changes.unchanged.length > 0 ? ` (${changes.unchanged.length} unchanged)` : '')
+  ];
+
+  let remaining = maxListed;
+  for (const [title, paths] of sections) {
+    if (paths.length === 0) {
+      continue;
+    }
+    lines.push('', `### ${title}`);
+    const listed = paths.slice(0, Math.max(remaining, 0));
+    lines.push(...listed.map(path => `- \`${path}\``));
+    if (listed.length < paths.length) {
+      lines.push(`- …and ${paths.length - listed.length} more`);
+    }
+    remaining -= listed.length;
+  }
+
+  return lines.join('\n');
+}
@@ -165,4 +165,5 @@ export interface FileOperationSummary {
   };
   processingTimeMs: number;
   filesAffected: string[];
+  filesUnchanged?: number; // Files skipped by an incremental export because their blob SHA matched
 }
\ No newline at end of file
@@ -1,15 +1,28 @@
 // File Service for GitHub file operations
-import { HttpClient } from '../../utils/http';
+import { HttpClient, AuthHeadersProvider, toQueryString } from '../../utils/http';
 import {
   FileContent,
+  DirectoryEntry,
+  ArchiveFormat,
+  RepositoryArchive,
   FileCreateParams,
   FileUpdateParams,
   FileDeleteParams,
   FileOperationResult,
   FileDeleteResult,
   BatchFileOperation,
-  BatchFileOperationResult
+  BatchFileOperationResult,
+  ExportFile,
+  ExportPlanOptions,
+  ExportChangeSet,
+  IncrementalExportParams,
+  IncrementalExportResult,
+  GitTree,
+  GitTreeEntry
 } from '../types/github';
+import { GitDataService } from '../git/GitDataService';
+import { computeExportFileSha } from '../git/blobSha';
+import { renderCommitMessage } from '../git/commitMetadata';
 import { FileHooksService, FileOperationSummary } from './FileHooksService';
 import { FileVerificationService, FileVerificationReport } from './FileVerificationService';
 import { AgenticJujutsuService } from './AgenticJujutsuService';
@@ -18,14 +31,16 @@ export class FileService {
   private hooksService: FileHooksService;
   private verificationService: FileVerificationService;
   private jujutsuService: AgenticJujutsuService;
+  private git: GitDataService;
 
   constructor(
     private httpClient: HttpClient,
-    private getAuthHeaders: () => Record<string, string>
+    private getAuthHeaders: AuthHeadersProvider
   ) {
     this.hooksService = FileHooksService.getInstance();
     this.verificationService = FileVerificationService.getInstance();
     this.jujutsuService = AgenticJujutsuService.getInstance();
+    this.git = new GitDataService(httpClient, getAuthHeaders);
   }
 
   /**
@@ -40,7 +55,7 @@ export class FileService {
     try {
       await this.hooksService.preTask(`Get file content for ${path}`);
 
-      const headers = this.getAuthHeaders();
+      const headers = await this.getAuthHeaders();
       const url = ref ? `/repos/${owner}/${repo}/contents/${path}?ref=${ref}` : `/repos/${owner}/${repo}/contents/${path}`;
       const response = await this.httpClient.get(url, headers);
 
@@ -57,6 +72,84 @@ export class FileService {
     }
   }
 
+  /**
+   * List the entries of a directory
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param path Directory path; the repository root when empty
+   * @param ref Git reference (branch, tag, or commit SHA)
+   * @returns Promise resolving to the files, directories, symlinks and submodules in the directory
+   */
+  async listDirectory(owner: string, repo: string, path: string = '', ref?: string): Promise<DirectoryEntry[]> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const response = await this.httpClient.get(`/repos/${owner}/${repo}/contents/${path}${toQueryString({ ref })}`, headers);
+
+      // GitHub API returns a single object when path is a file
+      if (!Array.isArray(response)) {
+        throw new Error(`Path ${path} is not a directory`);
+      }
+
+      return response;
+    } catch (error) {
+      throw new Error(`Failed to list directory: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the tree of a branch, tag or commit.
+   * Recursive listings GitHub truncates (over 100,000 entries or 7 MB) are
+   * completed by listing the subtrees separately, so `truncated` is only set
+   * when a single directory is too large to list.
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param ref Branch, tag, commit or tree SHA
+   * @param recursive Include every nested entry with its full path
+   * @returns Promise resolving to the tree
+   */
+  async getTree(owner: string, repo: string, ref: string, recursive: boolean = false): Promise<GitTree> {
+    try {
+      const tree = await this.git.getTree(owner, repo, ref, recursive);
+      if (!recursive || !tree.truncated) {
+        return tree;
+      }
+
+      const root = await this.git.getTree(owner, repo, ref, false);
+      const state = { truncated: root.truncated };
+      const entries = await this.expandTree(owner, repo, root.tree, '', state);
+      return { ...root, tree: entries, truncated: state.truncated };
+    } catch (error) {
+      throw new Error(`Failed to get tree: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Download a snapshot of the repository at a ref
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param ref Branch, tag or commit SHA
+   * @param format 'zip' or 'tar' (gzip-compressed)
+   * @returns Promise resolving to the archive bytes and GitHub's file name for them
+   */
+  async downloadArchive(owner: string, repo: string, ref: string, format: ArchiveFormat = 'zip'): Promise<RepositoryArchive> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const endpoint = format === 'zip' ? 'zipball' : 'tarball';
+      const response = await this.httpClient.send<Buffer>('GET', `/repos/${owner}/${repo}/${endpoint}/${ref}`, {
+        headers,
+        responseType: 'binary'
+      });
+
+      const disposition = response.headers['content-disposition'] || '';
+      const filename = /filename="?([^";]+)"?/i.exec(disposition)?.[1] ||
+        `${repo}-${ref.replace(/\//g, '-')}.${format === 'zip' ? 'zip' : 'tar.gz'}`;
+
+      return { format, ref, filename, data: response.data };
+    } catch (error) {
+      throw new Error(`Failed to download archive: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Create a new file
    * @param owner Repository owner
@@ -69,8 +162,8 @@ export class FileService {
     try {
       await this.hooksService.preTask(`Create file at ${path}`);
 
-      const headers = this.getAuthHeaders();
-      const response = await this.httpClient.post(`/repos/${owner}/${repo}/contents/${path}`, params, headers);
+      const headers = await this.getAuthHeaders();
+      const response = await this.httpClient.put(`/repos/${owner}/${repo}/contents/${path}`, params, headers);
 
       await this.hooksService.postEdit(path, 'create', response);
       return response;
@@ -91,8 +184,8 @@ export class FileService {
     try {
       await this.hooksService.preTask(`Update file at ${path}`);
 
-      const headers = this.getAuthHeaders();
-      const response = await this.httpClient.post(`/repos/${owner}/${repo}/contents/${path}`, params, headers);
+      const headers = await this.getAuthHeaders();
+      const response = await this.httpClient.put(`/repos/${owner}/${repo}/contents/${path}`, params, headers);
 
       await this.hooksService.postEdit(path, 'update', response);
       return response;
@@ -113,8 +206,8 @@ export class FileService {
     try {
       await this.hooksService.preTask(`Delete file at ${path}`);
 
-      const headers = this.getAuthHeaders();
-      const response = await this.httpClient.post(`/repos/${owner}/${repo}/contents/${path}`, params, headers);
+      const headers = await this.getAuthHeaders();
+      const response = await this.httpClient.delete(`/repos/${owner}/${repo}/contents/${path}`, headers, params);
 
       await this.hooksService.postEdit(path, 'delete', response);
       return response;
@@ -282,6 +375,194 @@ export class FileService {
     }
   }
 
+  /**
+   * Compare export files with the head of a branch by git blob SHA
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param branch Target branch
+   * @param files Files of the exported project
+   * @param options Whether remote files missing from the export are deleted
+   * @returns Promise resolving to the added, modified, deleted and unchanged files
+   */
+  async planExport(
+    owner: string,
+    repo: string,
+    branch: string,
+    files: ExportFile[],
+    options: ExportPlanOptions = {}
+  ): Promise<ExportChangeSet> {
+    try {
+      const ref = await this.git.getRef(owner, repo, `heads/${branch}`);
+      const parentSha = ref.object.sha;
+      const parentCommit = await this.git.getCommit(owner, repo, parentSha);
+      const tree = await this.getTree(owner, repo, parentCommit.tree.sha, true);
+
+      const changes: ExportChangeSet = {
+        branch,
+        parentSha,
+        baseTreeSha: parentCommit.tree.sha,
+        added: [],
+        modified: [],
+        deleted: [],
+        unchanged: [],
+        truncated: tree.truncated
+      };
+
+      // A directory too large to list cannot prove a file is unchanged or missing, so upload everything
+      if (tree.truncated) {
+        changes.modified = [...files];
+        return changes;
+      }
+
+      const remoteBlobs = new Map<string, GitTreeEntry>();
+      for (const entry of tree.tree) {
+        if (entry.type === 'blob') {
+          remoteBlobs.set(entry.path, entry);
+        }
+      }
+
+      const exportedPaths = new Set<string>();
+      for (const file of files) {
+        exportedPaths.add(file.path);
+        const remote = remoteBlobs.get(file.path);
+
+        if (!remote) {
+          changes.added.push(file);
+        } else if (remote.sha !== computeExportFileSha(file) || (file.mode !== undefined && file.mode !== remote.mode)) {
+          // Keep the remote mode (e.g. executable) unless the export sets one
+          changes.modified.push({ ...file, mode: file.mode || remote.mode });
+        } else {
+          changes.unchanged.push(file.path);
+        }
+      }
+
+      if (options.deleteMissing !== false) {
+        for (const path of remoteBlobs.keys()) {
+          if (!exportedPaths.has(path)) {
+            changes.deleted.push(path);
+          }
+        }
+      }
+
+      return changes;
+    } catch (error) {
+      throw new Error(`Failed to plan export: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Export files to a branch, committing only what changed since its head.
+   * Unchanged files are neither uploaded as blobs nor included in the commit,
+   * and no commit is created when nothing changed at all.
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param params Branch, message or message template, files, commit metadata and deletion behaviour
+   * @returns Promise resolving to the change set and the created commit
+   */
+  async exportIncremental(owner: string, repo: string, params: IncrementalExportParams): Promise<IncrementalExportResult> {
+    const startTime = Date.now();
+
+    try {
+      await this.hooksService.preTask(`Incremental export of ${params.files.length} files to ${params.branch}`);
+
+      const { deleteMissing, messageTemplate, project, environment, ...commitParams } = params;
+      const changes = await this.planExport(owner, repo, params.branch, params.files, { deleteMissing });
+      const files = [...changes.added, ...changes.modified];
+
+      // Explicit deletions go into the change set, so the message, hooks and result report what the commit does
+      changes.deleted = Array.from(new Set([...(params.deletions || []), ...changes.deleted]));
+      const deletions = changes.deleted;
+
+      const message = messageTemplate
+        ? renderCommitMessage(messageTemplate, {
+          project,
+          environment,
+          branch: params.branch,
+          added: changes.added.length,
+          modified: changes.modified.length,
+          deleted: deletions.length
+        })
+        : params.message;
+
+      const commit = files.length > 0 || deletions.length > 0
+        ? await this.git.commitFiles(owner, repo, { ...commitParams, message, files, deletions, parentSha: changes.parentSha })
+        : null;
+
+      await this.hooksService.postTask(this.summarizeExport(changes, Date.now() - startTime));
+      return { changes, commit };
+    } catch (error) {
+      throw Object.assign(new Error(`Failed to export files: ${error instanceof Error ? error.message : 'Unknown error'}`), { cause: error });
+    }
+  }
+
+  /**
+   * Summarize an export change set for hooks and the popup
+   * @param changes Change set produced by planExport
+   * @param processingTimeMs Time spent on the export
+   * @returns Operation summary; unchanged files are reported but not counted as operations
+   */
+  summarizeExport(changes: ExportChangeSet, processingTimeMs: number = 0): FileOperationSummary {
+    const affected = [
+      ...changes.added.map(file => file.path),
+      ...changes.modified.map(file => file.path),
+      ...changes.deleted
+    ];
+
+    return {
+      totalOperations: affected.length,
+      successfulOperations: affected.length,
+      failedOperations: 0,
+      operationTypes: {
+        create: changes.added.length,
+        update: changes.modified.length,
+        delete: changes.deleted.length
+      },
+      processingTimeMs,
+      filesAffected: affected,
+      filesUnchanged: changes.unchanged.length
+    };
+  }
+
+  /**
+   * Prefix subtree entries with their directory, listing each subtree
+   * recursively and only descending level by level where that is truncated too
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param entries Entries of one tree level
+   * @param prefix Path of that level
+   * @param state Set to truncated when a single level cannot be listed completely
+   * @returns Entries with full paths
+   */
+  private async expandTree(
+    owner: string,
+    repo: string,
+    entries: GitTreeEntry[],
+    prefix: string,
+    state: { truncated: boolean }
+  ): Promise<GitTreeEntry[]> {
+    const expanded: GitTreeEntry[] = [];
+
+    for (const entry of entries) {
+      const path = prefix ? `${prefix}/${entry.path}` : entry.path;
+      expanded.push({ ...entry, path });
+      if (entry.type !== 'tree' || !entry.sha) {
+        continue;
+      }
+
+      const subtree = await this.git.getTree(owner, repo, entry.sha, true);
+      if (!subtree.truncated) {
+        expanded.push(...subtree.tree.map(child => ({ ...child, path: `${path}/${child.path}` })));
+        continue;
+      }
+
+      const level = await this.git.getTree(owner, repo, entry.sha, false);
+      state.truncated = state.truncated || level.truncated;
+      expanded.push(...await this.expandTree(owner, repo, level.tree, path, state));
+    }
+
+    return expanded;
+  }
+
   /**
    * Get counts of each operation type
    * @param operations File operations
@@ -2,6 +2,7 @@
 import { FileService } from '../FileService';
 import { HttpClient } from '../../../utils/http';
 import { FileContent, FileCreateParams, FileUpdateParams, FileDeleteParams, BatchFileOperation } from '../../types/github';
+import { computeBlobSha } from '../../git/blobSha';
 
 describe('FileService (London School TDD)', () => {
   let fileService: FileService;
@@ -12,6 +13,7 @@ describe('FileService (London School TDD)', () => {
     mockHttpClient = {
       get: jest.fn(),
       post: jest.fn(),
+      put: jest.fn(),
       delete: jest.fn()
     } as any;
 
@@ -56,6 +58,104 @@ describe('FileService (London School TDD)', () => {
     });
   });
 
+  describe('browsing', () => {
+    const authHeaders = { 'Authorization': 'token test-token' };
+
+    it('should list a directory at a ref', async () => {
+      const entries = [
+        { type: 'dir', name: 'src', path: 'src', sha: 'd1', size: 0 },
+        { type: 'file', name: 'package.json', path: 'package.json', sha: 'f1', size: 120, download_url: 'https://raw' }
+      ];
+      mockHttpClient.get.mockResolvedValue(entries);
+
+      const result = await fileService.listDirectory('owner', 'repo', '', 'main');
+
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/repos/owner/repo/contents/?ref=main', authHeaders);
+      expect(result).toEqual(entries);
+    });
+
+    it('should reject listing a file', async () => {
+      mockHttpClient.get.mockResolvedValue({ type: 'file', path: 'README.md' });
+
+      await expect(fileService.listDirectory('owner', 'repo', 'README.md')).rejects.toThrow(
+        'Failed to list directory: Path README.md is not a directory'
+      );
+    });
+
+    it('should return a recursive tree as-is when GitHub lists it completely', async () => {
+      const tree = { sha: 't1', url: 'url', truncated: false, tree: [{ path: 'a.txt', mode: '100644', type: 'blob', sha: 'b1' }] };
+      mockHttpClient.get.mockResolvedValue(tree);
+
+      await expect(fileService.getTree('owner', 'repo', 'main', true)).resolves.toEqual(tree);
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/repos/owner/repo/git/trees/main?recursive=1', authHeaders);
+    });
+
+    it('should complete a truncated recursive tree subtree by subtree', async () => {
+      const trees: Record<string, any> = {
+        'main?recursive=1': { sha: 'root', truncated: true, tree: [] },
+        'main': {
+          sha: 'root',
+          url: 'url',
+          truncated: false,
+          tree: [
+            { path: 'README.md', mode: '100644', type: 'blob', sha: 'b1' },
+            { path: 'src', mode: '040000', type: 'tree', sha: 'src1' },
+            { path: 'assets', mode: '040000', type: 'tree', sha: 'assets1' }
+          ]
+        },
+        'src1?recursive=1': {
+          sha: 'src1',
+          truncated: false,
+          tree: [
+            { path: 'lib', mode: '040000', type: 'tree', sha: 'lib1' },
+            { path: 'lib/index.ts', mode: '100644', type: 'blob', sha: 'b2' }
+          ]
+        },
+        'assets1?recursive=1': { sha: 'assets1', truncated: true, tree: [] },
+        'assets1': { sha: 'assets1', truncated: false, tree: [{ path: 'logo.png', mode: '100644', type: 'blob', sha: 'b3' }] }
+      };
+      mockHttpClient.get.mockImplementation(async (path: string) => trees[path.replace('/repos/owner/repo/git/trees/', '')]);
+
+      const result = await fileService.getTree('owner', 'repo', 'main', true);
+
+      expect(result.truncated).toBe(false);
+      expect(result.tree.map(entry => entry.path)).toEqual([
+        'README.md',
+        'src',
+        'src/lib',
+        'src/lib/index.ts',
+        'assets',
+        'assets/logo.png'
+      ]);
+    });
+
+    it('should download a tarball as bytes with GitHub\'s file name', async () => {
+      const data = Buffer.from([0x1f, 0x8b]);
+      mockHttpClient.send = jest.fn().mockResolvedValue({
+        status: 200,
+        data,
+        headers: { 'content-disposition': 'attachment; filename=owner-repo-abc1234.tar.gz' }
+      });
+
+      const archive = await fileService.downloadArchive('owner', 'repo', 'v1.0.0', 'tar');
+
+      expect(mockHttpClient.send).toHaveBeenCalledWith('GET', '/repos/owner/repo/tarball/v1.0.0', {
+        headers: authHeaders,
+        responseType: 'binary'
+      });
+      expect(archive).toEqual({ format: 'tar', ref: 'v1.0.0', filename: 'owner-repo-abc1234.tar.gz', data });
+    });
+
+    it('should name a zipball after the repository and ref without Content-Disposition', async () => {
+      mockHttpClient.send = jest.fn().mockResolvedValue({ status: 200, data: Buffer.from('PK'), headers: {} });
+
+      const archive = await fileService.downloadArchive('owner', 'repo', 'feature/login');
+
+      expect(mockHttpClient.send).toHaveBeenCalledWith('GET', '/repos/owner/repo/zipball/feature/login', expect.anything());
+      expect(archive.filename).toBe('repo-feature-login.zip');
+    });
+  });
+
   describe('create', () => {
     it('should call httpClient.put with correct parameters for file creation', async () => {
       // Arrange
@@ -105,13 +205,13 @@ describe('FileService (London School TDD)', () => {
           }]
         }
       };
-      mockHttpClient.post.mockResolvedValue(mockResult);
+      mockHttpClient.put.mockResolvedValue(mockResult);
 
       // Act
       const result = await fileService.create('owner', 'repo', 'path/to/test.txt', createParams);
 
       // Assert
-      expect(mockHttpClient.post).toHaveBeenCalledWith(
+      expect(mockHttpClient.put).toHaveBeenCalledWith(
         '/repos/owner/repo/contents/path/to/test.txt',
         createParams,
         { 'Authorization': 'token test-token' }
@@ -126,7 +226,7 @@ describe('FileService (London School TDD)', () => {
         content: 'dGVzdCBjb250ZW50',
         branch: 'main'
       };
-      mockHttpClient.post.mockRejectedValue(new Error('Invalid file path'));
+      mockHttpClient.put.mockRejectedValue(new Error('Invalid file path'));
 
       // Act & Assert
       await expect(fileService.create('owner', 'repo', 'path/to/test.txt', createParams)).rejects.toThrow('Failed to create file: Invalid file path');
@@ -183,13 +283,13 @@ describe('FileService (London School TDD)', () => {
           }]
         }
       };
-      mockHttpClient.post.mockResolvedValue(mockResult);
+      mockHttpClient.put.mockResolvedValue(mockResult);
 
       // Act
       const result = await fileService.update('owner', 'repo', 'path/to/test.txt', updateParams);
 
       // Assert
-      expect(mockHttpClient.post).toHaveBeenCalledWith(
+      expect(mockHttpClient.put).toHaveBeenCalledWith(
         '/repos/owner/repo/contents/path/to/test.txt',
         updateParams,
         { 'Authorization': 'token test-token' }
@@ -205,7 +305,7 @@ describe('FileService (London School TDD)', () => {
         sha: 'abc123',
         branch: 'main'
       };
-      mockHttpClient.post.mockRejectedValue(new Error('SHA mismatch'));
+      mockHttpClient.put.mockRejectedValue(new Error('SHA mismatch'));
 
       // Act & Assert
       await expect(fileService.update('owner', 'repo', 'path/to/test.txt', updateParams)).rejects.toThrow('Failed to update file: SHA mismatch');
@@ -248,16 +348,16 @@ describe('FileService (London School TDD)', () => {
           }]
         }
       };
-      mockHttpClient.post.mockResolvedValue(mockResult);
+      mockHttpClient.delete.mockResolvedValue(mockResult);
 
       // Act
       const result = await fileService.delete('owner', 'repo', 'path/to/test.txt', deleteParams);
 
       // Assert
-      expect(mockHttpClient.post).toHaveBeenCalledWith(
+      expect(mockHttpClient.delete).toHaveBeenCalledWith(
         '/repos/owner/repo/contents/path/to/test.txt',
-        deleteParams,
-        { 'Authorization': 'token test-token' }
+        { 'Authorization': 'token test-token' },
+        deleteParams
       );
       expect(result).toEqual(mockResult);
     });
@@ -269,7 +369,7 @@ describe('FileService (London School TDD)', () => {
         sha: 'abc123',
         branch: 'main'
       };
-      mockHttpClient.post.mockRejectedValue(new Error('File not found'));
+      mockHttpClient.delete.mockRejectedValue(new Error('File not found'));
 
       // Act & Assert
       await expect(fileService.delete('owner', 'repo', 'path/to/test.txt', deleteParams)).rejects.toThrow('Failed to delete file: File not found');
@@ -449,4 +549,192 @@ describe('FileService (London School TDD)', () => {
       expect(result[1].error).toBe('Insufficient permissions');
     });
   });
-});
\ No newline at end of file
+
+  describe('incremental export', () => {
+    const remoteTree = {
+      sha: 'tree1',
+      truncated: false,
+      tree: [
+        { path: 'src', mode: '040000', type: 'tree', sha: 'dir' },
+        { path: 'src/same.ts', mode: '100644', type: 'blob', sha: computeBlobSha('same') },
+        { path: 'src/changed.ts', mode: '100644', type: 'blob', sha: computeBlobSha('old') },
+        { path: 'bin/run.sh', mode: '100755', type: 'blob', sha: computeBlobSha('echo old') },
+        { path: 'src/removed.ts', mode: '100644', type: 'blob', sha: computeBlobSha('gone') }
+      ]
+    };
+    const files = [
+      { path: 'src/same.ts', content: 'same' },
+      { path: 'src/changed.ts', content: 'new' },
+      { path: 'bin/run.sh', content: 'echo new' },
+      { path: 'src/added.ts', content: 'added' }
+    ];
+
+    beforeEach(() => {
+      mockHttpClient.patch = jest.fn().mockResolvedValue({});
+      mockHttpClient.get.mockImplementation(async (path: string) => {
+        if (path === '/repos/owner/repo/git/ref/heads/main') {
+          return { object: { sha: 'parent1' } };
+        }
+        if (path === '/repos/owner/repo/git/commits/parent1') {
+          return { sha: 'parent1', tree: { sha: 'tree1' } };
+        }
+        if (path === '/repos/owner/repo/git/trees/tree1?recursive=1') {
+          return remoteTree;
+        }
+        throw new Error(`Unexpected GET ${path}`);
+      });
+    });
+
+    it('should classify files by comparing blob SHAs with the branch tree', async () => {
+      const changes = await fileService.planExport('owner', 'repo', 'main', files);
+
+      expect(changes.added.map(f => f.path)).toEqual(['src/added.ts']);
+      expect(changes.modified).toEqual([
+        { path: 'src/changed.ts', content: 'new', mode: '100644' },
+        { path: 'bin/run.sh', content: 'echo new', mode: '100755' }
+      ]);
+      expect(changes.deleted).toEqual(['src/removed.ts']);
+      expect(changes.unchanged).toEqual(['src/same.ts']);
+    });
+
+    it('should keep remote files when deleteMissing is false', async () => {
+      const changes = await fileService.planExport('owner', 'repo', 'main', files, { deleteMissing: false });
+
+      expect(changes.deleted).toEqual([]);
+    });
+
+    it('should compare against the complete tree when GitHub truncates the listing', async () => {
+      const trees: Record<string, any> = {
+        'tree1?recursive=1': { sha: 'tree1', truncated: true, tree: [] },
+        'tree1': {
+          sha: 'tree1',
+          truncated: false,
+          tree: [
+            { path: 'src', mode: '040000', type: 'tree', sha: 'src1' },
+            { path: 'bin', mode: '040000', type: 'tree', sha: 'bin1' }
+          ]
+        },
+        'src1?recursive=1': {
+          sha: 'src1',
+          truncated: false,
+          tree: remoteTree.tree.filter(entry => entry.path.startsWith('src/')).map(entry => ({ ...entry, path: entry.path.slice(4) }))
+        },
+        'bin1?recursive=1': { sha: 'bin1', truncated: false, tree: [{ ...remoteTree.tree[3], path: 'run.sh' }] }
+      };
+      const getRemote = mockHttpClient.get.getMockImplementation()!;
+      mockHttpClient.get.mockImplementation(async (path: string, headers: any) =>
+        trees[path.replace('/repos/owner/repo/git/trees/', '')] ?? getRemote(path, headers));
+
+      const changes = await fileService.planExport('owner', 'repo', 'main', files);
+
+      expect(changes.truncated).toBe(false);
+      expect(changes.added.map(f => f.path)).toEqual(['src/added.ts']);
+      expect(changes.modified.map(f => f.path)).toEqual(['src/changed.ts', 'bin/run.sh']);
+      expect(changes.deleted).toEqual(['src/removed.ts']);
+      expect(changes.unchanged).toEqual(['src/same.ts']);
+    });
+
+    it('should upload everything and delete nothing when a directory is too large to list', async () => {
+      const getRemote = mockHttpClient.get.getMockImplementation()!;
+      mockHttpClient.get.mockImplementation(async (path: string, headers: any) =>
+        path.startsWith('/repos/owner/repo/git/trees/tree1') ? { ...remoteTree, tree: [], truncated: true } : getRemote(path, headers));
+
+      const changes = await fileService.planExport('owner', 'repo', 'main', files);
+
+      expect(changes.truncated).toBe(true);
+      expect(changes.modified).toHaveLength(4);
+      expect(changes.deleted).toEqual([]);
+    });
+
+    it('should refuse to commit when the branch moved after the export was planned', async () => {
+      let head = 'parent1';
+      const getRemote = mockHttpClient.get.getMockImplementation()!;
+      mockHttpClient.get.mockImplementation(async (path: string, headers: any) => {
+        if (path === '/repos/owner/repo/git/ref/heads/main') {
+          const ref = { object: { sha: head } };
+          head = 'pushed1'; // A push lands between planning and committing
+          return ref;
+        }
+        return getRemote(path, headers);
+      });
+
+      await expect(fileService.exportIncremental('owner', 'repo', { branch: 'main', message: 'Sync', files }))
+        .rejects.toThrow('Branch main moved from parent1 to pushed1');
+      expect(mockHttpClient.post).not.toHaveBeenCalled();
+      expect(mockHttpClient.patch).not.toHaveBeenCalled();
+    });
+
+    it('should upload only changed blobs and summarize the export', async () => {
+      mockHttpClient.post.mockImplementation(async (path: string, body: any) => {
+        if (path.endsWith('/git/blobs')) {
+          return { sha: `blob-${body.content}` };
+        }
+        return { sha: path.endsWith('/git/trees') ? 'tree2' : 'commit2' };
+      });
+
+      const result = await fileService.exportIncremental('owner', 'repo', { branch: 'main', message: 'Sync', files });
+
+      const blobUploads = mockHttpClient.post.mock.calls.filter(([path]) => path.endsWith('/git/blobs'));
+      expect(blobUploads.map(([, body]) => body.content)).toEqual(['added', 'new', 'echo new']);
+      expect(mockHttpClient.post).toHaveBeenCalledWith('/repos/owner/repo/git/trees', expect.objectContaining({
+        base_tree: 'tree1',
+        tree: expect.arrayContaining([{ path: 'src/removed.ts', mode: '100644', type: 'blob', sha: null }])
+      }), { 'Authorization': 'token test-token' });
+      expect(result.commit).toMatchObject({ commitSha: 'commit2', filesCommitted: 3, filesDeleted: 1 });
+      expect(fileService.summarizeExport(result.changes)).toMatchObject({
+        totalOperations: 4,
+        operationTypes: { create: 1, update: 2, delete: 1 },
+        filesUnchanged: 1
+      });
+    });
+
+    it('should count explicit deletions in the change set and summary', async () => {
+      mockHttpClient.post.mockResolvedValue({ sha: 'sha' });
+
+      const result = await fileService.exportIncremental('owner', 'repo', {
+        branch: 'main',
+        message: 'Sync',
+        files,
+        deletions: ['docs/old.md', 'src/removed.ts']
+      });
+
+      expect(result.changes.deleted).toEqual(['docs/old.md', 'src/removed.ts']);
+      expect(result.commit).toMatchObject({ filesDeleted: 2 });
+      expect(fileService.summarizeExport(result.changes)).toMatchObject({
+        totalOperations: 5,
+        operationTypes: { create: 1, update: 2, delete: 2 },
+        filesAffected: expect.arrayContaining(['docs/old.md', 'src/removed.ts'])
+      });
+    });
+
+    it('should render the commit message template from the export plan', async () => {
+      mockHttpClient.post.mockResolvedValue({ sha: 'sha' });
+
+      await fileService.exportIncremental('owner', 'repo', {
+        branch: 'main',
+        message: 'Sync',
+        messageTemplate: 'Export {project} to {environment}: {files} files (+{added} ~{modified} -{deleted})',
+        project: 'todo-app',
+        environment: 'production',
+        coAuthors: [{ name: 'Bolt Bot', email: 'bot@example.com' }],
+        files
+      });
+
+      expect(mockHttpClient.post).toHaveBeenCalledWith('/repos/owner/repo/git/commits', expect.objectContaining({
+        message: 'Export todo-app to production: 4 files (+1 ~2 -1)\n\nCo-authored-by: Bolt Bot <bot@example.com>\n'
+      }), { 'Authorization': 'token test-token' });
+    });
+
+    it('should not create a commit when nothing changed', async () => {
+      const result = await fileService.exportIncremental('owner', 'repo', {
+        branch: 'main',
+        message: 'Sync',
+        files: [{ path: 'src/same.ts', content: 'same' }],
+        deleteMissing: false
+      });
+
+      expect(result.commit).toBeNull();
+      expect(mockHttpClient.post).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,162 @@
+// Gist Service for publishing small projects as gists
+import { HttpClient, AuthHeadersProvider, toQueryString } from '../../utils/http';
+import {
+  Gist,
+  GistCreateParams,
+  GistUpdateParams,
+  GistExportParams,
+  GistExportResult,
+  ExportFile
+} from '../types/github';
+
+// Gist file names cannot contain slashes, so nested paths are flattened
+const PATH_SEPARATOR = '__';
+
+export class GistService {
+  /**
+   * @param httpClient HTTP client for the REST API
+   * @param getAuthHeaders Authorization headers provider
+   */
+  constructor(private httpClient: HttpClient, private getAuthHeaders: AuthHeadersProvider) {}
+
+  /**
+   * Create a gist
+   * @param params Files, description and visibility
+   * @returns Promise resolving to the created gist
+   */
+  async create(params: GistCreateParams): Promise<Gist> {
+    try {
+      const headers = await this.getAuthHeaders();
+      return await this.httpClient.post('/gists', { ...params, public: params.public ?? false }, headers);
+    } catch (error) {
+      throw new Error(`Failed to create gist: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get a gist including the content of its files
+   * @param gistId Gist id
+   * @returns Promise resolving to the gist
+   */
+  async get(gistId: string): Promise<Gist> {
+    try {
+      const headers = await this.getAuthHeaders();
+      return await this.httpClient.get(`/gists/${gistId}`, headers);
+    } catch (error) {
+      throw new Error(`Failed to get gist: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * List the first page of the authenticated user's gists
+   * @param perPage Page size
+   * @returns Promise resolving to array of gists
+   */
+  async list(perPage?: number): Promise<Gist[]> {
+    try {
+      const headers = await this.getAuthHeaders();
+      return await this.httpClient.get(`/gists${toQueryString({ per_page: perPage })}`, headers);
+    } catch (error) {
+      throw new Error(`Failed to list gists: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Update a gist's description and files
+   * @param gistId Gist id
+   * @param params Description and files to add, change, rename or (with null) delete
+   * @returns Promise resolving to the updated gist
+   */
+  async update(gistId: string, params: GistUpdateParams): Promise<Gist> {
+    try {
+      const headers = await this.getAuthHeaders();
+      return await this.httpClient.patch(`/gists/${gistId}`, params, headers);
+    } catch (error) {
+      throw new Error(`Failed to update gist: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Delete a gist
+   * @param gistId Gist id
+   * @returns Promise resolving when deletion is complete
+   */
+  async delete(gistId: string): Promise<void> {
+    try {
+      const headers = await this.getAuthHeaders();
+      await this.httpClient.delete(`/gists/${gistId}`, headers);
+    } catch (error) {
+      throw new Error(`Failed to delete gist: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Publish export files as a gist. With a gistId from a previous sync the
+   * gist is updated in place: changed files are replaced, files no longer
+   * exported are deleted and nothing is written if it already matches.
+   * @param params Files, description, visibility and the gist to update
+   * @returns Promise resolving to the gist, its URL and what changed
+   */
+  async exportFiles(params: GistExportParams): Promise<GistExportResult> {
+    try {
+      const { files, skipped } = this.toGistFiles(params.files);
+      if (Object.keys(files).length === 0) {
+        throw new Error('No text files to publish');
+      }
+
+      if (!params.gistId) {
+        const gist = await this.create({ files, description: params.description, public: params.public });
+        return { gist, url: gist.html_url, created: true, changed: true, skipped };
+      }
+
+      const existing = await this.get(params.gistId);
+      const changes: NonNullable<GistUpdateParams['files']> = {};
+      for (const [filename, file] of Object.entries(files)) {
+        const current = existing.files[filename];
+        if (!current || current.truncated || current.content !== file.content) {
+          changes[filename] = file;
+        }
+      }
+      for (const filename of Object.keys(existing.files)) {
+        if (!files[filename]) {
+          changes[filename] = null;
+        }
+      }
+
+      const descriptionChanged = params.description !== undefined && params.description !== existing.description;
+      if (Object.keys(changes).length === 0 && !descriptionChanged) {
+        return { gist: existing, url: existing.html_url, created: false, changed: false, skipped };
+      }
+
+      const gist = await this.update(params.gistId, { description: params.description, files: changes });
+      return { gist, url: gist.html_url, created: false, changed: true, skipped };
+    } catch (error) {
+      throw new Error(`Failed to export to gist: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Convert export files to gist files
+   * @param exportFiles Files of the export
+   * @returns Gist files keyed by flattened name, and the paths of skipped binary or empty files
+   */
+  private toGistFiles(exportFiles: ExportFile[]): { files: Record<string, { content: string }>; skipped: string[] } {
+    const files: Record<string, { content: string }> = {};
+    const skipped: string[] = [];
+
+    for (const file of exportFiles) {
+      // Gists hold text only, and empty content would delete the file
+      if (file.encoding === 'base64' || file.content === '') {
+        skipped.push(file.path);
+        continue;
+      }
+      const filename = file.path.split('/').join(PATH_SEPARATOR);
+      if (files[filename]) {
+        throw new Error(`Files ${file.path} and another path both map to gist file ${filename}`);
+      }
+      files[filename] = { content: file.content };
+    }
+
+    return { files, skipped };
+  }
+}
@@ -0,0 +1,121 @@
+// London School TDD Unit Tests for GistService
+import { GistService } from '../GistService';
+import { HttpClient } from '../../../utils/http';
+
+describe('GistService (London School TDD)', () => {
+  let gistService: GistService;
+  let mockHttpClient: jest.Mocked<HttpClient>;
+  let mockGetAuthHeaders: jest.Mock;
+  const authHeaders = { 'Authorization': 'token test-token' };
+  const gist = (files: Record<string, string>, description = 'Bolt.DIY experiment') => ({
+    id: 'g1',
+    html_url: 'https://gist.github.com/octocat/g1',
+    description,
+    files: Object.fromEntries(Object.entries(files).map(([filename, content]) => [filename, { filename, content, size: content.length }]))
+  });
+
+  beforeEach(() => {
+    mockHttpClient = {
+      get: jest.fn(),
+      post: jest.fn(),
+      patch: jest.fn(),
+      delete: jest.fn()
+    } as any;
+
+    mockGetAuthHeaders = jest.fn().mockReturnValue(authHeaders);
+
+    gistService = new GistService(mockHttpClient, mockGetAuthHeaders);
+  });
+
+  it('should create secret gists unless public is requested', async () => {
+    mockHttpClient.post.mockResolvedValue(gist({ 'a.txt': 'a' }));
+
+    await gistService.create({ files: { 'a.txt': { content: 'a' } } });
+    await gistService.create({ files: { 'a.txt': { content: 'a' } }, public: true });
+
+    expect(mockHttpClient.post).toHaveBeenNthCalledWith(1, '/gists', { files: { 'a.txt': { content: 'a' } }, public: false }, authHeaders);
+    expect(mockHttpClient.post).toHaveBeenNthCalledWith(2, '/gists', { files: { 'a.txt': { content: 'a' } }, public: true }, authHeaders);
+  });
+
+  it('should get, update and delete gists', async () => {
+    mockHttpClient.get.mockResolvedValue(gist({ 'a.txt': 'a' }));
+    mockHttpClient.patch.mockResolvedValue(gist({ 'b.txt': 'b' }));
+    mockHttpClient.delete.mockResolvedValue(undefined);
+
+    await gistService.get('g1');
+    await gistService.update('g1', { files: { 'a.txt': null, 'b.txt': { content: 'b' } } });
+    await gistService.delete('g1');
+
+    expect(mockHttpClient.get).toHaveBeenCalledWith('/gists/g1', authHeaders);
+    expect(mockHttpClient.patch).toHaveBeenCalledWith('/gists/g1', { files: { 'a.txt': null, 'b.txt': { content: 'b' } } }, authHeaders);
+    expect(mockHttpClient.delete).toHaveBeenCalledWith('/gists/g1', authHeaders);
+  });
+
+  describe('exportFiles', () => {
+    it('should publish text files as a new gist, flattening nested paths and skipping binaries', async () => {
+      mockHttpClient.post.mockResolvedValue(gist({ 'index.html': '<h1>Hi</h1>' }));
+
+      const result = await gistService.exportFiles({
+        description: 'Bolt.DIY experiment',
+        files: [
+          { path: 'index.html', content: '<h1>Hi</h1>' },
+          { path: 'src/app.js', content: 'run();', encoding: 'utf-8' },
+          { path: 'logo.png', content: 'iVBORw0KGgo=', encoding: 'base64' },
+          { path: '.nojekyll', content: '' }
+        ]
+      });
+
+      expect(mockHttpClient.post).toHaveBeenCalledWith('/gists', {
+        files: { 'index.html': { content: '<h1>Hi</h1>' }, 'src__app.js': { content: 'run();' } },
+        description: 'Bolt.DIY experiment',
+        public: false
+      }, authHeaders);
+      expect(result).toEqual(expect.objectContaining({
+        url: 'https://gist.github.com/octocat/g1',
+        created: true,
+        changed: true,
+        skipped: ['logo.png', '.nojekyll']
+      }));
+    });
+
+    it('should update the gist of a previous sync with only the changed and removed files', async () => {
+      mockHttpClient.get.mockResolvedValue(gist({ 'index.html': '<h1>Hi</h1>', 'old.css': 'body{}', 'app.js': 'v1' }));
+      mockHttpClient.patch.mockResolvedValue(gist({ 'index.html': '<h1>Hi</h1>', 'app.js': 'v2' }));
+
+      const result = await gistService.exportFiles({
+        gistId: 'g1',
+        files: [
+          { path: 'index.html', content: '<h1>Hi</h1>' },
+          { path: 'app.js', content: 'v2' }
+        ]
+      });
+
+      expect(mockHttpClient.post).not.toHaveBeenCalled();
+      expect(mockHttpClient.patch).toHaveBeenCalledWith('/gists/g1', {
+        description: undefined,
+        files: { 'app.js': { content: 'v2' }, 'old.css': null }
+      }, authHeaders);
+      expect(result.created).toBe(false);
+      expect(result.changed).toBe(true);
+    });
+
+    it('should leave an up-to-date gist untouched', async () => {
+      mockHttpClient.get.mockResolvedValue(gist({ 'index.html': '<h1>Hi</h1>' }));
+
+      const result = await gistService.exportFiles({
+        gistId: 'g1',
+        description: 'Bolt.DIY experiment',
+        files: [{ path: 'index.html', content: '<h1>Hi</h1>' }]
+      });
+
+      expect(mockHttpClient.patch).not.toHaveBeenCalled();
+      expect(result).toEqual(expect.objectContaining({ created: false, changed: false, url: 'https://gist.github.com/octocat/g1' }));
+    });
+
+    it('should refuse exports without any text file', async () => {
+      await expect(gistService.exportFiles({
+        files: [{ path: 'logo.png', content: 'iVBORw0KGgo=', encoding: 'base64' }]
+      })).rejects.toThrow('Failed to export to gist: No text files to publish');
+    });
+  });
+});
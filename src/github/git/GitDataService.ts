@@ -0,0 +1,277 @@
+// Git Data Service for low-level blob/tree/commit/ref operations
+import { HttpClient, AuthHeadersProvider } from '../../utils/http';
+import {
+  GitBlob,
+  GitTree,
+  GitCommit,
+  GitReference,
+  GitTag,
+  GitIdentity,
+  GitTreeEntry,
+  GitCreateTreeParams,
+  GitCreateCommitParams,
+  CommitFilesParams,
+  CommitFilesResult,
+  CommitSigner
+} from '../types/github';
+import { appendCoAuthorTrailers } from './commitMetadata';
+import { buildCommitPayload } from './commitSigning';
+
+export class GitDataService {
+  constructor(private httpClient: HttpClient, private getAuthHeaders: AuthHeadersProvider) {}
+
+  /**
+   * Create a blob
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param content Blob content
+   * @param encoding Content encoding ('utf-8' or 'base64')
+   * @returns Promise resolving to the created blob
+   */
+  async createBlob(owner: string, repo: string, content: string, encoding: 'utf-8' | 'base64' = 'utf-8'): Promise<GitBlob> {
+    try {
+      const headers = await this.getAuthHeaders();
+      return await this.httpClient.post(`/repos/${owner}/${repo}/git/blobs`, { content, encoding }, headers);
+    } catch (error) {
+      throw new Error(`Failed to create blob: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Create a tree
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param params Tree entries and optional base tree SHA
+   * @returns Promise resolving to the created tree
+   */
+  async createTree(owner: string, repo: string, params: GitCreateTreeParams): Promise<GitTree> {
+    try {
+      const headers = await this.getAuthHeaders();
+      return await this.httpClient.post(`/repos/${owner}/${repo}/git/trees`, params, headers);
+    } catch (error) {
+      throw new Error(`Failed to create tree: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get a commit
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param sha Commit SHA
+   * @returns Promise resolving to the commit
+   */
+  async getCommit(owner: string, repo: string, sha: string): Promise<GitCommit> {
+    try {
+      const headers = await this.getAuthHeaders();
+      return await this.httpClient.get(`/repos/${owner}/${repo}/git/commits/${sha}`, headers);
+    } catch (error) {
+      throw new Error(`Failed to get commit: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get a tree
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param sha Tree SHA (or a commit SHA/branch name, which resolves to its root tree)
+   * @param recursive Include every nested entry instead of only the top level
+   * @returns Promise resolving to the tree; check `truncated` for very large trees
+   */
+  async getTree(owner: string, repo: string, sha: string, recursive: boolean = false): Promise<GitTree> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const query = recursive ? '?recursive=1' : '';
+      return await this.httpClient.get(`/repos/${owner}/${repo}/git/trees/${sha}${query}`, headers);
+    } catch (error) {
+      throw new Error(`Failed to get tree: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Create a commit
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param params Commit message, tree SHA, parents and identities
+   * @returns Promise resolving to the created commit
+   */
+  async createCommit(owner: string, repo: string, params: GitCreateCommitParams): Promise<GitCommit> {
+    try {
+      const headers = await this.getAuthHeaders();
+      return await this.httpClient.post(`/repos/${owner}/${repo}/git/commits`, params, headers);
+    } catch (error) {
+      throw new Error(`Failed to create commit: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get a reference
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param ref Reference without the leading 'refs/' (e.g. 'heads/main')
+   * @returns Promise resolving to the reference
+   */
+  async getRef(owner: string, repo: string, ref: string): Promise<GitReference> {
+    try {
+      const headers = await this.getAuthHeaders();
+      return await this.httpClient.get(`/repos/${owner}/${repo}/git/ref/${ref}`, headers);
+    } catch (error) {
+      throw new Error(`Failed to get reference: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Create a reference
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param ref Fully qualified reference (e.g. 'refs/tags/v1.0.0')
+   * @param sha Object SHA the reference points to
+   * @returns Promise resolving to the created reference
+   */
+  async createRef(owner: string, repo: string, ref: string, sha: string): Promise<GitReference> {
+    try {
+      const headers = await this.getAuthHeaders();
+      return await this.httpClient.post(`/repos/${owner}/${repo}/git/refs`, { ref, sha }, headers);
+    } catch (error) {
+      throw new Error(`Failed to create reference: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Create an annotated tag object. The tag only becomes visible once a
+   * refs/tags/ reference points at the returned object.
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param tag Tag name
+   * @param message Tag message
+   * @param sha Commit SHA being tagged
+   * @param tagger Optional tagger identity
+   * @returns Promise resolving to the tag object
+   */
+  async createTag(owner: string, repo: string, tag: string, message: string, sha: string, tagger?: GitIdentity): Promise<GitTag> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const params: Record<string, any> = { tag, message, object: sha, type: 'commit' };
+      if (tagger) {
+        params.tagger = tagger;
+      }
+      return await this.httpClient.post(`/repos/${owner}/${repo}/git/tags`, params, headers);
+    } catch (error) {
+      throw new Error(`Failed to create tag: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Move a reference to a new commit
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param ref Reference without the leading 'refs/' (e.g. 'heads/main')
+   * @param sha Commit SHA the reference should point to
+   * @param force Allow non fast-forward updates
+   * @returns Promise resolving to the updated reference
+   */
+  async updateRef(owner: string, repo: string, ref: string, sha: string, force: boolean = false): Promise<GitReference> {
+    try {
+      const headers = await this.getAuthHeaders();
+      return await this.httpClient.patch(`/repos/${owner}/${repo}/git/refs/${ref}`, { sha, force }, headers);
+    } catch (error) {
+      throw Object.assign(new Error(`Failed to update reference: ${error instanceof Error ? error.message : 'Unknown error'}`), { cause: error });
+    }
+  }
+
+  /**
+   * Commit a set of files to a branch as a single commit.
+   *
+   * Blobs are uploaded first, then one tree and one commit are created on top
+   * of the current branch head, and finally the branch is fast-forwarded. The
+   * ref is only touched after every blob, the tree and the commit exist, so a
+   * failure part-way through leaves the branch exactly where it was.
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param params Branch, message, files, optional deletions and the expected branch head
+   * @returns Promise resolving to the new commit and tree SHAs
+   */
+  async commitFiles(owner: string, repo: string, params: CommitFilesParams): Promise<CommitFilesResult> {
+    try {
+      const deletions = params.deletions || [];
+      if (params.files.length === 0 && deletions.length === 0) {
+        throw new Error('No files to commit');
+      }
+
+      const ref = await this.getRef(owner, repo, `heads/${params.branch}`);
+      const parentSha = ref.object.sha;
+      if (params.parentSha && params.parentSha !== parentSha) {
+        throw new Error(`Branch ${params.branch} moved from ${params.parentSha} to ${parentSha}`);
+      }
+      const parentCommit = await this.getCommit(owner, repo, parentSha);
+
+      // Upload blobs sequentially so a failure stops the export before the tree is built
+      const entries: GitTreeEntry[] = [];
+      for (const file of params.files) {
+        const blob = await this.createBlob(owner, repo, file.content, file.encoding || 'utf-8');
+        entries.push({
+          path: file.path,
+          mode: file.mode || '100644',
+          type: 'blob',
+          sha: blob.sha
+        });
+      }
+
+      for (const path of deletions) {
+        entries.push({ path, mode: '100644', type: 'blob', sha: null });
+      }
+
+      const tree = await this.createTree(owner, repo, {
+        base_tree: parentCommit.tree.sha,
+        tree: entries
+      });
+
+      const commitParams: GitCreateCommitParams = {
+        message: appendCoAuthorTrailers(params.message, params.coAuthors),
+        tree: tree.sha,
+        parents: [parentSha]
+      };
+      if (params.author) {
+        commitParams.author = params.author;
+      }
+      if (params.committer) {
+        commitParams.committer = params.committer;
+      }
+      if (params.signer) {
+        await this.signCommit(commitParams, params.signer);
+      }
+
+      const commit = await this.createCommit(owner, repo, commitParams);
+      await this.updateRef(owner, repo, `heads/${params.branch}`, commit.sha, params.force || false);
+
+      return {
+        branch: params.branch,
+        commitSha: commit.sha,
+        treeSha: tree.sha,
+        parentSha,
+        filesCommitted: params.files.length,
+        filesDeleted: deletions.length
+      };
+    } catch (error) {
+      throw Object.assign(new Error(`Failed to commit files: ${error instanceof Error ? error.message : 'Unknown error'}`), { cause: error });
+    }
+  }
+
+  /**
+   * Sign commit parameters in place. GitHub only accepts the signature if it
+   * covers exactly the commit it builds, so identities get explicit dates and
+   * the committer falls back to the author rather than the token's user.
+   * @param commitParams Commit parameters; author, committer and signature are set
+   * @param signer GPG or SSH signer
+   */
+  private async signCommit(commitParams: GitCreateCommitParams, signer: CommitSigner): Promise<void> {
+    if (!commitParams.author) {
+      throw new Error('Signed commits need an author identity');
+    }
+
+    const now = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+    commitParams.author = { ...commitParams.author, date: commitParams.author.date || now };
+    const committer = commitParams.committer || commitParams.author;
+    commitParams.committer = { ...committer, date: committer.date || commitParams.author.date };
+    commitParams.signature = await signer.sign(buildCommitPayload(commitParams));
+  }
+}
@@ -0,0 +1,249 @@
+// London School TDD Unit Tests for GitDataService
+import { GitDataService } from '../GitDataService';
+import { HttpClient } from '../../../utils/http';
+import { computeBlobSha, computeExportFileSha } from '../blobSha';
+
+describe('GitDataService (London School TDD)', () => {
+  let gitDataService: GitDataService;
+  let mockHttpClient: jest.Mocked<HttpClient>;
+  let mockGetAuthHeaders: jest.Mock;
+  const authHeaders = { 'Authorization': 'token test-token' };
+
+  beforeEach(() => {
+    mockHttpClient = {
+      get: jest.fn(),
+      post: jest.fn(),
+      patch: jest.fn(),
+      delete: jest.fn()
+    } as any;
+
+    mockGetAuthHeaders = jest.fn().mockReturnValue(authHeaders);
+
+    gitDataService = new GitDataService(mockHttpClient, mockGetAuthHeaders);
+  });
+
+  describe('primitives', () => {
+    it('should create a blob with the given encoding', async () => {
+      mockHttpClient.post.mockResolvedValue({ sha: 'blob1', url: 'url' });
+
+      const result = await gitDataService.createBlob('owner', 'repo', 'aGVsbG8=', 'base64');
+
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/repos/owner/repo/git/blobs',
+        { content: 'aGVsbG8=', encoding: 'base64' },
+        authHeaders
+      );
+      expect(result.sha).toBe('blob1');
+    });
+
+    it('should update a reference with PATCH', async () => {
+      mockHttpClient.patch.mockResolvedValue({ ref: 'refs/heads/main', object: { sha: 'c1' } });
+
+      await gitDataService.updateRef('owner', 'repo', 'heads/main', 'c1');
+
+      expect(mockHttpClient.patch).toHaveBeenCalledWith(
+        '/repos/owner/repo/git/refs/heads/main',
+        { sha: 'c1', force: false },
+        authHeaders
+      );
+    });
+
+    it('should wrap errors when getting a reference fails', async () => {
+      mockHttpClient.get.mockRejectedValue(new Error('HTTP 404: Not Found'));
+
+      await expect(gitDataService.getRef('owner', 'repo', 'heads/missing')).rejects.toThrow('Failed to get reference: HTTP 404: Not Found');
+    });
+
+    it('should fetch a tree recursively', async () => {
+      mockHttpClient.get.mockResolvedValue({ sha: 't1', tree: [], truncated: false });
+
+      await gitDataService.getTree('owner', 'repo', 't1', true);
+
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/repos/owner/repo/git/trees/t1?recursive=1', authHeaders);
+    });
+  });
+
+  describe('blob SHAs', () => {
+    it('should match git hash-object for text and base64 content', () => {
+      expect(computeBlobSha('')).toBe('e69de29bb2d1d6434b8b29ae775ad8c2e48c5391');
+      expect(computeBlobSha('hello\n')).toBe('ce013625030ba8dba906f756967f9e9ca394464a');
+      expect(computeExportFileSha({ path: 'a', content: Buffer.from('hello\n').toString('base64'), encoding: 'base64' }))
+        .toBe('ce013625030ba8dba906f756967f9e9ca394464a');
+    });
+  });
+
+  describe('commitFiles', () => {
+    beforeEach(() => {
+      mockHttpClient.get.mockImplementation(async (path: string) => {
+        if (path === '/repos/owner/repo/git/ref/heads/main') {
+          return { ref: 'refs/heads/main', object: { type: 'commit', sha: 'parent1', url: 'url' } };
+        }
+        if (path === '/repos/owner/repo/git/commits/parent1') {
+          return { sha: 'parent1', tree: { sha: 'basetree1', url: 'url' }, parents: [] };
+        }
+        throw new Error(`Unexpected GET ${path}`);
+      });
+    });
+
+    it('should upload blobs, create one tree and commit, and fast-forward the branch', async () => {
+      let blobCount = 0;
+      mockHttpClient.post.mockImplementation(async (path: string) => {
+        if (path.endsWith('/git/blobs')) {
+          blobCount++;
+          return { sha: `blob${blobCount}`, url: 'url' };
+        }
+        if (path.endsWith('/git/trees')) {
+          return { sha: 'tree1', url: 'url', tree: [], truncated: false };
+        }
+        if (path.endsWith('/git/commits')) {
+          return { sha: 'commit1', tree: { sha: 'tree1', url: 'url' }, parents: [{ sha: 'parent1', url: 'url' }] };
+        }
+        throw new Error(`Unexpected POST ${path}`);
+      });
+      mockHttpClient.patch.mockResolvedValue({ ref: 'refs/heads/main', object: { sha: 'commit1' } });
+
+      const result = await gitDataService.commitFiles('owner', 'repo', {
+        branch: 'main',
+        message: 'Export project',
+        files: [
+          { path: 'index.html', content: '<html></html>' },
+          { path: 'run.sh', content: 'ZWNobw==', encoding: 'base64', mode: '100755' }
+        ],
+        deletions: ['old.txt']
+      });
+
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/repos/owner/repo/git/trees',
+        {
+          base_tree: 'basetree1',
+          tree: [
+            { path: 'index.html', mode: '100644', type: 'blob', sha: 'blob1' },
+            { path: 'run.sh', mode: '100755', type: 'blob', sha: 'blob2' },
+            { path: 'old.txt', mode: '100644', type: 'blob', sha: null }
+          ]
+        },
+        authHeaders
+      );
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/repos/owner/repo/git/commits',
+        { message: 'Export project', tree: 'tree1', parents: ['parent1'] },
+        authHeaders
+      );
+      expect(mockHttpClient.patch).toHaveBeenCalledTimes(1);
+      expect(result).toEqual({
+        branch: 'main',
+        commitSha: 'commit1',
+        treeSha: 'tree1',
+        parentSha: 'parent1',
+        filesCommitted: 2,
+        filesDeleted: 1
+      });
+    });
+
+    it('should fail before uploading anything when the branch head is not the expected parent', async () => {
+      await expect(gitDataService.commitFiles('owner', 'repo', {
+        branch: 'main',
+        message: 'Export project',
+        files: [{ path: 'a.txt', content: 'a' }],
+        parentSha: 'stale1'
+      })).rejects.toThrow('Failed to commit files: Branch main moved from stale1 to parent1');
+
+      expect(mockHttpClient.post).not.toHaveBeenCalled();
+      expect(mockHttpClient.patch).not.toHaveBeenCalled();
+    });
+
+    it('should leave the branch untouched when a later blob fails', async () => {
+      let blobCount = 0;
+      mockHttpClient.post.mockImplementation(async (path: string) => {
+        if (path.endsWith('/git/blobs')) {
+          blobCount++;
+          if (blobCount === 2) {
+            throw new Error('HTTP 502: Bad Gateway');
+          }
+          return { sha: `blob${blobCount}`, url: 'url' };
+        }
+        throw new Error(`Unexpected POST ${path}`);
+      });
+
+      await expect(gitDataService.commitFiles('owner', 'repo', {
+        branch: 'main',
+        message: 'Export project',
+        files: [
+          { path: 'a.txt', content: 'a' },
+          { path: 'b.txt', content: 'b' },
+          { path: 'c.txt', content: 'c' }
+        ]
+      })).rejects.toThrow('Failed to commit files: Failed to create blob: HTTP 502: Bad Gateway');
+
+      expect(blobCount).toBe(2);
+      expect(mockHttpClient.post).not.toHaveBeenCalledWith('/repos/owner/repo/git/trees', expect.anything(), expect.anything());
+      expect(mockHttpClient.patch).not.toHaveBeenCalled();
+    });
+
+    it('should add co-author trailers and sign the exact commit GitHub will build', async () => {
+      mockHttpClient.post.mockImplementation(async (path: string) => {
+        if (path.endsWith('/git/blobs')) {
+          return { sha: 'blob1', url: 'url' };
+        }
+        if (path.endsWith('/git/trees')) {
+          return { sha: 'tree1', url: 'url', tree: [], truncated: false };
+        }
+        return { sha: 'commit1' };
+      });
+      mockHttpClient.patch.mockResolvedValue({ ref: 'refs/heads/main', object: { sha: 'commit1' } });
+      const signer = { format: 'ssh' as const, sign: jest.fn().mockResolvedValue('-----BEGIN SSH SIGNATURE-----\nsig\n-----END SSH SIGNATURE-----\n') };
+
+      await gitDataService.commitFiles('owner', 'repo', {
+        branch: 'main',
+        message: 'Export project',
+        files: [{ path: 'index.html', content: '<html></html>' }],
+        author: { name: 'Ada', email: 'ada@example.com', date: '2026-01-02T03:04:05+02:00' },
+        coAuthors: [{ name: 'Bolt Bot', email: 'bot@example.com' }],
+        signer
+      });
+
+      const message = 'Export project\n\nCo-authored-by: Bolt Bot <bot@example.com>\n';
+      expect(signer.sign).toHaveBeenCalledWith(
+        'tree tree1\n' +
+        'parent parent1\n' +
+        'author Ada <ada@example.com> 1767315845 +0200\n' +
+        'committer Ada <ada@example.com> 1767315845 +0200\n' +
+        '\n' +
+        message
+      );
+      expect(mockHttpClient.post).toHaveBeenCalledWith('/repos/owner/repo/git/commits', {
+        message,
+        tree: 'tree1',
+        parents: ['parent1'],
+        author: { name: 'Ada', email: 'ada@example.com', date: '2026-01-02T03:04:05+02:00' },
+        committer: { name: 'Ada', email: 'ada@example.com', date: '2026-01-02T03:04:05+02:00' },
+        signature: '-----BEGIN SSH SIGNATURE-----\nsig\n-----END SSH SIGNATURE-----\n'
+      }, authHeaders);
+    });
+
+    it('should refuse to sign without an author before moving the branch', async () => {
+      mockHttpClient.post.mockResolvedValue({ sha: 'x', url: 'url', tree: [], truncated: false });
+      const signer = { format: 'gpg' as const, sign: jest.fn() };
+
+      await expect(gitDataService.commitFiles('owner', 'repo', {
+        branch: 'main',
+        message: 'Export project',
+        files: [{ path: 'a.txt', content: 'a' }],
+        signer
+      })).rejects.toThrow('Failed to commit files: Signed commits need an author identity');
+
+      expect(signer.sign).not.toHaveBeenCalled();
+      expect(mockHttpClient.patch).not.toHaveBeenCalled();
+    });
+
+    it('should reject an empty export', async () => {
+      await expect(gitDataService.commitFiles('owner', 'repo', {
+        branch: 'main',
+        message: 'Nothing',
+        files: []
+      })).rejects.toThrow('Failed to commit files: No files to commit');
+
+      expect(mockHttpClient.get).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,53 @@
+// Unit tests for commit authorship, message templates and trailers
+import { identityFromUser, renderCommitMessage, appendCoAuthorTrailers } from '../commitMetadata';
+import { GitHubUser } from '../../types/github';
+
+describe('commitMetadata', () => {
+  describe('identityFromUser', () => {
+    const user = { login: 'ada', id: 42, name: 'Ada Lovelace', email: 'ada@example.com' } as GitHubUser;
+
+    it('should use the profile name and public email', () => {
+      expect(identityFromUser(user)).toEqual({ name: 'Ada Lovelace', email: 'ada@example.com' });
+    });
+
+    it('should fall back to the login and the noreply address of the host', () => {
+      expect(identityFromUser({ ...user, name: null, email: null })).toEqual({
+        name: 'ada',
+        email: '42+ada@users.noreply.github.com'
+      });
+      expect(identityFromUser({ ...user, email: null }, 'ghe.acme.com').email).toBe('42+ada@users.noreply.ghe.acme.com');
+    });
+  });
+
+  describe('renderCommitMessage', () => {
+    it('should fill known placeholders and keep unknown ones', () => {
+      const message = renderCommitMessage('Export {project} to {environment} on {branch}: {files} files (+{added} ~{modified} -{deleted}) {ticket}', {
+        project: 'todo-app',
+        environment: 'staging',
+        branch: 'stage',
+        added: 2,
+        modified: 3,
+        deleted: 1
+      });
+
+      expect(message).toBe('Export todo-app to staging on stage: 6 files (+2 ~3 -1) {ticket}');
+    });
+  });
+
+  describe('appendCoAuthorTrailers', () => {
+    const bot = { name: 'Bolt Bot', email: 'bot@example.com' };
+
+    it('should start a trailer block after the subject', () => {
+      expect(appendCoAuthorTrailers('Fix: header layout', [bot])).toBe('Fix: header layout\n\nCo-authored-by: Bolt Bot <bot@example.com>\n');
+    });
+
+    it('should join an existing trailer block and skip co-authors already credited', () => {
+      const message = 'Export project\n\nSigned-off-by: Ada <ada@example.com>\nCo-authored-by: Bolt Bot <BOT@example.com>\n';
+
+      expect(appendCoAuthorTrailers(message, [bot, { name: 'Grace', email: 'grace@example.com' }])).toBe(
+        'Export project\n\nSigned-off-by: Ada <ada@example.com>\nCo-authored-by: Bolt Bot <BOT@example.com>\nCo-authored-by: Grace <grace@example.com>\n'
+      );
+      expect(appendCoAuthorTrailers(message, [bot])).toBe(message);
+    });
+  });
+});
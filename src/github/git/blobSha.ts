@@ -0,0 +1,25 @@
+// Local git object hashing
+import { createHash } from 'crypto';
+import { ExportFile } from '../types/github';
+
+/**
+ * Compute the git blob SHA-1 of some content, exactly as `git hash-object` does
+ * @param content Raw file content
+ * @returns 40-character hex object id
+ */
+export function computeBlobSha(content: Buffer | string): string {
+  const data = typeof content === 'string' ? Buffer.from(content, 'utf8') : content;
+  return createHash('sha1')
+    .update(`blob ${data.length}\0`)
+    .update(data)
+    .digest('hex');
+}
+
+/**
+ * Compute the git blob SHA of an export file, decoding base64 content first
+ * @param file File to hash
+ * @returns 40-character hex object id
+ */
+export function computeExportFileSha(file: ExportFile): string {
+  return computeBlobSha(file.encoding === 'base64' ? Buffer.from(file.content, 'base64') : file.content);
+}
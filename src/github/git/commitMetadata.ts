@@ -0,0 +1,73 @@
+// Commit authorship, message templates and trailers
+import { CommitMessageContext, GitHubUser, GitIdentity } from '../types/github';
+
+/**
+ * Build a commit identity for the authenticated user. Users with a private
+ * email get their noreply address so commits are still attributed to them.
+ * @param user Authenticated GitHub user
+ * @param host GitHub host the user belongs to
+ * @returns Commit identity
+ */
+export function identityFromUser(user: GitHubUser, host: string = 'github.com'): GitIdentity {
+  return {
+    name: user.name || user.login,
+    email: user.email || `${user.id}+${user.login}@users.noreply.${host}`
+  };
+}
+
+/**
+ * Fill a commit message template.
+ * Placeholders: {project}, {environment}, {branch}, {added}, {modified},
+ * {deleted} and {files} (added + modified + deleted). Unknown placeholders
+ * are left as they are; missing project and environment render as empty.
+ * @param template Message template, e.g. "Export {project} to {environment} ({files} files)"
+ * @param context Values for the placeholders
+ * @returns Commit message
+ */
+export function renderCommitMessage(template: string, context: CommitMessageContext): string {
+  const values: Record<string, string> = {
+    project: context.project || '',
+    environment: context.environment || '',
+    branch: context.branch,
+    added: String(context.added),
+    modified: String(context.modified),
+    deleted: String(context.deleted),
+    files: String(context.added + context.modified + context.deleted)
+  };
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder
+  );
+}
+
+/**
+ * Append Co-authored-by trailers to a commit message, skipping co-authors already credited
+ * @param message Commit message
+ * @param coAuthors Co-authors to credit
+ * @returns Message with a trailing trailer block
+ */
+export function appendCoAuthorTrailers(message: string, coAuthors: GitIdentity[] = []): string {
+  const body = message.replace(/\s+$/, '');
+  const present = new Set(
+    Array.from(body.matchAll(/^Co-authored-by:.*<([^>]+)>\s*$/gim), match => match[1].toLowerCase())
+  );
+
+  const trailers: string[] = [];
+  for (const coAuthor of coAuthors) {
+    const email = coAuthor.email.toLowerCase();
+    if (!present.has(email)) {
+      trailers.push(`Co-authored-by: ${coAuthor.name} <${coAuthor.email}>`);
+      present.add(email);
+    }
+  }
+
+  if (trailers.length === 0) {
+    return message;
+  }
+
+  // Join an existing trailer block instead of starting a second one; the subject line never counts as one
+  const paragraphs = body.split(/\n\s*\n/);
+  const endsWithTrailers = paragraphs.length > 1 &&
+    paragraphs[paragraphs.length - 1].split('\n').every(line => /^[\w-]+: .+$/.test(line));
+  return `${body}${endsWithTrailers ? '\n' : '\n\n'}${trailers.join('\n')}\n`;
+}
@@ -0,0 +1,147 @@
+// Repository Import Service for turning a GitHub repository back into a Bolt.DIY project
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { HttpClient, AuthHeadersProvider } from '../../utils/http';
+import { ZipExtractionService } from '../../utils/zip/ZipExtractionService';
+import { EntryFilter } from '../../utils/zip/EntryFilter';
+import { ZipEntry } from '../../types/zip';
+import {
+  Repository,
+  ExportFile,
+  ProjectBundle,
+  ProjectBundleFile,
+  RepositoryImportParams
+} from '../types/github';
+import { FileService } from '../files/FileService';
+import { StarterFileGenerator } from '../repositories/StarterFileGenerator';
+import { parseLfsPointer } from '../lfs/lfsPointer';
+
+export class RepositoryImportService {
+  private static readonly EMPTY_STREAM = new Readable({ read() { this.push(null); } });
+  private files: FileService;
+  private starterFiles: StarterFileGenerator;
+
+  /**
+   * @param httpClient HTTP client for the REST API
+   * @param getAuthHeaders Authorization headers provider
+   */
+  constructor(private httpClient: HttpClient, private getAuthHeaders: AuthHeadersProvider) {
+    this.files = new FileService(httpClient, getAuthHeaders);
+    this.starterFiles = new StarterFileGenerator();
+  }
+
+  /**
+   * Download a repository snapshot and normalize it into a project bundle.
+   * The zipball is extracted with ZipExtractionService and its entries are
+   * filtered with the same EntryFilter rules an export uses.
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param params Ref to import and filter configuration
+   * @returns Promise resolving to the file map and project metadata
+   */
+  async importRepository(owner: string, repo: string, params: RepositoryImportParams = {}): Promise<ProjectBundle> {
+    let workDir: string | undefined;
+    try {
+      const headers = await this.getAuthHeaders();
+      const repository: Repository = await this.httpClient.get(`/repos/${owner}/${repo}`, headers);
+      const ref = params.ref || repository.default_branch;
+      const commit: { sha: string } = await this.httpClient.get(`/repos/${owner}/${repo}/commits/${encodeURIComponent(ref)}`, headers);
+      const archive = await this.files.downloadArchive(owner, repo, commit.sha, 'zip');
+
+      workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'bolt-import-'));
+      const zipFilePath = path.join(workDir, 'archive.zip');
+      const extractPath = path.join(workDir, 'extracted');
+      await fs.writeFile(zipFilePath, archive.data);
+      // Repositories may contain symbolic links; they cannot be represented in a bundle, so skip them
+      const extraction = await ZipExtractionService.extract(zipFilePath, extractPath, { safety: { symlinks: 'skip' } });
+
+      const { kept, excluded } = this.filterEntries(extraction.entries, new EntryFilter(params.filter));
+      const exportFiles = (await ZipExtractionService.readExportFiles(extractPath, kept))
+        .map(file => ({ ...file, path: this.stripArchiveRoot(file.path) }))
+        .sort((a, b) => a.path.localeCompare(b.path));
+
+      return {
+        files: this.toFileMap(exportFiles),
+        metadata: {
+          name: repository.name,
+          description: repository.description,
+          source: { owner, repo, ref, commitSha: commit.sha, htmlUrl: repository.html_url },
+          stack: this.starterFiles.detectStack(exportFiles),
+          importedAt: new Date().toISOString(),
+          fileCount: exportFiles.length,
+          totalSize: kept.reduce((total, entry) => total + entry.size, 0),
+          excluded,
+          lfsPointers: exportFiles
+            .filter(file => file.encoding === 'utf-8' && parseLfsPointer(file.content))
+            .map(file => file.path)
+        }
+      };
+    } catch (error) {
+      throw new Error(`Failed to import repository: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      if (workDir) {
+        await fs.rm(workDir, { recursive: true, force: true });
+      }
+    }
+  }
+
+  /**
+   * Split extracted file entries by the filter, matching on project-relative paths
+   * @param entries Entries reported by the extraction
+   * @param filter Entry filter built from the import configuration
+   * @returns Entries to keep and the project paths that were excluded
+   */
+  private filterEntries(entries: ZipEntry[], filter: EntryFilter): { kept: ZipEntry[]; excluded: string[] } {
+    const kept: ZipEntry[] = [];
+    const excluded: string[] = [];
+
+    for (const entry of entries) {
+      const projectPath = this.stripArchiveRoot(entry.name);
+      if (!entry.isFile || !projectPath) {
+        continue;
+      }
+
+      const matches = filter.matches({
+        name: projectPath,
+        size: entry.size,
+        isDirectory: false,
+        stream: RepositoryImportService.EMPTY_STREAM
+      });
+      if (matches) {
+        kept.push(entry);
+      } else {
+        excluded.push(projectPath);
+      }
+    }
+
+    return { kept, excluded: excluded.sort() };
+  }
+
+  /**
+   * Remove the owner-repo-sha/ folder GitHub wraps every zipball in
+   * @param name Entry name inside the archive
+   * @returns Project-relative path
+   */
+  private stripArchiveRoot(name: string): string {
+    return name.replace(/\\/g, '/').replace(/^\.?\/*[^/]+\//, '');
+  }
+
+  /**
+   * Key export files by path
+   * @param files Export files with project-relative paths
+   * @returns File map of the bundle
+   */
+  private toFileMap(files: ExportFile[]): Record<string, ProjectBundleFile> {
+    const map: Record<string, ProjectBundleFile> = {};
+    for (const file of files) {
+      const bundleFile: ProjectBundleFile = { content: file.content, encoding: file.encoding || 'utf-8' };
+      if (file.mode) {
+        bundleFile.mode = file.mode;
+      }
+      map[file.path] = bundleFile;
+    }
+    return map;
+  }
+}
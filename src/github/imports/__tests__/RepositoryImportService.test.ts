@@ -0,0 +1,114 @@
+// London School TDD Unit Tests for RepositoryImportService
+import archiver from 'archiver';
+import { RepositoryImportService } from '../RepositoryImportService';
+import { HttpClient } from '../../../utils/http';
+
+async function createZipball(root: string, files: Record<string, string | Buffer>): Promise<Buffer> {
+  const archive = archiver('zip');
+  const chunks: Buffer[] = [];
+  archive.on('data', chunk => chunks.push(chunk));
+  const done = new Promise(resolve => archive.on('end', resolve));
+
+  archive.append('', { name: `${root}/` });
+  for (const [name, content] of Object.entries(files)) {
+    archive.append(content, { name: `${root}/${name}` });
+  }
+  await archive.finalize();
+  await done;
+  return Buffer.concat(chunks);
+}
+
+describe('RepositoryImportService (London School TDD)', () => {
+  let importService: RepositoryImportService;
+  let mockHttpClient: jest.Mocked<HttpClient>;
+  let mockGetAuthHeaders: jest.Mock;
+  const authHeaders = { 'Authorization': 'token test-token' };
+  const lfsPointer = 'version https://git-lfs.github.com/spec/v1\n' +
+    `oid sha256:${'a'.repeat(64)}\nsize 2048\n`;
+
+  beforeEach(async () => {
+    const zipball = await createZipball('owner-repo-c0ffee1', {
+      'package.json': JSON.stringify({ dependencies: { vite: '^5.0.0' } }),
+      'src/main.ts': 'console.log("hi");\n',
+      'assets/logo.png': Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]),
+      'assets/video.mp4': lfsPointer,
+      'node_modules/dep/index.js': 'module.exports = 1;\n'
+    });
+
+    mockHttpClient = {
+      get: jest.fn(),
+      send: jest.fn()
+    } as any;
+    mockHttpClient.get.mockImplementation(async (path: string) => path.includes('/commits/')
+      ? { sha: 'c0ffee1234' }
+      : { name: 'repo', description: 'Edited elsewhere', html_url: 'https://github.com/owner/repo', default_branch: 'main' });
+    mockHttpClient.send.mockResolvedValue({ status: 200, headers: {}, data: zipball } as any);
+
+    mockGetAuthHeaders = jest.fn().mockReturnValue(authHeaders);
+
+    importService = new RepositoryImportService(mockHttpClient, mockGetAuthHeaders);
+  });
+
+  it('should download the zipball of the resolved commit on the default branch', async () => {
+    await importService.importRepository('owner', 'repo');
+
+    expect(mockHttpClient.get).toHaveBeenCalledWith('/repos/owner/repo', authHeaders);
+    expect(mockHttpClient.get).toHaveBeenCalledWith('/repos/owner/repo/commits/main', authHeaders);
+    expect(mockHttpClient.send).toHaveBeenCalledWith('GET', '/repos/owner/repo/zipball/c0ffee1234', {
+      headers: authHeaders,
+      responseType: 'binary'
+    });
+  });
+
+  it('should build a file map without the archive root folder', async () => {
+    const bundle = await importService.importRepository('owner', 'repo', { ref: 'feature/x' });
+
+    expect(Object.keys(bundle.files)).toEqual([
+      'assets/logo.png',
+      'assets/video.mp4',
+      'node_modules/dep/index.js',
+      'package.json',
+      'src/main.ts'
+    ]);
+    expect(bundle.files['src/main.ts']).toEqual({ content: 'console.log("hi");\n', encoding: 'utf-8' });
+    expect(bundle.files['assets/logo.png']).toEqual({ content: 'iVBORwD/', encoding: 'base64' });
+    expect(mockHttpClient.get).toHaveBeenCalledWith('/repos/owner/repo/commits/feature%2Fx', authHeaders);
+  });
+
+  it('should apply the same include/exclude rules as an export', async () => {
+    const bundle = await importService.importRepository('owner', 'repo', {
+      filter: { exclude: ['node_modules/**', '**/*.png'] }
+    });
+
+    expect(Object.keys(bundle.files)).toEqual(['assets/video.mp4', 'package.json', 'src/main.ts']);
+    expect(bundle.metadata.excluded).toEqual(['assets/logo.png', 'node_modules/dep/index.js']);
+  });
+
+  it('should describe the source, stack and LFS pointers in the metadata', async () => {
+    const bundle = await importService.importRepository('owner', 'repo', {
+      ref: 'v1.2.0',
+      filter: { exclude: ['node_modules/**'] }
+    });
+
+    expect(bundle.metadata).toEqual(expect.objectContaining({
+      name: 'repo',
+      description: 'Edited elsewhere',
+      source: { owner: 'owner', repo: 'repo', ref: 'v1.2.0', commitSha: 'c0ffee1234', htmlUrl: 'https://github.com/owner/repo' },
+      stack: 'vite',
+      fileCount: 4,
+      lfsPointers: ['assets/video.mp4']
+    }));
+    expect(bundle.metadata.totalSize).toBe(
+      Object.values(bundle.files).reduce((total, file) => total + Buffer.from(file.content, file.encoding).length, 0)
+    );
+    expect(Date.parse(bundle.metadata.importedAt)).not.toBeNaN();
+  });
+
+  it('should wrap failures with context', async () => {
+    mockHttpClient.send.mockRejectedValue(new Error('HTTP 404: Not Found'));
+
+    await expect(importService.importRepository('owner', 'repo')).rejects.toThrow(
+      'Failed to import repository: Failed to download archive: HTTP 404: Not Found'
+    );
+  });
+});
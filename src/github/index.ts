@@ -1,12 +1,59 @@
 // GitHub Client exports
 export { GitHubClient } from './GitHubClient';
 export { RepositoryService } from './repositories/RepositoryService';
-export { BranchService } from './branches/BranchService';
+export { StarterFileGenerator } from './repositories/StarterFileGenerator';
+export { BranchService, ENVIRONMENT_PROTECTION_PRESETS } from './branches/BranchService';
+export { GitDataService } from './git/GitDataService';
+export { PullRequestService } from './pulls/PullRequestService';
+export { ReleaseService } from './releases/ReleaseService';
+export { LfsService } from './lfs/LfsService';
+export { RepositoryImportService } from './imports/RepositoryImportService';
+export { WebhookReceiver, WebhookError } from './webhooks/WebhookReceiver';
+export { WebhookServer } from './webhooks/WebhookServer';
+export { ActionsService } from './actions/ActionsService';
+export { GistService } from './gists/GistService';
+export { createLfsPointer, parseLfsPointer, buildLfsGitattributes } from './lfs/lfsPointer';
+export { formatExportChanges } from './files/ExportChangeFormatter';
+export { parseSemver, compareSemver, nextSemverTag } from '../utils/semver';
+export type { SemverBump, SemverVersion } from '../utils/semver';
+export { computeBlobSha, computeExportFileSha } from './git/blobSha';
+export { identityFromUser, renderCommitMessage, appendCoAuthorTrailers } from './git/commitMetadata';
+export { buildCommitPayload, createSshCommitSigner, createGpgCommitSigner } from './git/commitSigning';
+export { HttpClient, GitHubApiError, parseLinkHeader, toQueryString } from '../utils/http';
+export type { HttpMethod, HttpResponse, HttpRequestOptions, HttpClientOptions, RateLimitInfo } from '../utils/http';
+export { ExponentialBackoffRetryPolicy, NO_RETRY, DEFAULT_RETRY_OPTIONS } from '../utils/retry';
+export type { RetryPolicyOptions, RetryOutcome, RetryStrategy, RequestThrottle } from '../utils/retry';
+export { MemoryHttpCacheStore, ChromeStorageHttpCacheStore, createCacheKey } from '../utils/httpCache';
+export { FileHttpCacheStore } from '../utils/fileHttpCache';
+export type { CachedResponse, HttpCacheStore, HttpCacheStatus, ChromeStorageArea } from '../utils/httpCache';
 
 // Types
 export type {
   Repository,
+  RepositoryPermissions,
+  RepositoryForkParams,
+  ForkSyncResult,
+  RepositoryListOptions,
+  RepositoryVisibility,
+  RepositoryTemplateRef,
+  RepositoryCreateParams,
+  ProjectStack,
+  ProjectMetadata,
+  StarterFileOptions,
+  LicenseDetails,
+  RepositoryBootstrapParams,
+  RepositoryBootstrapResult,
+  ProjectBundleFile,
+  ProjectBundleSource,
+  ProjectBundleMetadata,
+  ProjectBundle,
+  RepositoryImportParams,
   Branch,
+  BranchListOptions,
+  BranchProtectionRules,
+  BranchProtection,
+  BranchRule,
+  BranchPolicy,
   Owner,
   License,
   GitHubUser,
@@ -16,11 +63,98 @@ export type {
   FileContent,
   DirectoryContent,
   Content,
+  DirectoryFileEntry,
+  DirectoryLinkEntry,
+  DirectoryEntry,
+  ArchiveFormat,
+  RepositoryArchive,
   FileCreateParams,
   FileUpdateParams,
   FileDeleteParams,
   FileOperationResult,
   FileDeleteResult,
   BatchFileOperation,
-  BatchFileOperationResult
+  BatchFileOperationResult,
+  GitFileMode,
+  GitIdentity,
+  GitBlob,
+  GitTreeEntry,
+  GitTree,
+  GitCommit,
+  GitReference,
+  GitCreateTreeParams,
+  GitCreateCommitParams,
+  CommitSignatureFormat,
+  CommitSigner,
+  ExportCommitMessageOptions,
+  CommitMessageContext,
+  ExportFile,
+  CommitFilesParams,
+  CommitFilesResult,
+  ExportPlanOptions,
+  ExportChangeSet,
+  IncrementalExportParams,
+  IncrementalExportResult,
+  PullRequestState,
+  PullRequestMergeMethod,
+  PullRequestRef,
+  PullRequestLabel,
+  PullRequest,
+  PullRequestCreateParams,
+  PullRequestUpdateParams,
+  PullRequestListOptions,
+  PullRequestMergeParams,
+  PullRequestMergeResult,
+  ExportAsPullRequestParams,
+  ExportAsPullRequestResult,
+  ExportToBranchParams,
+  ExportToBranchResult,
+  GitTag,
+  Tag,
+  ReleaseAsset,
+  Release,
+  ReleaseCreateParams,
+  ReleaseUpdateParams,
+  ReleaseAssetUpload,
+  SnapshotReleaseParams,
+  SnapshotReleaseResult,
+  LfsOperation,
+  LfsObject,
+  LfsPointer,
+  LfsAction,
+  LfsBatchObject,
+  LfsBatchResponse,
+  LfsUploadResult,
+  LfsExportResult,
+  WebhookEventName,
+  WebhookHeaders,
+  WebhookCommitAuthor,
+  WebhookCommit,
+  PushEventPayload,
+  PullRequestEventPayload,
+  WorkflowRunStatus,
+  WorkflowRun,
+  WorkflowRunEventPayload,
+  PushEvent,
+  PullRequestEvent,
+  WorkflowRunEvent,
+  WebhookEvent,
+  WebhookEventHandler,
+  WebhookListenerOptions,
+  WorkflowState,
+  Workflow,
+  WorkflowStep,
+  WorkflowJob,
+  WorkflowRunListOptions,
+  WorkflowRunProgress,
+  WorkflowRunWaitOptions,
+  WorkflowDispatchParams,
+  WorkflowRunResult,
+  GistFile,
+  Gist,
+  GistCreateParams,
+  GistUpdateParams,
+  ExportTarget,
+  GistExportParams,
+  GistExportResult
 } from './types/github';
\ No newline at end of file
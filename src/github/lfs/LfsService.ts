@@ -0,0 +1,200 @@
+// LFS Service for storing large export files in Git LFS
+import { HttpClient, AuthHeadersProvider } from '../../utils/http';
+import {
+  ExportFile,
+  LfsObject,
+  LfsOperation,
+  LfsPointer,
+  LfsBatchResponse,
+  LfsUploadResult,
+  LfsExportResult
+} from '../types/github';
+import { LargeFileRoute } from '../../types/filters';
+import { createLfsPointer, buildLfsGitattributes } from './lfsPointer';
+
+const LFS_MEDIA_TYPE = 'application/vnd.git-lfs+json';
+
+export class LfsService {
+  /**
+   * @param httpClient HTTP client; LFS URLs are absolute so its base URL is not used
+   * @param getAuthHeaders Authorization headers provider
+   * @param webBaseUrl Web URL of the GitHub host (or a local LFS stand-in) serving /:owner/:repo.git/info/lfs
+   */
+  constructor(
+    private httpClient: HttpClient,
+    private getAuthHeaders: AuthHeadersProvider,
+    private webBaseUrl: string = 'https://github.com'
+  ) {}
+
+  /**
+   * Get the LFS endpoint of a repository
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @returns LFS server URL
+   */
+  getEndpoint(owner: string, repo: string): string {
+    return `${this.webBaseUrl}/${owner}/${repo}.git/info/lfs`;
+  }
+
+  /**
+   * Request transfer actions for objects from the LFS Batch API
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param operation 'upload' or 'download'
+   * @param objects Objects to transfer
+   * @returns Promise resolving to the batch response
+   */
+  async batch(owner: string, repo: string, operation: LfsOperation, objects: LfsObject[]): Promise<LfsBatchResponse> {
+    try {
+      const headers = await this.lfsHeaders();
+      const response = await this.httpClient.send<LfsBatchResponse>('POST', `${this.getEndpoint(owner, repo)}/objects/batch`, {
+        body: {
+          operation,
+          transfers: ['basic'],
+          objects: objects.map(({ oid, size }) => ({ oid, size })),
+          hash_algo: 'sha256'
+        },
+        headers: { ...headers, 'Accept': LFS_MEDIA_TYPE, 'Content-Type': LFS_MEDIA_TYPE }
+      });
+      return response.data;
+    } catch (error) {
+      throw new Error(`Failed to request LFS batch: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Upload objects to Git LFS, skipping those the server already stores
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param objects Pointers with their content
+   * @returns Promise resolving to the uploaded and skipped oids
+   */
+  async upload(owner: string, repo: string, objects: Array<{ pointer: LfsPointer; data: Buffer }>): Promise<LfsUploadResult> {
+    try {
+      const result: LfsUploadResult = { uploaded: [], skipped: [] };
+      if (objects.length === 0) {
+        return result;
+      }
+
+      const response = await this.batch(owner, repo, 'upload', objects.map(object => object.pointer));
+      const dataByOid = new Map(objects.map(object => [object.pointer.oid, object.data]));
+
+      for (const object of response.objects) {
+        if (object.error) {
+          throw new Error(`LFS object ${object.oid} rejected: ${object.error.code} ${object.error.message}`);
+        }
+
+        const upload = object.actions?.upload;
+        if (!upload) {
+          result.skipped.push(object.oid);
+          continue;
+        }
+
+        // Transfer URLs are pre-signed; only the headers the server handed out are sent
+        await this.httpClient.send('PUT', upload.href, {
+          body: dataByOid.get(object.oid),
+          headers: { 'Content-Type': 'application/octet-stream', ...upload.header }
+        });
+
+        const verify = object.actions?.verify;
+        if (verify) {
+          await this.httpClient.send('POST', verify.href, {
+            body: { oid: object.oid, size: object.size },
+            headers: { 'Accept': LFS_MEDIA_TYPE, 'Content-Type': LFS_MEDIA_TYPE, ...verify.header }
+          });
+        }
+
+        result.uploaded.push(object.oid);
+      }
+
+      return result;
+    } catch (error) {
+      throw new Error(`Failed to upload LFS objects: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Reroute export files to Git LFS: upload their content, replace them with
+   * pointer files and track them in .gitattributes. Files routed to 'blob'
+   * and unrouted files are returned unchanged.
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param files Files of the exported project
+   * @param routes Upload route per path, as reported in FilterResult.routes
+   * @returns Promise resolving to the files to commit, the pointers and the upload result
+   */
+  async exportLargeFiles(
+    owner: string,
+    repo: string,
+    files: ExportFile[],
+    routes: Record<string, LargeFileRoute>
+  ): Promise<LfsExportResult> {
+    try {
+      const pointers: Record<string, LfsPointer> = {};
+      const objects: Array<{ pointer: LfsPointer; data: Buffer }> = [];
+      const exportFiles: ExportFile[] = [];
+
+      for (const file of files) {
+        if (routes[file.path] !== 'lfs') {
+          exportFiles.push(file);
+          continue;
+        }
+
+        const data = Buffer.from(file.content, file.encoding === 'base64' ? 'base64' : 'utf8');
+        const pointer = createLfsPointer(data);
+        pointers[file.path] = pointer;
+        objects.push({ pointer, data });
+        exportFiles.push({ path: file.path, content: pointer.content, encoding: 'utf-8', mode: file.mode });
+      }
+
+      const lfsPaths = Object.keys(pointers);
+      if (lfsPaths.length === 0) {
+        return { files: exportFiles, pointers, uploaded: [], skipped: [] };
+      }
+
+      // Objects must be on the LFS server before any commit references their pointers
+      const { uploaded, skipped } = await this.upload(owner, repo, this.uniqueObjects(objects));
+
+      const attributesIndex = exportFiles.findIndex(file => file.path === '.gitattributes');
+      const existing = attributesIndex >= 0 ? this.readText(exportFiles[attributesIndex]) : '';
+      const attributes: ExportFile = { path: '.gitattributes', content: buildLfsGitattributes(lfsPaths, existing) };
+      if (attributesIndex >= 0) {
+        exportFiles[attributesIndex] = attributes;
+      } else {
+        exportFiles.push(attributes);
+      }
+
+      return { files: exportFiles, pointers, uploaded, skipped };
+    } catch (error) {
+      throw new Error(`Failed to export large files: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Identical files share one LFS object
+   */
+  private uniqueObjects(objects: Array<{ pointer: LfsPointer; data: Buffer }>): Array<{ pointer: LfsPointer; data: Buffer }> {
+    const byOid = new Map(objects.map(object => [object.pointer.oid, object]));
+    return Array.from(byOid.values());
+  }
+
+  private readText(file: ExportFile): string {
+    return file.encoding === 'base64' ? Buffer.from(file.content, 'base64').toString('utf8') : file.content;
+  }
+
+  /**
+   * The LFS server takes the token as HTTP Basic credentials rather than the REST API's token scheme
+   */
+  private async lfsHeaders(): Promise<Record<string, string>> {
+    const headers = await this.getAuthHeaders();
+    const authorization = headers['Authorization'] || '';
+    const token = /^(?:token|bearer)\s+(.+)$/i.exec(authorization)?.[1];
+    if (!token) {
+      return headers;
+    }
+    return {
+      ...headers,
+      'Authorization': `Basic ${Buffer.from(`x-access-token:${token}`).toString('base64')}`
+    };
+  }
+}
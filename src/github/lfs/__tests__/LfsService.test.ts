@@ -0,0 +1,171 @@
+// LfsService tests against a local Git LFS stand-in
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { LfsService } from '../LfsService';
+import { createLfsPointer, parseLfsPointer, buildLfsGitattributes } from '../lfsPointer';
+import { HttpClient } from '../../../utils/http';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+describe('lfsPointer', () => {
+  it('should build the pointer git-lfs writes', () => {
+    const pointer = createLfsPointer(Buffer.alloc(0));
+
+    expect(pointer).toEqual({
+      oid: 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855',
+      size: 0,
+      content: 'version https://git-lfs.github.com/spec/v1\n' +
+        'oid sha256:e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855\n' +
+        'size 0\n'
+    });
+    expect(parseLfsPointer(pointer.content)).toEqual({ oid: pointer.oid, size: 0 });
+    expect(parseLfsPointer('plain text\n')).toBeNull();
+  });
+
+  it('should append tracked paths to existing attributes once', () => {
+    const existing = '*.sh text eol=lf\n/assets/logo.png filter=lfs diff=lfs merge=lfs -text\n';
+
+    expect(buildLfsGitattributes(['assets/logo.png', 'assets/intro video.mp4'], existing)).toBe(
+      '*.sh text eol=lf\n' +
+      '/assets/logo.png filter=lfs diff=lfs merge=lfs -text\n' +
+      '/assets/intro[[:space:]]video.mp4 filter=lfs diff=lfs merge=lfs -text\n'
+    );
+  });
+});
+
+describe('LfsService', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+  let storedOids: Set<string>;
+  let lfsService: LfsService;
+
+  beforeEach(async () => {
+    requests = [];
+    storedOids = new Set();
+
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        const body = Buffer.concat(chunks);
+        requests.push({ method: req.method!, url: req.url!, headers: req.headers, body });
+
+        if (req.url === '/owner/repo.git/info/lfs/objects/batch') {
+          const batch = JSON.parse(body.toString('utf8'));
+          const objects = batch.objects.map((object: { oid: string; size: number }) => storedOids.has(object.oid)
+            ? object
+            : {
+              ...object,
+              actions: {
+                upload: { href: `${baseUrl}/storage/${object.oid}`, header: { 'X-Upload-Token': 'signed' } },
+                verify: { href: `${baseUrl}/verify`, header: { 'X-Verify-Token': 'signed' } }
+              }
+            });
+          res.writeHead(200, { 'Content-Type': 'application/vnd.git-lfs+json' });
+          res.end(JSON.stringify({ transfer: 'basic', objects }));
+          return;
+        }
+
+        res.writeHead(200);
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const httpClient = new HttpClient({ baseUrl: 'https://api.github.com', retry: false });
+    lfsService = new LfsService(httpClient, () => ({ 'Authorization': 'token test-token' }), baseUrl);
+  });
+
+  afterEach(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  it('should request a batch with Basic credentials and the LFS media type', async () => {
+    storedOids.add('a'.repeat(64));
+
+    const response = await lfsService.batch('owner', 'repo', 'upload', [{ oid: 'a'.repeat(64), size: 3 }]);
+
+    expect(response.objects).toEqual([{ oid: 'a'.repeat(64), size: 3 }]);
+    expect(requests[0].method).toBe('POST');
+    expect(requests[0].headers['authorization']).toBe(`Basic ${Buffer.from('x-access-token:test-token').toString('base64')}`);
+    expect(requests[0].headers['accept']).toBe('application/vnd.git-lfs+json');
+    expect(JSON.parse(requests[0].body.toString('utf8'))).toEqual({
+      operation: 'upload',
+      transfers: ['basic'],
+      objects: [{ oid: 'a'.repeat(64), size: 3 }],
+      hash_algo: 'sha256'
+    });
+  });
+
+  it('should replace LFS-routed files with pointers, upload them and track them in .gitattributes', async () => {
+    const image = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]);
+    const pointer = createLfsPointer(image);
+
+    const result = await lfsService.exportLargeFiles('owner', 'repo', [
+      { path: 'src/index.ts', content: 'export {};\n' },
+      { path: 'public/hero.png', content: image.toString('base64'), encoding: 'base64' },
+      { path: 'public/poster.jpg', content: 'jpeg', encoding: 'utf-8' }
+    ], { 'public/hero.png': 'lfs', 'public/poster.jpg': 'blob' });
+
+    expect(result.files).toEqual([
+      { path: 'src/index.ts', content: 'export {};\n' },
+      { path: 'public/hero.png', content: pointer.content, encoding: 'utf-8', mode: undefined },
+      { path: 'public/poster.jpg', content: 'jpeg', encoding: 'utf-8' },
+      { path: '.gitattributes', content: '/public/hero.png filter=lfs diff=lfs merge=lfs -text\n' }
+    ]);
+    expect(result.uploaded).toEqual([pointer.oid]);
+
+    const upload = requests.find(request => request.url === `/storage/${pointer.oid}`)!;
+    expect(upload.method).toBe('PUT');
+    expect(upload.body.equals(image)).toBe(true);
+    expect(upload.headers['x-upload-token']).toBe('signed');
+    expect(upload.headers['authorization']).toBeUndefined();
+
+    const verify = requests.find(request => request.url === '/verify')!;
+    expect(JSON.parse(verify.body.toString('utf8'))).toEqual({ oid: pointer.oid, size: image.length });
+  });
+
+  it('should skip objects the server already stores', async () => {
+    const pointer = createLfsPointer(Buffer.from('model'));
+    storedOids.add(pointer.oid);
+
+    const result = await lfsService.exportLargeFiles('owner', 'repo', [
+      { path: 'model.bin', content: 'model' }
+    ], { 'model.bin': 'lfs' });
+
+    expect(result.skipped).toEqual([pointer.oid]);
+    expect(result.uploaded).toEqual([]);
+    expect(requests.map(request => request.url)).toEqual(['/owner/repo.git/info/lfs/objects/batch']);
+  });
+
+  it('should not contact the LFS server when nothing is routed to LFS', async () => {
+    const files = [{ path: 'README.md', content: '# Demo' }];
+
+    const result = await lfsService.exportLargeFiles('owner', 'repo', files, {});
+
+    expect(result.files).toEqual(files);
+    expect(requests).toHaveLength(0);
+  });
+
+  it('should surface per-object errors from the batch response', async () => {
+    const mockHttpClient = {
+      send: jest.fn().mockResolvedValue({
+        status: 200,
+        headers: {},
+        data: { objects: [{ oid: 'b'.repeat(64), size: 1, error: { code: 413, message: 'Size exceeds limit' } }] }
+      })
+    } as any;
+    const service = new LfsService(mockHttpClient, () => ({}));
+
+    await expect(service.upload('owner', 'repo', [{ pointer: { oid: 'b'.repeat(64), size: 1, content: '' }, data: Buffer.from('x') }]))
+      .rejects.toThrow(`Failed to upload LFS objects: LFS object ${'b'.repeat(64)} rejected: 413 Size exceeds limit`);
+    expect(mockHttpClient.send).toHaveBeenCalledWith('POST', 'https://github.com/owner/repo.git/info/lfs/objects/batch', expect.anything());
+  });
+});
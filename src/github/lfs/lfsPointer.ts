@@ -0,0 +1,52 @@
+// Git LFS pointer files and .gitattributes entries
+import { createHash } from 'crypto';
+import { LfsPointer } from '../types/github';
+
+const LFS_SPEC = 'https://git-lfs.github.com/spec/v1';
+const LFS_ATTRIBUTES = 'filter=lfs diff=lfs merge=lfs -text';
+
+/**
+ * Build the pointer file committed in place of content stored in Git LFS
+ * @param data Raw file content
+ * @returns SHA-256 oid, size and pointer text, byte-identical to `git lfs pointer`
+ */
+export function createLfsPointer(data: Buffer): LfsPointer {
+  const oid = createHash('sha256').update(data).digest('hex');
+  return {
+    oid,
+    size: data.length,
+    content: `version ${LFS_SPEC}\noid sha256:${oid}\nsize ${data.length}\n`
+  };
+}
+
+/**
+ * Recognise an LFS pointer file
+ * @param content File text
+ * @returns oid and size, or null when the text is not a pointer
+ */
+export function parseLfsPointer(content: string): { oid: string; size: number } | null {
+  const match = /^version https:\/\/git-lfs\.github\.com\/spec\/v1\noid sha256:([0-9a-f]{64})\nsize (\d+)\n$/.exec(content);
+  return match ? { oid: match[1], size: Number(match[2]) } : null;
+}
+
+/**
+ * Add `filter=lfs` entries for the given paths to a .gitattributes file
+ * @param paths Repository paths stored in Git LFS
+ * @param existing Current .gitattributes content, kept as-is
+ * @returns Updated .gitattributes content
+ */
+export function buildLfsGitattributes(paths: string[], existing: string = ''): string {
+  const lines = existing.split('\n').filter((line, index, all) => line !== '' || index < all.length - 1);
+  const present = new Set(lines.map(line => line.trim()));
+
+  for (const path of [...paths].sort()) {
+    // Anchor to the repository root; gitattributes patterns cannot contain literal spaces
+    const entry = `/${path.replace(/ /g, '[[:space:]]')} ${LFS_ATTRIBUTES}`;
+    if (!present.has(entry)) {
+      lines.push(entry);
+      present.add(entry);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,384 @@
+// Pull Request Service
+import { HttpClient, AuthHeadersProvider, findApiError, toQueryString } from '../../utils/http';
+import { isRateLimited } from '../../utils/retry';
+import {
+  Repository,
+  PullRequest,
+  PullRequestCreateParams,
+  PullRequestUpdateParams,
+  PullRequestListOptions,
+  PullRequestMergeParams,
+  PullRequestMergeResult,
+  ExportAsPullRequestParams,
+  ExportAsPullRequestResult,
+  ExportChangeSet,
+  IncrementalExportResult,
+  CommitFilesResult,
+  ExportToBranchParams,
+  ExportToBranchResult
+} from '../types/github';
+import { RepositoryService } from '../repositories/RepositoryService';
+import { BranchService } from '../branches/BranchService';
+import { FileService } from '../files/FileService';
+import { formatExportChanges } from '../files/ExportChangeFormatter';
+
+export class PullRequestService {
+  private repositories: RepositoryService;
+  private branches: BranchService;
+  private files: FileService;
+
+  constructor(private httpClient: HttpClient, private getAuthHeaders: AuthHeadersProvider) {
+    this.repositories = new RepositoryService(httpClient, getAuthHeaders);
+    this.branches = new BranchService(httpClient, getAuthHeaders);
+    this.files = new FileService(httpClient, getAuthHeaders);
+  }
+
+  /**
+   * Create a pull request
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param params Title, head and base branches, body and draft flag
+   * @returns Promise resolving to the created pull request
+   */
+  async create(owner: string, repo: string, params: PullRequestCreateParams): Promise<PullRequest> {
+    try {
+      const headers = await this.getAuthHeaders();
+      return await this.httpClient.post(`/repos/${owner}/${repo}/pulls`, params, headers);
+    } catch (error) {
+      throw new Error(`Failed to create pull request: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get a pull request
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param pullNumber Pull request number
+   * @returns Promise resolving to the pull request
+   */
+  async get(owner: string, repo: string, pullNumber: number): Promise<PullRequest> {
+    try {
+      const headers = await this.getAuthHeaders();
+      return await this.httpClient.get(`/repos/${owner}/${repo}/pulls/${pullNumber}`, headers);
+    } catch (error) {
+      throw new Error(`Failed to get pull request: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Update a pull request
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param pullNumber Pull request number
+   * @param params Fields to change
+   * @returns Promise resolving to the updated pull request
+   */
+  async update(owner: string, repo: string, pullNumber: number, params: PullRequestUpdateParams): Promise<PullRequest> {
+    try {
+      const headers = await this.getAuthHeaders();
+      return await this.httpClient.patch(`/repos/${owner}/${repo}/pulls/${pullNumber}`, params, headers);
+    } catch (error) {
+      throw new Error(`Failed to update pull request: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * List the first page of pull requests
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param options State, branch filters, sorting and page size
+   * @returns Promise resolving to array of pull requests
+   */
+  async list(owner: string, repo: string, options: PullRequestListOptions = {}): Promise<PullRequest[]> {
+    try {
+      const headers = await this.getAuthHeaders();
+      return await this.httpClient.get(`/repos/${owner}/${repo}/pulls${toQueryString({ ...options })}`, headers);
+    } catch (error) {
+      throw new Error(`Failed to list pull requests: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Iterate over all pull requests, following pagination links
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param options State, branch filters, sorting and page size
+   * @returns Async iterator over every pull request
+   */
+  async *iterate(owner: string, repo: string, options: PullRequestListOptions = {}): AsyncGenerator<PullRequest, void, undefined> {
+    try {
+      const headers = await this.getAuthHeaders();
+      yield* this.httpClient.paginate<PullRequest>(`/repos/${owner}/${repo}/pulls${toQueryString({ ...options })}`, headers);
+    } catch (error) {
+      throw new Error(`Failed to list pull requests: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * List all pull requests across every page
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param options State, branch filters, sorting and page size
+   * @returns Promise resolving to array of all pull requests
+   */
+  async listAll(owner: string, repo: string, options: PullRequestListOptions = {}): Promise<PullRequest[]> {
+    const pullRequests: PullRequest[] = [];
+    for await (const pullRequest of this.iterate(owner, repo, options)) {
+      pullRequests.push(pullRequest);
+    }
+    return pullRequests;
+  }
+
+  /**
+   * Merge a pull request
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param pullNumber Pull request number
+   * @param params Merge method, commit title/message and expected head SHA
+   * @returns Promise resolving to the merge result
+   */
+  async merge(owner: string, repo: string, pullNumber: number, params: PullRequestMergeParams = {}): Promise<PullRequestMergeResult> {
+    try {
+      const headers = await this.getAuthHeaders();
+      return await this.httpClient.put(`/repos/${owner}/${repo}/pulls/${pullNumber}/merge`, params, headers);
+    } catch (error) {
+      throw new Error(`Failed to merge pull request: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Close a pull request without merging
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param pullNumber Pull request number
+   * @returns Promise resolving to the closed pull request
+   */
+  async close(owner: string, repo: string, pullNumber: number): Promise<PullRequest> {
+    try {
+      return await this.update(owner, repo, pullNumber, { state: 'closed' });
+    } catch (error) {
+      throw new Error(`Failed to close pull request: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Request reviews from users and teams
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param pullNumber Pull request number
+   * @param reviewers User logins
+   * @param teamReviewers Team slugs
+   * @returns Promise resolving to the updated pull request
+   */
+  async requestReviewers(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    reviewers: string[] = [],
+    teamReviewers: string[] = []
+  ): Promise<PullRequest> {
+    try {
+      const headers = await this.getAuthHeaders();
+      return await this.httpClient.post(
+        `/repos/${owner}/${repo}/pulls/${pullNumber}/requested_reviewers`,
+        { reviewers, team_reviewers: teamReviewers },
+        headers
+      );
+    } catch (error) {
+      throw new Error(`Failed to request reviewers: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Add labels to a pull request (labels live on the underlying issue)
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param pullNumber Pull request number
+   * @param labels Label names; missing labels are created by GitHub
+   * @returns Promise resolving when the labels are added
+   */
+  async addLabels(owner: string, repo: string, pullNumber: number, labels: string[]): Promise<void> {
+    try {
+      const headers = await this.getAuthHeaders();
+      await this.httpClient.post(`/repos/${owner}/${repo}/issues/${pullNumber}/labels`, { labels }, headers);
+    } catch (error) {
+      throw new Error(`Failed to add labels: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Export files to a new branch off the base branch and open a pull request.
+   * The branch is removed again if nothing changed or the export fails before
+   * the pull request exists, so failed exports leave no stray branches.
+   * Without push access the repository is forked, the fork's base branch is
+   * synced with upstream and the pull request is opened from the fork.
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param params Title, files and optional branch names, reviewers and labels
+   * @returns Promise resolving to the pull request, branch, changes, commit and any fork used
+   */
+  async exportAsPullRequest(owner: string, repo: string, params: ExportAsPullRequestParams): Promise<ExportAsPullRequestResult> {
+    try {
+      return await this.exportPullRequest(owner, repo, await this.repositories.get(owner, repo), params);
+    } catch (error) {
+      throw new Error(`Failed to export as pull request: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Export files to a branch, switching to a pull request when the branch's
+   * protection or rulesets do not allow direct pushes, and to a pull request
+   * from a fork when the authenticated user cannot push to the repository
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param params Branch, message, files and the pull request settings used if one is needed
+   * @returns Promise resolving to how the export landed, its changes and any pull request
+   */
+  async exportToBranch(owner: string, repo: string, params: ExportToBranchParams): Promise<ExportToBranchResult> {
+    try {
+      const { title, draft, reviewers, teamReviewers, labels, ...exportParams } = params;
+      const repository = await this.repositories.get(owner, repo);
+
+      if (this.canPush(repository)) {
+        const policy = await this.branches.getPolicy(owner, repo, params.branch);
+        if (!policy.requiresPullRequest) {
+          try {
+            const exported = await this.files.exportIncremental(owner, repo, exportParams);
+            return { mode: 'direct', branch: params.branch, ...exported, warnings: [] };
+          } catch (error) {
+            // Protection that could not be read without admin access only shows up when the ref is updated
+            if (!this.isBranchProtectionError(error)) {
+              throw error;
+            }
+          }
+        }
+      }
+
+      // Everything that shapes the commit carries over; force has no meaning on a fresh export branch
+      const { branch, force: _force, ...commitOptions } = exportParams;
+      const result = await this.exportPullRequest(owner, repo, repository, {
+        ...commitOptions,
+        title: title || params.message,
+        base: branch,
+        draft,
+        reviewers,
+        teamReviewers,
+        labels
+      });
+
+      return {
+        mode: result.fork ? 'fork' : 'pull-request',
+        branch: result.branch,
+        changes: result.changes,
+        commit: result.commit,
+        pullRequest: result.pullRequest,
+        fork: result.fork,
+        warnings: result.warnings
+      };
+    } catch (error) {
+      throw new Error(`Failed to export to branch: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Generate a pull request body listing the files an export changed
+   * @param changes Change set of the export
+   * @returns Markdown body
+   */
+  buildExportBody(changes: ExportChangeSet): string {
+    return `Exported from Bolt.DIY.\n\n${formatExportChanges(changes)}`;
+  }
+
+  private async exportPullRequest(
+    owner: string,
+    repo: string,
+    repository: Repository,
+    params: ExportAsPullRequestParams
+  ): Promise<ExportAsPullRequestResult> {
+    const base = params.base || repository.default_branch;
+    let fork: Repository | undefined;
+    if (!this.canPush(repository)) {
+      fork = await this.repositories.fork(owner, repo);
+      await this.repositories.syncFork(fork.owner.login, fork.name, base);
+    }
+
+    // The export branch lives on the fork when there is one; the pull request always targets upstream
+    const headOwner = fork ? fork.owner.login : owner;
+    const headRepo = fork ? fork.name : repo;
+    const baseBranch = await this.branches.get(headOwner, headRepo, base);
+    const head = params.head || `bolt-export/${new Date().toISOString().replace(/[:.]/g, '-')}`;
+
+    await this.branches.create(headOwner, headRepo, head, baseBranch.commit.sha);
+
+    let pullRequest: PullRequest;
+    let exported: IncrementalExportResult;
+    let commit: CommitFilesResult;
+    try {
+      exported = await this.files.exportIncremental(headOwner, headRepo, {
+        branch: head,
+        message: params.message || params.title,
+        files: params.files,
+        deleteMissing: params.deleteMissing,
+        deletions: params.deletions,
+        author: params.author,
+        committer: params.committer,
+        coAuthors: params.coAuthors,
+        signer: params.signer,
+        messageTemplate: params.messageTemplate,
+        project: params.project,
+        environment: params.environment
+      });
+      if (!exported.commit) {
+        throw new Error(`No changes to export against ${base}`);
+      }
+      commit = exported.commit;
+
+      pullRequest = await this.create(owner, repo, {
+        title: params.title,
+        head: fork ? `${headOwner}:${head}` : head,
+        base,
+        body: params.body ?? this.buildExportBody(exported.changes),
+        draft: params.draft,
+        ...(fork && { maintainer_can_modify: true })
+      });
+    } catch (error) {
+      await this.branches.delete(headOwner, headRepo, head).catch(() => undefined);
+      throw error;
+    }
+
+    // The pull request already exists, so reviewer and label failures are reported as warnings
+    const warnings: string[] = [];
+    if ((params.reviewers && params.reviewers.length > 0) || (params.teamReviewers && params.teamReviewers.length > 0)) {
+      await this.requestReviewers(owner, repo, pullRequest.number, params.reviewers, params.teamReviewers)
+        .catch(error => warnings.push(error.message));
+    }
+    if (params.labels && params.labels.length > 0) {
+      await this.addLabels(owner, repo, pullRequest.number, params.labels)
+        .catch(error => warnings.push(error.message));
+    }
+
+    return {
+      pullRequest,
+      branch: head,
+      changes: exported.changes,
+      commit,
+      fork,
+      warnings
+    };
+  }
+
+  // Only a rejection by branch protection or a ruleset turns into a pull request; rate limits,
+  // SSO enforcement and missing token scopes also answer 403 and must reach the caller
+  private isBranchProtectionError(error: unknown): boolean {
+    const apiError = findApiError(error);
+    return apiError !== undefined &&
+      (apiError.status === 403 || apiError.status === 422) &&
+      !isRateLimited(apiError.headers) &&
+      /protected branch|rule violation/i.test(apiError.body?.message || '');
+  }
+
+  // Permissions are only reported for authenticated requests; assume push access when they are missing
+  private canPush(repository: Repository): boolean {
+    return repository.permissions?.push ?? true;
+  }
+}
@@ -0,0 +1,397 @@
+// London School TDD Unit Tests for PullRequestService
+import { PullRequestService } from '../PullRequestService';
+import { HttpClient, GitHubApiError } from '../../../utils/http';
+import { computeBlobSha } from '../../git/blobSha';
+
+describe('PullRequestService (London School TDD)', () => {
+  let pullRequestService: PullRequestService;
+  let mockHttpClient: jest.Mocked<HttpClient>;
+  let mockGetAuthHeaders: jest.Mock;
+  const authHeaders = { 'Authorization': 'token test-token' };
+
+  beforeEach(() => {
+    mockHttpClient = {
+      get: jest.fn(),
+      post: jest.fn(),
+      put: jest.fn(),
+      patch: jest.fn(),
+      delete: jest.fn()
+    } as any;
+
+    mockGetAuthHeaders = jest.fn().mockReturnValue(authHeaders);
+
+    pullRequestService = new PullRequestService(mockHttpClient, mockGetAuthHeaders);
+  });
+
+  describe('pull request operations', () => {
+    it('should create a pull request', async () => {
+      mockHttpClient.post.mockResolvedValue({ number: 7 });
+
+      const result = await pullRequestService.create('owner', 'repo', { title: 'T', head: 'feature', base: 'main', draft: true });
+
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/repos/owner/repo/pulls',
+        { title: 'T', head: 'feature', base: 'main', draft: true },
+        authHeaders
+      );
+      expect(result.number).toBe(7);
+    });
+
+    it('should list pull requests with filters', async () => {
+      mockHttpClient.get.mockResolvedValue([]);
+
+      await pullRequestService.list('owner', 'repo', { state: 'all', base: 'main' });
+
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/repos/owner/repo/pulls?state=all&base=main', authHeaders);
+    });
+
+    it('should merge with the requested method', async () => {
+      mockHttpClient.put.mockResolvedValue({ sha: 'm1', merged: true, message: 'Pull Request successfully merged' });
+
+      const result = await pullRequestService.merge('owner', 'repo', 7, { merge_method: 'squash' });
+
+      expect(mockHttpClient.put).toHaveBeenCalledWith('/repos/owner/repo/pulls/7/merge', { merge_method: 'squash' }, authHeaders);
+      expect(result.merged).toBe(true);
+    });
+
+    it('should close by updating the state', async () => {
+      mockHttpClient.patch.mockResolvedValue({ number: 7, state: 'closed' });
+
+      await pullRequestService.close('owner', 'repo', 7);
+
+      expect(mockHttpClient.patch).toHaveBeenCalledWith('/repos/owner/repo/pulls/7', { state: 'closed' }, authHeaders);
+    });
+
+    it('should wrap errors when merging fails', async () => {
+      mockHttpClient.put.mockRejectedValue(new Error('HTTP 405: Method Not Allowed - Pull Request is not mergeable'));
+
+      await expect(pullRequestService.merge('owner', 'repo', 7)).rejects.toThrow(
+        'Failed to merge pull request: HTTP 405: Method Not Allowed - Pull Request is not mergeable'
+      );
+    });
+  });
+
+  describe('exportAsPullRequest', () => {
+    beforeEach(() => {
+      mockHttpClient.get.mockImplementation(async (path: string) => {
+        switch (path) {
+          case '/repos/owner/repo':
+            return { default_branch: 'main' };
+          case '/repos/owner/repo/branches/main':
+            return { name: 'main', commit: { sha: 'base1' } };
+          case '/repos/owner/repo/git/ref/heads/bolt-export/feature':
+            return { object: { sha: 'base1' } };
+          case '/repos/owner/repo/git/commits/base1':
+            return { sha: 'base1', tree: { sha: 'tree1' } };
+          case '/repos/owner/repo/git/trees/tree1?recursive=1':
+            return {
+              sha: 'tree1',
+              truncated: false,
+              tree: [{ path: 'README.md', mode: '100644', type: 'blob', sha: computeBlobSha('readme') }]
+            };
+          default:
+            throw new Error(`Unexpected GET ${path}`);
+        }
+      });
+      mockHttpClient.patch.mockResolvedValue({});
+      mockHttpClient.delete.mockResolvedValue(undefined);
+    });
+
+    it('should branch off the default branch, commit the export and open a PR', async () => {
+      mockHttpClient.post.mockImplementation(async (path: string) => {
+        if (path.endsWith('/pulls')) {
+          return { number: 12, html_url: 'https://github.com/owner/repo/pull/12' };
+        }
+        return { sha: path.endsWith('/git/commits') ? 'commit1' : 'sha' };
+      });
+
+      const result = await pullRequestService.exportAsPullRequest('owner', 'repo', {
+        title: 'Bolt export',
+        head: 'bolt-export/feature',
+        files: [
+          { path: 'README.md', content: 'readme' },
+          { path: 'src/app.ts', content: 'app' }
+        ],
+        deleteMissing: false,
+        reviewers: ['octocat'],
+        labels: ['bolt']
+      });
+
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/repos/owner/repo/git/refs',
+        { ref: 'refs/heads/bolt-export/feature', sha: 'base1' },
+        authHeaders
+      );
+      expect(mockHttpClient.post).toHaveBeenCalledWith('/repos/owner/repo/pulls', {
+        title: 'Bolt export',
+        head: 'bolt-export/feature',
+        base: 'main',
+        body: 'Exported from Bolt.DIY.\n\n**1 added, 0 modified, 0 deleted** (1 unchanged)\n\n### Added\n- `src/app.ts`',
+        draft: undefined
+      }, authHeaders);
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/repos/owner/repo/pulls/12/requested_reviewers',
+        { reviewers: ['octocat'], team_reviewers: [] },
+        authHeaders
+      );
+      expect(mockHttpClient.post).toHaveBeenCalledWith('/repos/owner/repo/issues/12/labels', { labels: ['bolt'] }, authHeaders);
+      expect(result).toMatchObject({ branch: 'bolt-export/feature', commit: { commitSha: 'commit1' }, warnings: [] });
+    });
+
+    it('should delete the branch when there is nothing to export', async () => {
+      mockHttpClient.post.mockResolvedValue({});
+
+      await expect(pullRequestService.exportAsPullRequest('owner', 'repo', {
+        title: 'Bolt export',
+        head: 'bolt-export/feature',
+        files: [{ path: 'README.md', content: 'readme' }]
+      })).rejects.toThrow('Failed to export as pull request: No changes to export against main');
+
+      expect(mockHttpClient.delete).toHaveBeenCalledWith('/repos/owner/repo/git/refs/heads/bolt-export/feature', authHeaders);
+      expect(mockHttpClient.post).not.toHaveBeenCalledWith('/repos/owner/repo/pulls', expect.anything(), authHeaders);
+    });
+
+    it('should report reviewer failures as warnings once the PR exists', async () => {
+      mockHttpClient.post.mockImplementation(async (path: string) => {
+        if (path.endsWith('/requested_reviewers')) {
+          throw new Error('HTTP 422: Unprocessable Entity');
+        }
+        return path.endsWith('/pulls') ? { number: 12 } : { sha: 'sha' };
+      });
+
+      const result = await pullRequestService.exportAsPullRequest('owner', 'repo', {
+        title: 'Bolt export',
+        head: 'bolt-export/feature',
+        files: [{ path: 'src/app.ts', content: 'app' }],
+        teamReviewers: ['core']
+      });
+
+      expect(result.pullRequest.number).toBe(12);
+      expect(result.warnings).toEqual(['Failed to request reviewers: HTTP 422: Unprocessable Entity']);
+    });
+
+    it('should export through a synced fork and open a cross-repository PR without push access', async () => {
+      const upstreamGet = mockHttpClient.get.getMockImplementation()!;
+      mockHttpClient.get.mockImplementation(async (path: string) => {
+        if (path === '/repos/owner/repo') {
+          return { default_branch: 'main', permissions: { admin: false, push: false, pull: true } };
+        }
+        if (path.startsWith('/repos/contributor/repo/')) {
+          return upstreamGet(path.replace('/repos/contributor/repo/', '/repos/owner/repo/'));
+        }
+        throw new Error(`Unexpected GET ${path}`);
+      });
+      mockHttpClient.post.mockImplementation(async (path: string) => {
+        switch (path) {
+          case '/repos/owner/repo/forks':
+            return { name: 'repo', owner: { login: 'contributor' }, default_branch: 'main' };
+          case '/repos/contributor/repo/merge-upstream':
+            return { message: 'Successfully fetched and fast-forwarded from upstream owner:main.', merge_type: 'fast-forward', base_branch: 'owner:main' };
+          case '/repos/owner/repo/pulls':
+            return { number: 21 };
+          default:
+            return { sha: 'sha' };
+        }
+      });
+
+      const result = await pullRequestService.exportAsPullRequest('owner', 'repo', {
+        title: 'Bolt export',
+        head: 'bolt-export/feature',
+        files: [{ path: 'src/app.ts', content: 'app' }]
+      });
+
+      expect(mockHttpClient.post).toHaveBeenCalledWith('/repos/contributor/repo/merge-upstream', { branch: 'main' }, authHeaders);
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/repos/contributor/repo/git/refs',
+        { ref: 'refs/heads/bolt-export/feature', sha: 'base1' },
+        authHeaders
+      );
+      expect(mockHttpClient.patch).toHaveBeenCalledWith('/repos/contributor/repo/git/refs/heads/bolt-export/feature', expect.anything(), authHeaders);
+      expect(mockHttpClient.post).toHaveBeenCalledWith('/repos/owner/repo/pulls', expect.objectContaining({
+        head: 'contributor:bolt-export/feature',
+        base: 'main',
+        maintainer_can_modify: true
+      }), authHeaders);
+      expect(mockHttpClient.post).not.toHaveBeenCalledWith('/repos/owner/repo/git/refs', expect.anything(), authHeaders);
+      expect(result.fork?.owner.login).toBe('contributor');
+    });
+  });
+
+  describe('exportToBranch', () => {
+    const tree = { sha: 'tree1', truncated: false, tree: [] };
+
+    function mockRepository(rules: any[]) {
+      mockHttpClient.get.mockImplementation(async (path: string) => {
+        if (path === '/repos/owner/repo') {
+          return { default_branch: 'main', permissions: { admin: false, push: true, pull: true } };
+        }
+        if (path === '/repos/owner/repo/branches/production/protection') {
+          throw new GitHubApiError('HTTP 404: Not Found', 404);
+        }
+        if (path === '/repos/owner/repo/rules/branches/production') {
+          return rules;
+        }
+        if (path === '/repos/owner/repo/branches/production') {
+          return { name: 'production', commit: { sha: 'base1' } };
+        }
+        if (path.startsWith('/repos/owner/repo/git/ref/heads/')) {
+          return { object: { sha: 'base1' } };
+        }
+        if (path === '/repos/owner/repo/git/commits/base1') {
+          return { sha: 'base1', tree: { sha: 'tree1' } };
+        }
+        if (path === '/repos/owner/repo/git/trees/tree1?recursive=1') {
+          return tree;
+        }
+        throw new Error(`Unexpected GET ${path}`);
+      });
+      mockHttpClient.post.mockImplementation(async (path: string) => path.endsWith('/pulls') ? { number: 3 } : { sha: 'sha' });
+      mockHttpClient.patch.mockResolvedValue({});
+    }
+
+    it('should push directly to unprotected branches', async () => {
+      mockRepository([]);
+
+      const result = await pullRequestService.exportToBranch('owner', 'repo', {
+        branch: 'production',
+        message: 'Sync',
+        files: [{ path: 'a.ts', content: 'a' }]
+      });
+
+      expect(result.mode).toBe('direct');
+      expect(mockHttpClient.patch).toHaveBeenCalledWith('/repos/owner/repo/git/refs/heads/production', { sha: 'sha', force: false }, authHeaders);
+    });
+
+    it('should open a pull request when the branch requires one', async () => {
+      mockRepository([{ type: 'pull_request' }]);
+
+      const result = await pullRequestService.exportToBranch('owner', 'repo', {
+        branch: 'production',
+        message: 'Sync',
+        files: [{ path: 'a.ts', content: 'a' }]
+      });
+
+      expect(result).toMatchObject({ mode: 'pull-request', pullRequest: { number: 3 } });
+      expect(result.branch).toMatch(/^bolt-export\//);
+      expect(mockHttpClient.patch).not.toHaveBeenCalledWith('/repos/owner/repo/git/refs/heads/production', expect.anything(), authHeaders);
+      expect(mockHttpClient.post).toHaveBeenCalledWith('/repos/owner/repo/pulls', expect.objectContaining({ title: 'Sync', base: 'production' }), authHeaders);
+    });
+
+    it('should sign the commit and keep trailers, template and deletions in pull-request mode', async () => {
+      mockRepository([{ type: 'pull_request' }]);
+      const signer = { format: 'gpg' as const, sign: jest.fn().mockResolvedValue('-----BEGIN PGP SIGNATURE-----') };
+      const author = { name: 'Ada', email: 'ada@example.com' };
+
+      const result = await pullRequestService.exportToBranch('owner', 'repo', {
+        branch: 'production',
+        message: 'Sync',
+        messageTemplate: 'Deploy {project} to {environment}',
+        project: 'shop',
+        environment: 'prod',
+        files: [{ path: 'a.ts', content: 'a' }],
+        deletions: ['old.ts'],
+        author,
+        coAuthors: [{ name: 'Grace', email: 'grace@example.com' }],
+        signer
+      });
+
+      expect(result.mode).toBe('pull-request');
+      expect(signer.sign).toHaveBeenCalledTimes(1);
+      expect(mockHttpClient.post).toHaveBeenCalledWith('/repos/owner/repo/git/trees', expect.objectContaining({
+        tree: expect.arrayContaining([{ path: 'old.ts', mode: '100644', type: 'blob', sha: null }])
+      }), authHeaders);
+      expect(mockHttpClient.post).toHaveBeenCalledWith('/repos/owner/repo/git/commits', expect.objectContaining({
+        message: 'Deploy shop to prod\n\nCo-authored-by: Grace <grace@example.com>\n',
+        author: expect.objectContaining(author),
+        signature: '-----BEGIN PGP SIGNATURE-----'
+      }), authHeaders);
+    });
+
+    it('should fall back to a pull request when the direct push is rejected', async () => {
+      mockRepository([]);
+      mockHttpClient.patch.mockImplementation(async (path: string) => {
+        if (path.endsWith('/heads/production')) {
+          throw new GitHubApiError('HTTP 422: Unprocessable Entity - Protected branch update failed', 422, { message: 'Protected branch update failed' });
+        }
+        return {};
+      });
+
+      const result = await pullRequestService.exportToBranch('owner', 'repo', {
+        branch: 'production',
+        message: 'Sync',
+        title: 'Production sync',
+        files: [{ path: 'a.ts', content: 'a' }]
+      });
+
+      expect(result.mode).toBe('pull-request');
+      expect(mockHttpClient.post).toHaveBeenCalledWith('/repos/owner/repo/pulls', expect.objectContaining({ title: 'Production sync' }), authHeaders);
+    });
+
+    it.each([
+      ['a secondary rate limit', { message: 'You have exceeded a secondary rate limit' }, { 'retry-after': '60' }],
+      ['SSO enforcement', { message: 'Resource protected by organization SAML enforcement' }, {}],
+      ['a rate-limited protection message', { message: 'Protected branch update failed' }, { 'x-ratelimit-remaining': '0' }]
+    ])('should rethrow a 403 from %s instead of opening a pull request', async (_reason, body, headers) => {
+      mockRepository([]);
+      mockHttpClient.patch.mockImplementation(async (path: string) => {
+        if (path.endsWith('/heads/production')) {
+          throw new GitHubApiError(`HTTP 403: Forbidden - ${body.message}`, 403, body, undefined, headers);
+        }
+        return {};
+      });
+
+      await expect(pullRequestService.exportToBranch('owner', 'repo', {
+        branch: 'production',
+        message: 'Sync',
+        files: [{ path: 'a.ts', content: 'a' }]
+      })).rejects.toThrow(body.message);
+      expect(mockHttpClient.post).not.toHaveBeenCalledWith('/repos/owner/repo/pulls', expect.anything(), expect.anything());
+      expect(mockHttpClient.post).not.toHaveBeenCalledWith('/repos/owner/repo/git/refs', expect.anything(), expect.anything());
+    });
+
+    it('should skip the direct push and go through a fork without push access', async () => {
+      mockRepository([]);
+      const upstreamGet = mockHttpClient.get.getMockImplementation()!;
+      mockHttpClient.get.mockImplementation(async (path: string) => path === '/repos/owner/repo'
+        ? { default_branch: 'main', permissions: { admin: false, push: false, pull: true } }
+        : upstreamGet(path.replace('/repos/contributor/repo/', '/repos/owner/repo/')));
+      mockHttpClient.post.mockImplementation(async (path: string) => {
+        if (path.endsWith('/forks')) {
+          return { name: 'repo', owner: { login: 'contributor' }, default_branch: 'production' };
+        }
+        if (path.endsWith('/merge-upstream')) {
+          return { message: 'This branch is not behind the upstream owner:production.', merge_type: 'none', base_branch: 'owner:production' };
+        }
+        return path.endsWith('/pulls') ? { number: 4 } : { sha: 'sha' };
+      });
+
+      const result = await pullRequestService.exportToBranch('owner', 'repo', {
+        branch: 'production',
+        message: 'Sync',
+        files: [{ path: 'a.ts', content: 'a' }]
+      });
+
+      expect(result).toMatchObject({ mode: 'fork', pullRequest: { number: 4 }, fork: { owner: { login: 'contributor' } } });
+      expect(mockHttpClient.get).not.toHaveBeenCalledWith('/repos/owner/repo/rules/branches/production', authHeaders);
+      expect(mockHttpClient.patch).not.toHaveBeenCalledWith('/repos/owner/repo/git/refs/heads/production', expect.anything(), authHeaders);
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/repos/owner/repo/pulls',
+        expect.objectContaining({ head: expect.stringMatching(/^contributor:bolt-export\//), base: 'production' }),
+        authHeaders
+      );
+    });
+  });
+
+  describe('buildExportBody', () => {
+    it('should cap the number of listed files', () => {
+      const added = Array.from({ length: 250 }, (_, i) => ({ path: `f${i}.ts`, content: '' }));
+
+      const body = pullRequestService.buildExportBody({
+        branch: 'b', parentSha: 'p', baseTreeSha: 't', added, modified: [], deleted: ['old.ts'], unchanged: [], truncated: false
+      });
+
+      expect(body).toContain('- …and 50 more');
+      expect(body).toContain('### Deleted\n- …and 1 more');
+    });
+  });
+});
@@ -0,0 +1,283 @@
+// Release Service for tags, GitHub Releases and release assets
+import { HttpClient, AuthHeadersProvider, toQueryString } from '../../utils/http';
+import { nextSemverTag } from '../../utils/semver';
+import {
+  Tag,
+  GitIdentity,
+  GitReference,
+  Release,
+  ReleaseAsset,
+  ReleaseCreateParams,
+  ReleaseUpdateParams,
+  ReleaseAssetUpload,
+  SnapshotReleaseParams,
+  SnapshotReleaseResult,
+  ExportChangeSet
+} from '../types/github';
+import { GitDataService } from '../git/GitDataService';
+import { formatExportChanges } from '../files/ExportChangeFormatter';
+
+export class ReleaseService {
+  private git: GitDataService;
+
+  /**
+   * @param httpClient HTTP client for the REST API
+   * @param getAuthHeaders Authorization headers provider
+   * @param uploadsBaseUrl Base URL of the uploads endpoint used for release assets
+   */
+  constructor(
+    private httpClient: HttpClient,
+    private getAuthHeaders: AuthHeadersProvider,
+    private uploadsBaseUrl: string = 'https://uploads.github.com'
+  ) {
+    this.git = new GitDataService(httpClient, getAuthHeaders);
+  }
+
+  /**
+   * List all tags of a repository
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @returns Promise resolving to every tag, newest first as returned by GitHub
+   */
+  async listTags(owner: string, repo: string): Promise<Tag[]> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const tags: Tag[] = [];
+      for await (const tag of this.httpClient.paginate<Tag>(`/repos/${owner}/${repo}/tags${toQueryString({ per_page: 100 })}`, headers)) {
+        tags.push(tag);
+      }
+      return tags;
+    } catch (error) {
+      throw new Error(`Failed to list tags: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Create a lightweight tag (a bare refs/tags/ reference)
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param tag Tag name
+   * @param sha Commit SHA to tag
+   * @returns Promise resolving to the tag reference
+   */
+  async createLightweightTag(owner: string, repo: string, tag: string, sha: string): Promise<GitReference> {
+    try {
+      return await this.git.createRef(owner, repo, `refs/tags/${tag}`, sha);
+    } catch (error) {
+      throw new Error(`Failed to create tag: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Create an annotated tag (a tag object plus its refs/tags/ reference)
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param tag Tag name
+   * @param sha Commit SHA to tag
+   * @param message Tag message
+   * @param tagger Optional tagger identity
+   * @returns Promise resolving to the tag reference
+   */
+  async createAnnotatedTag(
+    owner: string,
+    repo: string,
+    tag: string,
+    sha: string,
+    message: string,
+    tagger?: GitIdentity
+  ): Promise<GitReference> {
+    try {
+      const tagObject = await this.git.createTag(owner, repo, tag, message, sha, tagger);
+      return await this.git.createRef(owner, repo, `refs/tags/${tag}`, tagObject.sha);
+    } catch (error) {
+      throw new Error(`Failed to create tag: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Create a release
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param params Tag, target, name, notes and draft/prerelease flags
+   * @returns Promise resolving to the created release
+   */
+  async create(owner: string, repo: string, params: ReleaseCreateParams): Promise<Release> {
+    try {
+      const headers = await this.getAuthHeaders();
+      return await this.httpClient.post(`/repos/${owner}/${repo}/releases`, params, headers);
+    } catch (error) {
+      throw new Error(`Failed to create release: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get a release by id
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param releaseId Release id
+   * @returns Promise resolving to the release
+   */
+  async get(owner: string, repo: string, releaseId: number): Promise<Release> {
+    try {
+      const headers = await this.getAuthHeaders();
+      return await this.httpClient.get(`/repos/${owner}/${repo}/releases/${releaseId}`, headers);
+    } catch (error) {
+      throw new Error(`Failed to get release: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the release for a tag
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param tag Tag name
+   * @returns Promise resolving to the release
+   */
+  async getByTag(owner: string, repo: string, tag: string): Promise<Release> {
+    try {
+      const headers = await this.getAuthHeaders();
+      return await this.httpClient.get(`/repos/${owner}/${repo}/releases/tags/${encodeURIComponent(tag)}`, headers);
+    } catch (error) {
+      throw new Error(`Failed to get release: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the latest published, non-prerelease release
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @returns Promise resolving to the release
+   */
+  async getLatest(owner: string, repo: string): Promise<Release> {
+    try {
+      const headers = await this.getAuthHeaders();
+      return await this.httpClient.get(`/repos/${owner}/${repo}/releases/latest`, headers);
+    } catch (error) {
+      throw new Error(`Failed to get latest release: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * List the first page of releases
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param perPage Page size
+   * @returns Promise resolving to array of releases
+   */
+  async list(owner: string, repo: string, perPage?: number): Promise<Release[]> {
+    try {
+      const headers = await this.getAuthHeaders();
+      return await this.httpClient.get(`/repos/${owner}/${repo}/releases${toQueryString({ per_page: perPage })}`, headers);
+    } catch (error) {
+      throw new Error(`Failed to list releases: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Update a release
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param releaseId Release id
+   * @param params Fields to change (e.g. draft: false to publish)
+   * @returns Promise resolving to the updated release
+   */
+  async update(owner: string, repo: string, releaseId: number, params: ReleaseUpdateParams): Promise<Release> {
+    try {
+      const headers = await this.getAuthHeaders();
+      return await this.httpClient.patch(`/repos/${owner}/${repo}/releases/${releaseId}`, params, headers);
+    } catch (error) {
+      throw new Error(`Failed to update release: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Delete a release; its tag is kept
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param releaseId Release id
+   * @returns Promise resolving when deletion is complete
+   */
+  async delete(owner: string, repo: string, releaseId: number): Promise<void> {
+    try {
+      const headers = await this.getAuthHeaders();
+      await this.httpClient.delete(`/repos/${owner}/${repo}/releases/${releaseId}`, headers);
+    } catch (error) {
+      throw new Error(`Failed to delete release: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Upload a release asset through the uploads endpoint
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param releaseId Release id
+   * @param asset File name, bytes, content type and label
+   * @returns Promise resolving to the uploaded asset
+   */
+  async uploadAsset(owner: string, repo: string, releaseId: number, asset: ReleaseAssetUpload): Promise<ReleaseAsset> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const contentType = asset.contentType || (asset.name.toLowerCase().endsWith('.zip') ? 'application/zip' : 'application/octet-stream');
+      const url = `${this.uploadsBaseUrl}/repos/${owner}/${repo}/releases/${releaseId}/assets` +
+        toQueryString({ name: asset.name, label: asset.label });
+      const response = await this.httpClient.send<ReleaseAsset>('POST', url, {
+        body: asset.data,
+        headers: { ...headers, 'Content-Type': contentType }
+      });
+      return response.data;
+    } catch (error) {
+      throw new Error(`Failed to upload release asset: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Tag an exported commit and publish it as a release, optionally attaching
+   * the original project ZIP. Without an explicit tag the next semver tag
+   * after the highest existing one is used.
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param params Commit, export changes, versioning, release and asset options
+   * @returns Promise resolving to the tag name, release and uploaded asset
+   */
+  async createSnapshot(owner: string, repo: string, params: SnapshotReleaseParams): Promise<SnapshotReleaseResult> {
+    try {
+      const tag = params.tag ||
+        nextSemverTag((await this.listTags(owner, repo)).map(existing => existing.name), params.bump, params.tagPrefix);
+      const notes = params.notes ?? this.buildReleaseNotes(tag, params.changes);
+
+      if (params.annotated === false) {
+        await this.createLightweightTag(owner, repo, tag, params.commitSha);
+      } else {
+        await this.createAnnotatedTag(owner, repo, tag, params.commitSha, `Snapshot ${tag}`, params.tagger);
+      }
+
+      const release = await this.create(owner, repo, {
+        tag_name: tag,
+        target_commitish: params.commitSha,
+        name: params.name || tag,
+        body: notes,
+        draft: params.draft,
+        prerelease: params.prerelease
+      });
+
+      const result: SnapshotReleaseResult = { tag, release };
+      if (params.asset) {
+        result.asset = await this.uploadAsset(owner, repo, release.id, params.asset);
+      }
+      return result;
+    } catch (error) {
+      throw new Error(`Failed to create snapshot release: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Generate release notes from the files an export changed
+   * @param tag Tag of the release
+   * @param changes Change set of the export
+   * @returns Markdown release notes
+   */
+  buildReleaseNotes(tag: string, changes?: ExportChangeSet): string {
+    const heading = `Snapshot ${tag} exported from Bolt.DIY.`;
+    return changes ? `${heading}\n\n${formatExportChanges(changes)}` : heading;
+  }
+}
@@ -0,0 +1,125 @@
+// London School TDD Unit Tests for ReleaseService
+import { ReleaseService } from '../ReleaseService';
+import { HttpClient } from '../../../utils/http';
+
+describe('ReleaseService (London School TDD)', () => {
+  let releaseService: ReleaseService;
+  let mockHttpClient: jest.Mocked<HttpClient>;
+  let mockGetAuthHeaders: jest.Mock;
+  const authHeaders = { 'Authorization': 'token test-token' };
+
+  beforeEach(() => {
+    mockHttpClient = {
+      get: jest.fn(),
+      post: jest.fn(),
+      patch: jest.fn(),
+      delete: jest.fn(),
+      send: jest.fn(),
+      paginate: jest.fn()
+    } as any;
+
+    mockGetAuthHeaders = jest.fn().mockReturnValue(authHeaders);
+
+    releaseService = new ReleaseService(mockHttpClient, mockGetAuthHeaders, 'https://ghe.acme.com/api/uploads');
+  });
+
+  describe('tags', () => {
+    it('should create a lightweight tag as a bare reference', async () => {
+      mockHttpClient.post.mockResolvedValue({ ref: 'refs/tags/v1.0.0' });
+
+      await releaseService.createLightweightTag('owner', 'repo', 'v1.0.0', 'c1');
+
+      expect(mockHttpClient.post).toHaveBeenCalledTimes(1);
+      expect(mockHttpClient.post).toHaveBeenCalledWith('/repos/owner/repo/git/refs', { ref: 'refs/tags/v1.0.0', sha: 'c1' }, authHeaders);
+    });
+
+    it('should point the reference of an annotated tag at the tag object', async () => {
+      mockHttpClient.post
+        .mockResolvedValueOnce({ sha: 'tagobj1' })
+        .mockResolvedValueOnce({ ref: 'refs/tags/v1.0.0' });
+
+      await releaseService.createAnnotatedTag('owner', 'repo', 'v1.0.0', 'c1', 'Release v1.0.0');
+
+      expect(mockHttpClient.post).toHaveBeenNthCalledWith(
+        1,
+        '/repos/owner/repo/git/tags',
+        { tag: 'v1.0.0', message: 'Release v1.0.0', object: 'c1', type: 'commit' },
+        authHeaders
+      );
+      expect(mockHttpClient.post).toHaveBeenNthCalledWith(2, '/repos/owner/repo/git/refs', { ref: 'refs/tags/v1.0.0', sha: 'tagobj1' }, authHeaders);
+    });
+  });
+
+  describe('uploadAsset', () => {
+    it('should upload raw bytes to the uploads endpoint', async () => {
+      mockHttpClient.send.mockResolvedValue({ status: 201, data: { id: 9, name: 'project.zip' }, headers: {} });
+      const data = Buffer.from('PK');
+
+      const asset = await releaseService.uploadAsset('owner', 'repo', 5, { name: 'project.zip', data });
+
+      expect(mockHttpClient.send).toHaveBeenCalledWith(
+        'POST',
+        'https://ghe.acme.com/api/uploads/repos/owner/repo/releases/5/assets?name=project.zip',
+        { body: data, headers: { ...authHeaders, 'Content-Type': 'application/zip' } }
+      );
+      expect(asset.id).toBe(9);
+    });
+  });
+
+  describe('createSnapshot', () => {
+    it('should tag the next patch version, write release notes and attach the project ZIP', async () => {
+      mockHttpClient.paginate.mockImplementation(async function* () {
+        yield { name: 'v0.1.0' };
+        yield { name: 'v0.1.1' };
+      } as any);
+      mockHttpClient.post.mockImplementation(async (path: string) => {
+        if (path.endsWith('/git/tags')) {
+          return { sha: 'tagobj1' };
+        }
+        if (path.endsWith('/releases')) {
+          return { id: 5, tag_name: 'v0.1.2' };
+        }
+        return {};
+      });
+      mockHttpClient.send.mockResolvedValue({ status: 201, data: { id: 9 }, headers: {} });
+
+      const result = await releaseService.createSnapshot('owner', 'repo', {
+        commitSha: 'c1',
+        changes: {
+          branch: 'main', parentSha: 'p', baseTreeSha: 't', truncated: false,
+          added: [{ path: 'src/new.ts', content: '' }], modified: [], deleted: [], unchanged: []
+        },
+        asset: { name: 'project.zip', data: Buffer.from('PK') }
+      });
+
+      expect(mockHttpClient.paginate).toHaveBeenCalledWith('/repos/owner/repo/tags?per_page=100', authHeaders);
+      expect(mockHttpClient.post).toHaveBeenCalledWith('/repos/owner/repo/releases', {
+        tag_name: 'v0.1.2',
+        target_commitish: 'c1',
+        name: 'v0.1.2',
+        body: 'Snapshot v0.1.2 exported from Bolt.DIY.\n\n**1 added, 0 modified, 0 deleted**\n\n### Added\n- `src/new.ts`',
+        draft: undefined,
+        prerelease: undefined
+      }, authHeaders);
+      expect(result).toEqual({ tag: 'v0.1.2', release: { id: 5, tag_name: 'v0.1.2' }, asset: { id: 9 } });
+    });
+
+    it('should use an explicit tag without listing existing ones', async () => {
+      mockHttpClient.post.mockResolvedValue({ id: 5 });
+
+      const result = await releaseService.createSnapshot('owner', 'repo', { commitSha: 'c1', tag: 'v2.0.0', annotated: false });
+
+      expect(mockHttpClient.paginate).not.toHaveBeenCalled();
+      expect(mockHttpClient.post).toHaveBeenCalledWith('/repos/owner/repo/git/refs', { ref: 'refs/tags/v2.0.0', sha: 'c1' }, authHeaders);
+      expect(result.tag).toBe('v2.0.0');
+    });
+
+    it('should wrap errors', async () => {
+      mockHttpClient.post.mockRejectedValue(new Error('HTTP 422: Unprocessable Entity - Reference already exists'));
+
+      await expect(releaseService.createSnapshot('owner', 'repo', { commitSha: 'c1', tag: 'v1.0.0' })).rejects.toThrow(
+        'Failed to create snapshot release: Failed to create tag: Failed to create tag: HTTP 422: Unprocessable Entity - Reference already exists'
+      );
+    });
+  });
+});
@@ -1,37 +1,205 @@
 // Repository Service
-import { HttpClient } from '../../utils/http';
-import { Repository } from '../types/github';
+import { HttpClient, AuthHeadersProvider, toQueryString } from '../../utils/http';
+import { sleep } from '../../utils/retry';
+import {
+  Repository,
+  RepositoryListOptions,
+  RepositoryCreateParams,
+  RepositoryForkParams,
+  ForkSyncResult,
+  LicenseDetails,
+  RepositoryBootstrapParams,
+  RepositoryBootstrapResult
+} from '../types/github';
+import { BranchService } from '../branches/BranchService';
+import { FileService } from '../files/FileService';
+import { StarterFileGenerator } from './StarterFileGenerator';
+
+// Repositories generated from templates and forks are populated asynchronously
+const BRANCH_READY_ATTEMPTS = 5;
+const BRANCH_READY_DELAY_MS = 500;
 
 export class RepositoryService {
-  constructor(private httpClient: HttpClient, private getAuthHeaders: () => Record<string, string>) {}
+  private branches: BranchService;
+  private files: FileService;
+  private starterFiles: StarterFileGenerator;
+
+  constructor(private httpClient: HttpClient, private getAuthHeaders: AuthHeadersProvider) {
+    this.branches = new BranchService(httpClient, getAuthHeaders);
+    this.files = new FileService(httpClient, getAuthHeaders);
+    this.starterFiles = new StarterFileGenerator();
+  }
 
   /**
-   * List repositories for the authenticated user
+   * List the first page of repositories for the authenticated user or an organization
+   * @param options Listing filters, sorting and page size
    * @returns Promise resolving to array of repositories
    */
-  async list(): Promise<Repository[]> {
+  async list(options: RepositoryListOptions = {}): Promise<Repository[]> {
     try {
-      const headers = this.getAuthHeaders();
-      return await this.httpClient.get('/user/repos', headers);
+      const headers = await this.getAuthHeaders();
+      return await this.httpClient.get(this.buildListPath(options), headers);
     } catch (error) {
       throw new Error(`Failed to list repositories: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Create a new repository
+   * Iterate over all repositories, following pagination links
+   * @param options Listing filters, sorting and page size
+   * @returns Async iterator over every repository
+   */
+  async *iterate(options: RepositoryListOptions = {}): AsyncGenerator<Repository, void, undefined> {
+    try {
+      const headers = await this.getAuthHeaders();
+      yield* this.httpClient.paginate<Repository>(this.buildListPath(options), headers);
+    } catch (error) {
+      throw new Error(`Failed to list repositories: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * List all repositories across every page
+   * @param options Listing filters, sorting and page size
+   * @returns Promise resolving to array of all repositories
+   */
+  async listAll(options: RepositoryListOptions = {}): Promise<Repository[]> {
+    const repositories: Repository[] = [];
+    for await (const repository of this.iterate(options)) {
+      repositories.push(repository);
+    }
+    return repositories;
+  }
+
+  /**
+   * Create a new repository for the authenticated user or an organization,
+   * optionally generated from a template repository
    * @param params Repository creation parameters
    * @returns Promise resolving to the created repository
    */
-  async create(params: { name: string; [key: string]: any }): Promise<Repository> {
+  async create(params: RepositoryCreateParams): Promise<Repository> {
     try {
-      const headers = this.getAuthHeaders();
-      return await this.httpClient.post('/user/repos', params, headers);
+      const headers = await this.getAuthHeaders();
+      const { org, topics, template, ...body } = params;
+
+      let repository: Repository;
+      if (template) {
+        repository = await this.httpClient.post(`/repos/${template.owner}/${template.repo}/generate`, {
+          owner: org,
+          name: body.name,
+          description: body.description,
+          private: body.private ?? (body.visibility ? body.visibility !== 'public' : undefined),
+          include_all_branches: template.include_all_branches
+        }, headers);
+
+        // The generate endpoint ignores these, so apply them the way a plain create would
+        const { homepage, has_issues, has_projects, has_wiki } = body;
+        const settings = Object.fromEntries(
+          Object.entries({ homepage, has_issues, has_projects, has_wiki }).filter(([, value]) => value !== undefined)
+        );
+        if (Object.keys(settings).length > 0) {
+          repository = await this.httpClient.patch(`/repos/${repository.owner.login}/${repository.name}`, settings, headers);
+        }
+      } else {
+        repository = await this.httpClient.post(org ? `/orgs/${org}/repos` : '/user/repos', body, headers);
+      }
+
+      if (topics && topics.length > 0) {
+        repository.topics = await this.replaceTopics(repository.owner.login, repository.name, topics);
+      }
+
+      return repository;
     } catch (error) {
       throw new Error(`Failed to create repository: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Replace all topics of a repository
+   * @param owner Repository owner
+   * @param repo Repository name
+   * @param topics Topic names (lowercase, hyphenated)
+   * @returns Promise resolving to the repository's topics
+   */
+  async replaceTopics(owner: string, repo: string, topics: string[]): Promise<string[]> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const response = await this.httpClient.put(`/repos/${owner}/${repo}/topics`, { names: topics }, headers);
+      return response.names;
+    } catch (error) {
+      throw new Error(`Failed to replace topics: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get a license template by SPDX id
+   * @param spdxId License SPDX id (e.g. 'MIT')
+   * @returns Promise resolving to the license, including its body
+   */
+  async getLicense(spdxId: string): Promise<LicenseDetails> {
+    try {
+      const headers = await this.getAuthHeaders();
+      return await this.httpClient.get(`/licenses/${encodeURIComponent(spdxId.toLowerCase())}`, headers);
+    } catch (error) {
+      throw new Error(`Failed to get license: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Create a repository and commit the first export to it, together with any
+   * generated starter files, as a single commit on the default branch.
+   * Repositories that are not generated from a template are auto-initialized,
+   * because the Git Data API cannot commit to an empty repository.
+   * @param params Repository settings, project metadata, files and starter file options
+   * @returns Promise resolving to the repository, the commit and the generated file paths
+   */
+  async bootstrap(params: RepositoryBootstrapParams): Promise<RepositoryBootstrapResult> {
+    try {
+      const repository = await this.create({
+        description: params.project.description,
+        homepage: params.project.homepage,
+        ...params.repository,
+        auto_init: params.repository.template ? undefined : true
+      });
+      const owner = repository.owner.login;
+
+      const options = params.starterFiles || {};
+      const licenseText = options.license ? (await this.getLicense(options.license)).body : undefined;
+      const starterFiles = this.starterFiles.generate(
+        { ...params.project, author: params.project.author || owner },
+        options,
+        params.files,
+        licenseText
+      );
+
+      await this.waitForBranch(owner, repository.name, repository.default_branch);
+
+      const exported = await this.files.exportIncremental(owner, repository.name, {
+        branch: repository.default_branch,
+        message: params.message || 'Initial export from Bolt.DIY',
+        files: [...params.files, ...starterFiles],
+        // Keep whatever the template or auto-init created unless the export replaces it
+        deleteMissing: false,
+        author: params.author,
+        committer: params.committer,
+        coAuthors: params.coAuthors,
+        signer: params.signer,
+        messageTemplate: params.messageTemplate,
+        project: params.project.name,
+        environment: params.environment
+      });
+
+      return {
+        repository,
+        changes: exported.changes,
+        commit: exported.commit,
+        starterFiles: starterFiles.map(file => file.path)
+      };
+    } catch (error) {
+      throw new Error(`Failed to bootstrap repository: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Get a specific repository
    * @param owner Repository owner
@@ -40,13 +208,48 @@ export class RepositoryService {
    */
   async get(owner: string, repo: string): Promise<Repository> {
     try {
-      const headers = this.getAuthHeaders();
+      const headers = await this.getAuthHeaders();
       return await this.httpClient.get(`/repos/${owner}/${repo}`, headers);
     } catch (error) {
       throw new Error(`Failed to get repository: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Fork a repository and wait until the fork's default branch can be read.
+   * If the authenticated user already has a fork, GitHub returns that fork.
+   * @param owner Owner of the repository to fork
+   * @param repo Name of the repository to fork
+   * @param params Target organization, fork name and whether to copy only the default branch
+   * @returns Promise resolving to the fork
+   */
+  async fork(owner: string, repo: string, params: RepositoryForkParams = {}): Promise<Repository> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const fork: Repository = await this.httpClient.post(`/repos/${owner}/${repo}/forks`, params, headers);
+      await this.waitForBranch(fork.owner.login, fork.name, fork.default_branch);
+      return fork;
+    } catch (error) {
+      throw new Error(`Failed to fork repository: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Bring a branch of a fork up to date with the same branch upstream
+   * @param owner Fork owner
+   * @param repo Fork name
+   * @param branch Branch to sync
+   * @returns Promise resolving to how the branch was updated
+   */
+  async syncFork(owner: string, repo: string, branch: string): Promise<ForkSyncResult> {
+    try {
+      const headers = await this.getAuthHeaders();
+      return await this.httpClient.post(`/repos/${owner}/${repo}/merge-upstream`, { branch }, headers);
+    } catch (error) {
+      throw new Error(`Failed to sync fork: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Delete a repository
    * @param owner Repository owner
@@ -55,10 +258,30 @@ export class RepositoryService {
    */
   async delete(owner: string, repo: string): Promise<void> {
     try {
-      const headers = this.getAuthHeaders();
+      const headers = await this.getAuthHeaders();
       await this.httpClient.delete(`/repos/${owner}/${repo}`, headers);
     } catch (error) {
       throw new Error(`Failed to delete repository: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
-}
\ No newline at end of file
+
+  private async waitForBranch(owner: string, repo: string, branch: string): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.branches.get(owner, repo, branch);
+        return;
+      } catch (error) {
+        if (attempt + 1 >= BRANCH_READY_ATTEMPTS) {
+          throw error;
+        }
+        await sleep(BRANCH_READY_DELAY_MS * 2 ** attempt);
+      }
+    }
+  }
+
+  private buildListPath(options: RepositoryListOptions): string {
+    const { org, ...params } = options;
+    const base = org ? `/orgs/${org}/repos` : '/user/repos';
+    return `${base}${toQueryString(params)}`;
+  }
+}
@@ -0,0 +1,179 @@
+// Starter File Generator for newly created repositories
+import { ExportFile, ProjectMetadata, ProjectStack, StarterFileOptions } from '../types/github';
+
+const COMMON_IGNORES = ['.DS_Store', 'Thumbs.db', '*.log', '.env', '.env.*', '!.env.example'];
+
+const STACK_IGNORES: Record<ProjectStack, string[]> = {
+  node: ['node_modules/', 'dist/', 'build/', 'coverage/', 'npm-debug.log*', 'yarn-debug.log*', 'yarn-error.log*'],
+  vite: ['node_modules/', 'dist/', 'dist-ssr/', 'coverage/', '*.local', 'npm-debug.log*'],
+  nextjs: ['node_modules/', '.next/', 'out/', 'build/', 'coverage/', '.vercel/', 'next-env.d.ts', '*.tsbuildinfo'],
+  python: ['__pycache__/', '*.py[cod]', '.venv/', 'venv/', 'build/', 'dist/', '*.egg-info/', '.pytest_cache/'],
+  static: []
+};
+
+export class StarterFileGenerator {
+  /**
+   * Detect the project stack from the exported files
+   * @param files Files of the exported project
+   * @returns Detected stack; 'static' when nothing more specific matches
+   */
+  detectStack(files: ExportFile[]): ProjectStack {
+    const packageJson = files.find(file => file.path === 'package.json');
+    if (packageJson) {
+      const dependencies = this.readDependencies(packageJson);
+      if (dependencies.includes('next')) {
+        return 'nextjs';
+      }
+      if (dependencies.includes('vite')) {
+        return 'vite';
+      }
+      return 'node';
+    }
+
+    if (files.some(file => file.path === 'requirements.txt' || file.path === 'pyproject.toml')) {
+      return 'python';
+    }
+
+    return 'static';
+  }
+
+  /**
+   * Generate the requested starter files, skipping any path the export already contains
+   * @param project Project metadata used for the README and LICENSE
+   * @param options Which starter files to generate
+   * @param files Files of the exported project
+   * @param licenseText License template (e.g. from RepositoryService.getLicense) when options.license is set
+   * @returns Generated files
+   */
+  generate(
+    project: ProjectMetadata,
+    options: StarterFileOptions,
+    files: ExportFile[] = [],
+    licenseText?: string
+  ): ExportFile[] {
+    const stack = options.stack || this.detectStack(files);
+    const generated: ExportFile[] = [];
+
+    if (options.readme) {
+      generated.push({ path: 'README.md', content: this.buildReadme(project, stack, options.license) });
+    }
+    if (options.gitignore) {
+      generated.push({ path: '.gitignore', content: this.buildGitignore(stack) });
+    }
+    if (options.license && licenseText) {
+      generated.push({ path: 'LICENSE', content: this.fillLicense(licenseText, project) });
+    }
+    if (options.ci) {
+      const workflow = this.buildCiWorkflow(stack, files);
+      if (workflow) {
+        generated.push({ path: '.github/workflows/ci.yml', content: workflow });
+      }
+    }
+
+    const existing = new Set(files.map(file => file.path));
+    return generated.filter(file => !existing.has(file.path));
+  }
+
+  private buildReadme(project: ProjectMetadata, stack: ProjectStack, license?: string): string {
+    const lines = [`# ${project.name}`, ''];
+    if (project.description) {
+      lines.push(project.description, '');
+    }
+    if (project.homepage) {
+      lines.push(`**Live site:** ${project.homepage}`, '');
+    }
+
+    lines.push('Exported from [Bolt.DIY](https://github.com/stackblitz-labs/bolt.diy).', '');
+
+    const commands: Record<ProjectStack, string[]> = {
+      node: ['npm install', 'npm start'],
+      vite: ['npm install', 'npm run dev'],
+      nextjs: ['npm install', 'npm run dev'],
+      python: ['pip install -r requirements.txt'],
+      static: []
+    };
+    lines.push('## Getting started', '');
+    if (commands[stack].length > 0) {
+      lines.push('```bash', ...commands[stack], '```', '');
+    } else {
+      lines.push('Open `index.html` in a browser.', '');
+    }
+
+    if (license) {
+      lines.push('## License', '', `Released under the ${license} license. See [LICENSE](LICENSE).`, '');
+    }
+
+    return lines.join('\n');
+  }
+
+  private buildGitignore(stack: ProjectStack): string {
+    return [...STACK_IGNORES[stack], ...COMMON_IGNORES].join('\n') + '\n';
+  }
+
+  private fillLicense(text: string, project: ProjectMetadata): string {
+    const year = String(new Date().getFullYear());
+    const holder = project.author || project.name;
+    return text
+      .replace(/\[year\]|\[yyyy\]/g, year)
+      .replace(/\[fullname\]|\[name of copyright owner\]/g, holder);
+  }
+
+  private buildCiWorkflow(stack: ProjectStack, files: ExportFile[]): string | null {
+    const header = [
+      'name: CI',
+      '',
+      'on:',
+      '  push:',
+      '  pull_request:',
+      '',
+      'jobs:',
+      '  build:',
+      '    runs-on: ubuntu-latest',
+      '    steps:',
+      '      - uses: actions/checkout@v4'
+    ];
+
+    if (stack === 'static') {
+      return null;
+    }
+
+    if (stack === 'python') {
+      const install = files.some(file => file.path === 'requirements.txt')
+        ? 'pip install -r requirements.txt'
+        : 'pip install .';
+      return [
+        ...header,
+        '      - uses: actions/setup-python@v5',
+        '        with:',
+        "          python-version: '3.12'",
+        `      - run: ${install}`,
+        '      - run: python -m compileall -q .'
+      ].join('\n') + '\n';
+    }
+
+    // setup-node's npm cache and `npm ci` both need a lockfile
+    const hasLockfile = files.some(file => file.path === 'package-lock.json');
+    return [
+      ...header,
+      '      - uses: actions/setup-node@v4',
+      '        with:',
+      '          node-version: 20',
+      ...(hasLockfile ? ['          cache: npm'] : []),
+      `      - run: ${hasLockfile ? 'npm ci' : 'npm install'}`,
+      '      - run: npm run build --if-present',
+      '      - run: npm test --if-present'
+    ].join('\n') + '\n';
+  }
+
+  private readDependencies(packageJson: ExportFile): string[] {
+    try {
+      const content = packageJson.encoding === 'base64'
+        ? Buffer.from(packageJson.content, 'base64').toString('utf8')
+        : packageJson.content;
+      const manifest = JSON.parse(content);
+      return [...Object.keys(manifest.dependencies || {}), ...Object.keys(manifest.devDependencies || {})];
+    } catch {
+      return [];
+    }
+  }
+}
@@ -12,7 +12,8 @@ describe('RepositoryService (London School TDD)', () => {
     mockHttpClient = {
       get: jest.fn(),
       post: jest.fn(),
-      delete: jest.fn()
+      delete: jest.fn(),
+      paginate: jest.fn()
     } as any;
 
     mockGetAuthHeaders = jest.fn().mockReturnValue({ 'Authorization': 'token test-token' });
@@ -47,6 +48,41 @@ describe('RepositoryService (London School TDD)', () => {
     });
   });
 
+  describe('pagination', () => {
+    async function* pages(items: Repository[]) {
+      yield* items;
+    }
+
+    it('should pass listing options as query parameters', async () => {
+      mockHttpClient.get.mockResolvedValue([]);
+
+      await repositoryService.list({ per_page: 100, affiliation: 'owner,collaborator', visibility: 'private', sort: 'updated' });
+
+      expect(mockHttpClient.get).toHaveBeenCalledWith(
+        '/user/repos?per_page=100&affiliation=owner%2Ccollaborator&visibility=private&sort=updated',
+        { 'Authorization': 'token test-token' }
+      );
+    });
+
+    it('should list all organization repositories across pages', async () => {
+      const repositories = [{ id: 1, name: 'a' }, { id: 2, name: 'b' }, { id: 3, name: 'c' }] as Repository[];
+      mockHttpClient.paginate.mockReturnValue(pages(repositories));
+
+      const result = await repositoryService.listAll({ org: 'acme', per_page: 2 });
+
+      expect(mockHttpClient.paginate).toHaveBeenCalledWith('/orgs/acme/repos?per_page=2', { 'Authorization': 'token test-token' });
+      expect(result).toEqual(repositories);
+    });
+
+    it('should wrap pagination errors', async () => {
+      mockHttpClient.paginate.mockImplementation(async function* () {
+        throw new Error('HTTP 500: Internal Server Error');
+      });
+
+      await expect(repositoryService.listAll()).rejects.toThrow('Failed to list repositories: HTTP 500: Internal Server Error');
+    });
+  });
+
   describe('create', () => {
     it('should call httpClient.post with correct parameters', async () => {
       // Arrange
@@ -74,6 +110,64 @@ describe('RepositoryService (London School TDD)', () => {
       // Act & Assert
       await expect(repositoryService.create(createParams)).rejects.toThrow('Failed to create repository: Invalid repository name');
     });
+
+    it('should create organization repositories and apply topics', async () => {
+      mockHttpClient.post.mockResolvedValue({ name: 'site', owner: { login: 'acme' }, topics: [] } as any);
+      mockHttpClient.put = jest.fn().mockResolvedValue({ names: ['bolt', 'web'] });
+
+      const result = await repositoryService.create({ name: 'site', org: 'acme', visibility: 'internal', topics: ['bolt', 'web'] });
+
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/orgs/acme/repos',
+        { name: 'site', visibility: 'internal' },
+        { 'Authorization': 'token test-token' }
+      );
+      expect(mockHttpClient.put).toHaveBeenCalledWith(
+        '/repos/acme/site/topics',
+        { names: ['bolt', 'web'] },
+        { 'Authorization': 'token test-token' }
+      );
+      expect(result.topics).toEqual(['bolt', 'web']);
+    });
+
+    it('should generate from a template repository', async () => {
+      mockHttpClient.post.mockResolvedValue({ name: 'site', owner: { login: 'acme' } } as any);
+      mockHttpClient.patch = jest.fn();
+
+      await repositoryService.create({
+        name: 'site',
+        org: 'acme',
+        visibility: 'private',
+        template: { owner: 'acme', repo: 'starter' }
+      });
+
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/repos/acme/starter/generate',
+        { owner: 'acme', name: 'site', private: true },
+        { 'Authorization': 'token test-token' }
+      );
+      expect(mockHttpClient.patch).not.toHaveBeenCalled();
+    });
+
+    it('should apply the homepage and features after generating from a template', async () => {
+      mockHttpClient.post.mockResolvedValue({ name: 'site', owner: { login: 'acme' } } as any);
+      mockHttpClient.patch = jest.fn().mockResolvedValue({ name: 'site', owner: { login: 'acme' }, homepage: 'https://site.example.com' });
+
+      const result = await repositoryService.create({
+        name: 'site',
+        org: 'acme',
+        homepage: 'https://site.example.com',
+        has_wiki: false,
+        template: { owner: 'acme', repo: 'starter' }
+      });
+
+      expect(mockHttpClient.patch).toHaveBeenCalledWith(
+        '/repos/acme/site',
+        { homepage: 'https://site.example.com', has_wiki: false },
+        { 'Authorization': 'token test-token' }
+      );
+      expect(result.homepage).toBe('https://site.example.com');
+    });
   });
 
   describe('get', () => {
@@ -99,6 +193,26 @@ describe('RepositoryService (London School TDD)', () => {
     });
   });
 
+  describe('forks', () => {
+    it('should fork and wait for the fork to become available', async () => {
+      mockHttpClient.post.mockResolvedValue({ name: 'repo', owner: { login: 'contributor' }, default_branch: 'main' });
+      mockHttpClient.get.mockResolvedValue({ name: 'main', commit: { sha: 'abc' } });
+
+      const fork = await repositoryService.fork('owner', 'repo', { default_branch_only: true });
+
+      expect(mockHttpClient.post).toHaveBeenCalledWith('/repos/owner/repo/forks', { default_branch_only: true }, { 'Authorization': 'token test-token' });
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/repos/contributor/repo/branches/main', { 'Authorization': 'token test-token' });
+      expect(fork.owner.login).toBe('contributor');
+    });
+
+    it('should sync a fork branch with upstream', async () => {
+      mockHttpClient.post.mockRejectedValue(new Error('HTTP 409: Conflict'));
+
+      await expect(repositoryService.syncFork('contributor', 'repo', 'main')).rejects.toThrow('Failed to sync fork: HTTP 409: Conflict');
+      expect(mockHttpClient.post).toHaveBeenCalledWith('/repos/contributor/repo/merge-upstream', { branch: 'main' }, { 'Authorization': 'token test-token' });
+    });
+  });
+
   describe('delete', () => {
     it('should call httpClient.delete with correct path and headers', async () => {
       // Arrange
@@ -119,4 +233,51 @@ describe('RepositoryService (London School TDD)', () => {
       await expect(repositoryService.delete('owner', 'repo')).rejects.toThrow('Failed to delete repository: Permission denied');
     });
   });
-});
\ No newline at end of file
+
+  describe('bootstrap', () => {
+    it('should create an auto-initialized repository and commit the export with starter files', async () => {
+      mockHttpClient.post.mockImplementation(async (path: string) => {
+        if (path === '/user/repos') {
+          return { name: 'site', owner: { login: 'octocat' }, default_branch: 'main' };
+        }
+        return { sha: path.endsWith('/git/commits') ? 'commit1' : 'sha' };
+      });
+      mockHttpClient.patch = jest.fn().mockResolvedValue({});
+      mockHttpClient.get.mockImplementation(async (path: string) => {
+        switch (path) {
+          case '/licenses/mit':
+            return { spdx_id: 'MIT', body: 'Copyright (c) [year] [fullname]' };
+          case '/repos/octocat/site/branches/main':
+            return { name: 'main', commit: { sha: 'init1' } };
+          case '/repos/octocat/site/git/ref/heads/main':
+            return { object: { sha: 'init1' } };
+          case '/repos/octocat/site/git/commits/init1':
+            return { sha: 'init1', tree: { sha: 'tree1' } };
+          case '/repos/octocat/site/git/trees/tree1?recursive=1':
+            return { sha: 'tree1', truncated: false, tree: [{ path: 'README.md', mode: '100644', type: 'blob', sha: 'auto' }] };
+          default:
+            throw new Error(`Unexpected GET ${path}`);
+        }
+      });
+
+      const result = await repositoryService.bootstrap({
+        repository: { name: 'site', private: true },
+        project: { name: 'Site', description: 'A Bolt.DIY site' },
+        files: [{ path: 'index.html', content: '<h1>Hi</h1>' }],
+        starterFiles: { readme: true, gitignore: true, license: 'MIT' }
+      });
+
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/user/repos',
+        { name: 'site', private: true, description: 'A Bolt.DIY site', auto_init: true },
+        { 'Authorization': 'token test-token' }
+      );
+      expect(result.starterFiles).toEqual(['README.md', '.gitignore', 'LICENSE']);
+      expect(result.commit).toMatchObject({ commitSha: 'commit1', filesCommitted: 4, filesDeleted: 0 });
+      const blobContents = mockHttpClient.post.mock.calls
+        .filter(([path]) => path.endsWith('/git/blobs'))
+        .map(([, body]) => body.content);
+      expect(blobContents).toContain(`Copyright (c) ${new Date().getFullYear()} octocat`);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+// Unit Tests for StarterFileGenerator
+import { StarterFileGenerator } from '../StarterFileGenerator';
+
+describe('StarterFileGenerator', () => {
+  let generator: StarterFileGenerator;
+
+  beforeEach(() => {
+    generator = new StarterFileGenerator();
+  });
+
+  describe('detectStack', () => {
+    it('should detect the stack from package.json dependencies and Python manifests', () => {
+      const pkg = (deps: Record<string, string>) => ({ path: 'package.json', content: JSON.stringify({ devDependencies: deps }) });
+
+      expect(generator.detectStack([pkg({ next: '14.0.0' })])).toBe('nextjs');
+      expect(generator.detectStack([pkg({ vite: '5.0.0' })])).toBe('vite');
+      expect(generator.detectStack([pkg({})])).toBe('node');
+      expect(generator.detectStack([{ path: 'requirements.txt', content: 'flask' }])).toBe('python');
+      expect(generator.detectStack([{ path: 'index.html', content: '' }])).toBe('static');
+      expect(generator.detectStack([{ path: 'package.json', content: '{not json' }])).toBe('node');
+    });
+  });
+
+  describe('generate', () => {
+    const project = { name: 'Site', description: 'A site', author: 'Jane Doe' };
+    const viteFiles = [
+      { path: 'package.json', content: JSON.stringify({ devDependencies: { vite: '5.0.0' } }) },
+      { path: 'package-lock.json', content: '{}' }
+    ];
+
+    it('should generate stack-specific starter files', () => {
+      const files = generator.generate(project, { readme: true, gitignore: true, ci: true, license: 'MIT' }, viteFiles, 'Copyright [year] [fullname]');
+      const byPath = Object.fromEntries(files.map(file => [file.path, file.content]));
+
+      expect(Object.keys(byPath)).toEqual(['README.md', '.gitignore', 'LICENSE', '.github/workflows/ci.yml']);
+      expect(byPath['README.md']).toContain('# Site\n\nA site');
+      expect(byPath['README.md']).toContain('npm run dev');
+      expect(byPath['README.md']).toContain('Released under the MIT license');
+      expect(byPath['.gitignore']).toContain('dist-ssr/');
+      expect(byPath['LICENSE']).toBe(`Copyright ${new Date().getFullYear()} Jane Doe`);
+      expect(byPath['.github/workflows/ci.yml']).toContain('cache: npm');
+      expect(byPath['.github/workflows/ci.yml']).toContain('- run: npm ci');
+    });
+
+    it('should never replace files the export already contains', () => {
+      const files = generator.generate(project, { readme: true, gitignore: true }, [{ path: 'README.md', content: 'mine' }]);
+
+      expect(files.map(file => file.path)).toEqual(['.gitignore']);
+    });
+
+    it('should skip CI for static sites and honour an explicit stack', () => {
+      expect(generator.generate(project, { ci: true }, [])).toEqual([]);
+      const [workflow] = generator.generate(project, { ci: true, stack: 'python' }, []);
+      expect(workflow.content).toContain('pip install .');
+    });
+  });
+});
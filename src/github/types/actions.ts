@@ -0,0 +1,68 @@
+// GitHub Actions Types
+import type { WorkflowRun, WorkflowRunStatus } from './webhook';
+
+export type WorkflowState = 'active' | 'deleted' | 'disabled_fork' | 'disabled_inactivity' | 'disabled_manually';
+
+export interface Workflow {
+  id: number;
+  node_id: string;
+  name: string;
+  path: string; // e.g. .github/workflows/ci.yml
+  state: WorkflowState;
+  html_url: string;
+  badge_url: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WorkflowStep {
+  name: string;
+  number: number;
+  status: WorkflowRunStatus;
+  conclusion: string | null;
+  started_at?: string | null;
+  completed_at?: string | null;
+}
+
+export interface WorkflowJob {
+  id: number;
+  run_id: number;
+  name: string;
+  status: WorkflowRunStatus;
+  conclusion: string | null;
+  html_url: string;
+  started_at: string | null;
+  completed_at: string | null;
+  steps?: WorkflowStep[];
+}
+
+export interface WorkflowRunListOptions {
+  branch?: string;
+  event?: string; // e.g. workflow_dispatch, push
+  status?: WorkflowRunStatus | 'success' | 'failure';
+  head_sha?: string;
+  per_page?: number;
+}
+
+export interface WorkflowRunProgress {
+  run: WorkflowRun;
+  jobs: WorkflowJob[];
+}
+
+export interface WorkflowRunWaitOptions {
+  pollInterval?: number; // Milliseconds between polls
+  timeout?: number; // Milliseconds before giving up on the run
+  onProgress?: (progress: WorkflowRunProgress) => void;
+}
+
+export interface WorkflowDispatchParams extends WorkflowRunWaitOptions {
+  workflow: number | string; // Workflow id or file name, e.g. 'deploy.yml'
+  ref: string; // Branch or tag the workflow runs on
+  inputs?: Record<string, string | number | boolean>;
+}
+
+export interface WorkflowRunResult extends WorkflowRunProgress {
+  conclusion: string | null;
+  success: boolean; // conclusion === 'success'
+  duration: number; // Milliseconds from dispatch to completion
+}
@@ -0,0 +1,45 @@
+// Repository Bootstrap Types
+import type { Repository, RepositoryCreateParams, License } from './github';
+import type { ExportFile, ExportChangeSet, CommitFilesResult, GitIdentity, CommitSigner, ExportCommitMessageOptions } from './git';
+
+export type ProjectStack = 'node' | 'vite' | 'nextjs' | 'python' | 'static';
+
+export interface ProjectMetadata {
+  name: string;
+  description?: string;
+  homepage?: string;
+  author?: string; // Copyright holder for the LICENSE; defaults to the repository owner
+}
+
+export interface StarterFileOptions {
+  readme?: boolean;
+  gitignore?: boolean;
+  license?: string; // SPDX id, e.g. 'MIT'
+  ci?: boolean;
+  stack?: ProjectStack; // Overrides stack detection for .gitignore, README and CI
+}
+
+export interface LicenseDetails extends License {
+  body: string;
+  description?: string;
+}
+
+// {project} in a message template renders project.name
+export interface RepositoryBootstrapParams extends Omit<ExportCommitMessageOptions, 'project'> {
+  repository: RepositoryCreateParams;
+  project: ProjectMetadata;
+  files: ExportFile[];
+  starterFiles?: StarterFileOptions;
+  message?: string;
+  author?: GitIdentity;
+  committer?: GitIdentity;
+  coAuthors?: GitIdentity[];
+  signer?: CommitSigner;
+}
+
+export interface RepositoryBootstrapResult {
+  repository: Repository;
+  changes: ExportChangeSet;
+  commit: CommitFilesResult | null;
+  starterFiles: string[]; // Paths of the generated files that were committed
+}
@@ -0,0 +1,40 @@
+// Repository Import Types
+import type { EntryFilterConfig } from '../../utils/zip/EntryFilter';
+import type { GitFileMode } from './git';
+import type { ProjectStack } from './bootstrap';
+
+export interface ProjectBundleFile {
+  content: string;
+  encoding: 'utf-8' | 'base64';
+  mode?: GitFileMode;
+}
+
+export interface ProjectBundleSource {
+  owner: string;
+  repo: string;
+  ref: string;
+  commitSha: string;
+  htmlUrl: string;
+}
+
+export interface ProjectBundleMetadata {
+  name: string;
+  description: string | null;
+  source: ProjectBundleSource;
+  stack: ProjectStack;
+  importedAt: string; // ISO 8601
+  fileCount: number;
+  totalSize: number; // Bytes of the files in the bundle
+  excluded: string[]; // Paths the filter left out
+  lfsPointers: string[]; // Paths whose content is a Git LFS pointer rather than the file
+}
+
+export interface ProjectBundle {
+  files: Record<string, ProjectBundleFile>; // Keyed by project-relative path, sorted
+  metadata: ProjectBundleMetadata;
+}
+
+export interface RepositoryImportParams {
+  ref?: string; // Branch, tag or commit SHA; defaults to the default branch
+  filter?: EntryFilterConfig; // Same include/exclude rules as an export
+}
@@ -26,6 +26,25 @@ export interface DirectoryContent {
 
 export type Content = FileContent | DirectoryContent;
 
+// Directory listings omit file content and may contain symlinks and submodules
+export interface DirectoryFileEntry extends Omit<FileContent, 'content' | 'encoding'> {}
+
+export interface DirectoryLinkEntry extends Omit<DirectoryContent, 'type'> {
+  type: 'symlink' | 'submodule';
+  download_url: string | null;
+}
+
+export type DirectoryEntry = DirectoryFileEntry | DirectoryContent | DirectoryLinkEntry;
+
+export type ArchiveFormat = 'zip' | 'tar'; // 'tar' archives are gzip-compressed
+
+export interface RepositoryArchive {
+  format: ArchiveFormat;
+  ref: string;
+  filename: string; // From Content-Disposition, e.g. owner-repo-abc1234.zip
+  data: Buffer;
+}
+
 export interface FileCreateParams {
   message: string;
   content: string; // Base64 encoded content
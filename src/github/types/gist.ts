@@ -0,0 +1,55 @@
+// GitHub Gist Types
+import type { Owner } from './github';
+import type { ExportFile } from './git';
+
+export interface GistFile {
+  filename: string;
+  type?: string;
+  language?: string | null;
+  raw_url: string;
+  size: number;
+  truncated?: boolean;
+  content?: string; // Only present when the gist is fetched individually
+}
+
+export interface Gist {
+  id: string;
+  node_id: string;
+  url: string;
+  html_url: string;
+  git_pull_url: string;
+  public: boolean;
+  description: string | null;
+  files: Record<string, GistFile>;
+  owner?: Owner;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GistCreateParams {
+  files: Record<string, { content: string }>;
+  description?: string;
+  public?: boolean; // Secret (unlisted) by default
+}
+
+export interface GistUpdateParams {
+  description?: string;
+  files?: Record<string, { content?: string; filename?: string } | null>; // null deletes the file
+}
+
+export type ExportTarget = 'repository' | 'gist';
+
+export interface GistExportParams {
+  files: ExportFile[];
+  description?: string;
+  public?: boolean; // Only applies when a new gist is created
+  gistId?: string; // Gist published by a previous sync; updated in place
+}
+
+export interface GistExportResult {
+  gist: Gist;
+  url: string;
+  created: boolean; // False when an existing gist was updated
+  changed: boolean; // False when the gist already matched the export
+  skipped: string[]; // Binary and empty files, which gists cannot hold
+}
@@ -0,0 +1,146 @@
+// GitHub Git Data API Types
+export type GitFileMode = '100644' | '100755' | '040000' | '160000' | '120000';
+
+export interface GitIdentity {
+  name: string;
+  email: string;
+  date?: string;
+}
+
+export interface GitBlob {
+  sha: string;
+  url: string;
+}
+
+export interface GitTreeEntry {
+  path: string;
+  mode: GitFileMode;
+  type: 'blob' | 'tree' | 'commit';
+  sha?: string | null;
+  size?: number;
+  url?: string;
+}
+
+export interface GitTree {
+  sha: string;
+  url: string;
+  tree: GitTreeEntry[];
+  truncated: boolean;
+}
+
+export interface GitCommit {
+  sha: string;
+  node_id: string;
+  url: string;
+  html_url: string;
+  author: GitIdentity;
+  committer: GitIdentity;
+  message: string;
+  tree: {
+    sha: string;
+    url: string;
+  };
+  parents: Array<{
+    sha: string;
+    url: string;
+    html_url?: string;
+  }>;
+}
+
+export interface GitReference {
+  ref: string;
+  node_id: string;
+  url: string;
+  object: {
+    type: string;
+    sha: string;
+    url: string;
+  };
+}
+
+export interface GitCreateTreeParams {
+  tree: GitTreeEntry[];
+  base_tree?: string;
+}
+
+export interface GitCreateCommitParams {
+  message: string;
+  tree: string;
+  parents: string[];
+  author?: GitIdentity;
+  committer?: GitIdentity;
+  signature?: string; // Armored signature of the commit object, stored as its gpgsig header
+}
+
+export type CommitSignatureFormat = 'gpg' | 'ssh';
+
+export interface CommitSigner {
+  format: CommitSignatureFormat;
+  sign(payload: string): Promise<string>; // Armored detached signature of the raw commit object
+}
+
+export interface ExportFile {
+  path: string;
+  content: string;
+  encoding?: 'utf-8' | 'base64';
+  mode?: GitFileMode;
+}
+
+export interface CommitFilesParams {
+  branch: string;
+  message: string;
+  files: ExportFile[];
+  deletions?: string[];
+  author?: GitIdentity;
+  committer?: GitIdentity;
+  coAuthors?: GitIdentity[]; // Appended as Co-authored-by trailers
+  signer?: CommitSigner; // Requires an author; the committer defaults to the author
+  parentSha?: string; // Head the files were compared against; the commit fails if the branch has moved since
+  force?: boolean;
+}
+
+export interface ExportCommitMessageOptions {
+  messageTemplate?: string; // Overrides message; see renderCommitMessage for placeholders
+  project?: string;
+  environment?: string;
+}
+
+export interface ExportPlanOptions {
+  deleteMissing?: boolean; // Delete remote files absent from the export (default true)
+}
+
+export interface ExportChangeSet {
+  branch: string;
+  parentSha: string;
+  baseTreeSha: string;
+  added: ExportFile[];
+  modified: ExportFile[];
+  deleted: string[];
+  unchanged: string[];
+  truncated: boolean; // Remote tree too large to compare; every file is treated as modified and nothing is deleted
+}
+
+export interface IncrementalExportParams extends CommitFilesParams, ExportPlanOptions, ExportCommitMessageOptions {}
+
+export interface CommitMessageContext {
+  project?: string;
+  environment?: string;
+  branch: string;
+  added: number;
+  modified: number;
+  deleted: number;
+}
+
+export interface IncrementalExportResult {
+  changes: ExportChangeSet;
+  commit: CommitFilesResult | null; // null when nothing changed
+}
+
+export interface CommitFilesResult {
+  branch: string;
+  commitSha: string;
+  treeSha: string;
+  parentSha: string;
+  filesCommitted: number;
+  filesDeleted: number;
+}
@@ -1,5 +1,18 @@
 // GitHub API Types
-export type { FileContent, DirectoryContent, Content, FileCreateParams, FileUpdateParams, FileDeleteParams, FileOperationResult, FileDeleteResult, BatchFileOperation, BatchFileOperationResult } from './file';
+import type { RetryPolicyOptions, RetryStrategy, RequestThrottle } from '../../utils/retry';
+import type { HttpCacheStore } from '../../utils/httpCache';
+
+export type { FileContent, DirectoryContent, Content, DirectoryFileEntry, DirectoryLinkEntry, DirectoryEntry, ArchiveFormat, RepositoryArchive, FileCreateParams, FileUpdateParams, FileDeleteParams, FileOperationResult, FileDeleteResult, BatchFileOperation, BatchFileOperationResult } from './file';
+export type { GitFileMode, GitIdentity, GitBlob, GitTreeEntry, GitTree, GitCommit, GitReference, GitCreateTreeParams, GitCreateCommitParams, CommitSignatureFormat, CommitSigner, ExportFile, CommitFilesParams, ExportCommitMessageOptions, CommitMessageContext, CommitFilesResult, ExportPlanOptions, ExportChangeSet, IncrementalExportParams, IncrementalExportResult } from './git';
+export type { GitTag, Tag, ReleaseAsset, Release, ReleaseCreateParams, ReleaseUpdateParams, ReleaseAssetUpload, SnapshotReleaseParams, SnapshotReleaseResult } from './release';
+export type { LfsOperation, LfsObject, LfsPointer, LfsAction, LfsBatchObject, LfsBatchResponse, LfsUploadResult, LfsExportResult } from './lfs';
+export type { BranchProtectionRules, BranchProtection, BranchRule, BranchPolicy } from './protection';
+export type { ProjectStack, ProjectMetadata, StarterFileOptions, LicenseDetails, RepositoryBootstrapParams, RepositoryBootstrapResult } from './bootstrap';
+export type { ProjectBundleFile, ProjectBundleSource, ProjectBundleMetadata, ProjectBundle, RepositoryImportParams } from './bundle';
+export type { WebhookEventName, WebhookHeaders, WebhookCommitAuthor, WebhookCommit, PushEventPayload, PullRequestEventPayload, WorkflowRunStatus, WorkflowRun, WorkflowRunEventPayload, PushEvent, PullRequestEvent, WorkflowRunEvent, WebhookEvent, WebhookEventHandler, WebhookListenerOptions } from './webhook';
+export type { WorkflowState, Workflow, WorkflowStep, WorkflowJob, WorkflowRunListOptions, WorkflowRunProgress, WorkflowRunWaitOptions, WorkflowDispatchParams, WorkflowRunResult } from './actions';
+export type { GistFile, Gist, GistCreateParams, GistUpdateParams, ExportTarget, GistExportParams, GistExportResult } from './gist';
+export type { PullRequestState, PullRequestMergeMethod, PullRequestRef, PullRequestLabel, PullRequest, PullRequestCreateParams, PullRequestUpdateParams, PullRequestListOptions, PullRequestMergeParams, PullRequestMergeResult, ExportAsPullRequestParams, ExportAsPullRequestResult, ExportToBranchParams, ExportToBranchResult } from './pull';
 
 export interface Repository {
   id: number;
@@ -43,6 +56,68 @@ export interface Repository {
   open_issues: number;
   watchers: number;
   default_branch: string;
+  permissions?: RepositoryPermissions; // Only present for authenticated requests
+  parent?: Repository; // Repository a fork was created from
+}
+
+export interface RepositoryPermissions {
+  admin: boolean;
+  maintain?: boolean;
+  push: boolean;
+  triage?: boolean;
+  pull: boolean;
+}
+
+export interface RepositoryForkParams {
+  organization?: string; // Fork into an organization instead of the authenticated user
+  name?: string;
+  default_branch_only?: boolean;
+}
+
+export interface ForkSyncResult {
+  message: string;
+  merge_type: 'merge' | 'fast-forward' | 'none';
+  base_branch: string;
+}
+
+export interface RepositoryListOptions {
+  org?: string; // List /orgs/:org/repos instead of the authenticated user's repositories
+  per_page?: number;
+  affiliation?: string; // Comma-separated: owner, collaborator, organization_member
+  visibility?: 'all' | 'public' | 'private';
+  type?: 'all' | 'owner' | 'public' | 'private' | 'member' | 'forks' | 'sources';
+  sort?: 'created' | 'updated' | 'pushed' | 'full_name';
+  direction?: 'asc' | 'desc';
+}
+
+export type RepositoryVisibility = 'public' | 'private' | 'internal';
+
+export interface RepositoryTemplateRef {
+  owner: string;
+  repo: string;
+  include_all_branches?: boolean;
+}
+
+export interface RepositoryCreateParams {
+  name: string;
+  org?: string; // Create under /orgs/:org/repos instead of the authenticated user
+  description?: string;
+  homepage?: string;
+  private?: boolean;
+  visibility?: RepositoryVisibility; // 'internal' is only available to enterprise organizations
+  topics?: string[]; // Applied right after creation
+  template?: RepositoryTemplateRef; // Generate from a template repository via /repos/:t/generate
+  auto_init?: boolean;
+  gitignore_template?: string;
+  license_template?: string;
+  has_issues?: boolean;
+  has_projects?: boolean;
+  has_wiki?: boolean;
+}
+
+export interface BranchListOptions {
+  per_page?: number;
+  protected?: boolean;
 }
 
 export interface Owner {
@@ -94,9 +169,13 @@ export interface GitHubError {
 }
 
 export interface GitHubClientOptions {
+  host?: string; // github.com or a GitHub Enterprise Server host; ignored when baseUrl is set
   baseUrl?: string;
   userAgent?: string;
   timeout?: number;
+  retry?: Partial<RetryPolicyOptions> | RetryStrategy | false;
+  throttle?: RequestThrottle;
+  cache?: HttpCacheStore; // ETag/Last-Modified response cache for GET requests
 }
 
 // Existing types from the current implementation
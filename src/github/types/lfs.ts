@@ -0,0 +1,48 @@
+// Git LFS Batch API Types
+import type { ExportFile } from './git';
+
+export type LfsOperation = 'upload' | 'download';
+
+export interface LfsObject {
+  oid: string; // SHA-256 of the content, hex
+  size: number;
+}
+
+export interface LfsPointer extends LfsObject {
+  content: string; // Pointer file text committed in place of the content
+}
+
+export interface LfsAction {
+  href: string;
+  header?: Record<string, string>;
+  expires_in?: number;
+  expires_at?: string;
+}
+
+export interface LfsBatchObject extends LfsObject {
+  authenticated?: boolean;
+  actions?: {
+    upload?: LfsAction;
+    verify?: LfsAction;
+    download?: LfsAction;
+  };
+  error?: {
+    code: number;
+    message: string;
+  };
+}
+
+export interface LfsBatchResponse {
+  transfer?: string;
+  objects: LfsBatchObject[];
+}
+
+export interface LfsUploadResult {
+  uploaded: string[]; // oids sent to the LFS server
+  skipped: string[]; // oids the server already had
+}
+
+export interface LfsExportResult extends LfsUploadResult {
+  files: ExportFile[]; // Export files with LFS content replaced by pointers, plus .gitattributes
+  pointers: Record<string, LfsPointer>; // Pointer per rerouted path
+}
@@ -0,0 +1,57 @@
+// GitHub Branch Protection Types
+
+/**
+ * Protection settings for a branch, in the flattened form used to apply and read them back
+ */
+export interface BranchProtectionRules {
+  requiredApprovingReviews?: number; // Require a pull request with this many approvals (0 = PR without approvals)
+  dismissStaleReviews?: boolean;
+  requireCodeOwnerReviews?: boolean;
+  requiredStatusChecks?: string[]; // Status check contexts that must pass
+  strictStatusChecks?: boolean; // Require the branch to be up to date before merging
+  enforceAdmins?: boolean;
+  requireLinearHistory?: boolean;
+  allowForcePushes?: boolean;
+  allowDeletions?: boolean;
+}
+
+/**
+ * Branch protection as returned by GET /repos/:owner/:repo/branches/:branch/protection
+ */
+export interface BranchProtection {
+  url?: string;
+  required_status_checks?: {
+    strict: boolean;
+    contexts: string[];
+  } | null;
+  enforce_admins?: { enabled: boolean };
+  required_pull_request_reviews?: {
+    required_approving_review_count?: number;
+    dismiss_stale_reviews?: boolean;
+    require_code_owner_reviews?: boolean;
+  } | null;
+  required_linear_history?: { enabled: boolean };
+  allow_force_pushes?: { enabled: boolean };
+  allow_deletions?: { enabled: boolean };
+}
+
+/**
+ * A ruleset rule that applies to a branch (GET /repos/:owner/:repo/rules/branches/:branch)
+ */
+export interface BranchRule {
+  type: string; // e.g. 'pull_request', 'required_status_checks', 'non_fast_forward', 'required_linear_history'
+  parameters?: Record<string, any>;
+  ruleset_source_type?: 'Repository' | 'Organization';
+  ruleset_source?: string;
+  ruleset_id?: number;
+}
+
+/**
+ * Effective write policy of a branch, combining classic protection and rulesets
+ */
+export interface BranchPolicy {
+  branch: string;
+  protection: BranchProtectionRules | null; // null when unprotected or not readable without admin access
+  rules: BranchRule[];
+  requiresPullRequest: boolean;
+}
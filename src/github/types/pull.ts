@@ -0,0 +1,128 @@
+// GitHub Pull Request Types
+import type { Owner, Repository } from './github';
+import type { ExportFile, ExportChangeSet, CommitFilesResult, GitIdentity, CommitSigner, ExportCommitMessageOptions, IncrementalExportParams } from './git';
+
+export type PullRequestState = 'open' | 'closed';
+export type PullRequestMergeMethod = 'merge' | 'squash' | 'rebase';
+
+export interface PullRequestRef {
+  label: string;
+  ref: string;
+  sha: string;
+  user?: Owner;
+}
+
+export interface PullRequestLabel {
+  id: number;
+  name: string;
+  color?: string;
+}
+
+export interface PullRequest {
+  id: number;
+  node_id: string;
+  number: number;
+  url: string;
+  html_url: string;
+  state: PullRequestState;
+  title: string;
+  body: string | null;
+  draft?: boolean;
+  merged?: boolean;
+  mergeable?: boolean | null;
+  merge_commit_sha?: string | null;
+  head: PullRequestRef;
+  base: PullRequestRef;
+  user: Owner;
+  labels: PullRequestLabel[];
+  requested_reviewers?: Owner[];
+  created_at: string;
+  updated_at: string;
+  closed_at: string | null;
+  merged_at: string | null;
+}
+
+export interface PullRequestCreateParams {
+  title: string;
+  head: string;
+  base: string;
+  body?: string;
+  draft?: boolean;
+  maintainer_can_modify?: boolean;
+}
+
+export interface PullRequestUpdateParams {
+  title?: string;
+  body?: string;
+  state?: PullRequestState;
+  base?: string;
+  maintainer_can_modify?: boolean;
+}
+
+export interface PullRequestListOptions {
+  state?: PullRequestState | 'all';
+  head?: string; // user:ref-name
+  base?: string;
+  sort?: 'created' | 'updated' | 'popularity' | 'long-running';
+  direction?: 'asc' | 'desc';
+  per_page?: number;
+}
+
+export interface PullRequestMergeParams {
+  commit_title?: string;
+  commit_message?: string;
+  sha?: string; // Head SHA that must match for the merge to be allowed
+  merge_method?: PullRequestMergeMethod;
+}
+
+export interface PullRequestMergeResult {
+  sha: string;
+  merged: boolean;
+  message: string;
+}
+
+export interface ExportAsPullRequestParams extends ExportCommitMessageOptions {
+  title: string;
+  files: ExportFile[];
+  message?: string; // Commit message; defaults to the title
+  body?: string; // Defaults to a generated list of changed files
+  base?: string; // Defaults to the repository's default branch
+  head?: string; // Defaults to a timestamped bolt-export/ branch
+  draft?: boolean;
+  reviewers?: string[];
+  teamReviewers?: string[];
+  labels?: string[];
+  deleteMissing?: boolean;
+  deletions?: string[]; // Paths to delete in addition to those missing from the export
+  author?: GitIdentity;
+  committer?: GitIdentity;
+  coAuthors?: GitIdentity[];
+  signer?: CommitSigner;
+}
+
+export interface ExportAsPullRequestResult {
+  pullRequest: PullRequest;
+  branch: string;
+  changes: ExportChangeSet;
+  commit: CommitFilesResult;
+  fork?: Repository; // Fork the branch was pushed to when the user cannot push upstream
+  warnings: string[]; // Reviewer or label requests that failed after the pull request was opened
+}
+
+export interface ExportToBranchParams extends IncrementalExportParams {
+  title?: string; // Pull request title if the branch requires one; defaults to the commit message
+  draft?: boolean;
+  reviewers?: string[];
+  teamReviewers?: string[];
+  labels?: string[];
+}
+
+export interface ExportToBranchResult {
+  mode: 'direct' | 'pull-request' | 'fork';
+  branch: string; // Branch the export commit landed on
+  changes: ExportChangeSet;
+  commit: CommitFilesResult | null;
+  pullRequest?: PullRequest;
+  fork?: Repository; // Set in 'fork' mode
+  warnings: string[];
+}
@@ -0,0 +1,99 @@
+// GitHub Tag and Release Types
+import type { Owner } from './github';
+import type { ExportChangeSet, GitIdentity } from './git';
+import type { SemverBump } from '../../utils/semver';
+
+export interface GitTag {
+  sha: string;
+  node_id?: string;
+  url: string;
+  tag: string;
+  message: string;
+  tagger?: GitIdentity;
+  object: {
+    type: string;
+    sha: string;
+    url: string;
+  };
+}
+
+export interface Tag {
+  name: string;
+  commit: {
+    sha: string;
+    url: string;
+  };
+  zipball_url?: string;
+  tarball_url?: string;
+}
+
+export interface ReleaseAsset {
+  id: number;
+  name: string;
+  label: string | null;
+  content_type: string;
+  state: string;
+  size: number;
+  download_count: number;
+  browser_download_url: string;
+  url: string;
+}
+
+export interface Release {
+  id: number;
+  node_id: string;
+  url: string;
+  html_url: string;
+  upload_url: string;
+  tag_name: string;
+  target_commitish: string;
+  name: string | null;
+  body: string | null;
+  draft: boolean;
+  prerelease: boolean;
+  created_at: string;
+  published_at: string | null;
+  author: Owner;
+  assets: ReleaseAsset[];
+}
+
+export interface ReleaseCreateParams {
+  tag_name: string;
+  target_commitish?: string;
+  name?: string;
+  body?: string;
+  draft?: boolean;
+  prerelease?: boolean;
+  generate_release_notes?: boolean;
+  make_latest?: 'true' | 'false' | 'legacy';
+}
+
+export type ReleaseUpdateParams = Partial<ReleaseCreateParams>;
+
+export interface ReleaseAssetUpload {
+  name: string;
+  data: Uint8Array;
+  contentType?: string; // Defaults to application/zip for .zip files, otherwise application/octet-stream
+  label?: string;
+}
+
+export interface SnapshotReleaseParams {
+  commitSha: string; // Commit the snapshot points at, e.g. CommitFilesResult.commitSha
+  changes?: ExportChangeSet; // Used to generate the release notes
+  tag?: string; // Explicit tag; otherwise the next semver tag after the latest one
+  bump?: SemverBump; // Default 'patch'
+  tagPrefix?: string; // Default 'v'
+  annotated?: boolean; // Create an annotated tag object (default true)
+  tagger?: GitIdentity;
+  name?: string;
+  notes?: string; // Overrides the generated notes
+  draft?: boolean;
+  prerelease?: boolean;
+  asset?: ReleaseAssetUpload; // e.g. the original project ZIP
+}
+
+export interface SnapshotReleaseResult {
+  tag: string;
+  release: Release;
+  asset?: ReleaseAsset;
+}
@@ -0,0 +1,103 @@
+// GitHub Webhook Event Types
+import type { Repository, Owner } from './github';
+import type { PullRequest } from './pull';
+
+export type WebhookEventName = 'push' | 'pull_request' | 'workflow_run';
+
+export type WebhookHeaders = Record<string, string | string[] | undefined>;
+
+export interface WebhookCommitAuthor {
+  name: string;
+  email: string;
+  username?: string;
+}
+
+export interface WebhookCommit {
+  id: string;
+  message: string;
+  timestamp: string;
+  url: string;
+  author: WebhookCommitAuthor;
+  added: string[];
+  removed: string[];
+  modified: string[];
+}
+
+export interface PushEventPayload {
+  ref: string; // Fully qualified, e.g. refs/heads/main
+  before: string;
+  after: string;
+  created: boolean;
+  deleted: boolean;
+  forced: boolean;
+  compare: string;
+  pusher: { name: string; email?: string | null };
+  sender: Owner;
+  repository: Repository;
+  commits: WebhookCommit[];
+  head_commit: WebhookCommit | null;
+}
+
+export interface PullRequestEventPayload {
+  action: string; // opened, closed, synchronize, reopened, ...
+  number: number;
+  pull_request: PullRequest;
+  repository: Repository;
+  sender: Owner;
+}
+
+export type WorkflowRunStatus = 'requested' | 'queued' | 'pending' | 'waiting' | 'in_progress' | 'completed';
+
+export interface WorkflowRun {
+  id: number;
+  name: string | null;
+  workflow_id: number;
+  head_branch: string | null;
+  head_sha: string;
+  event: string;
+  status: WorkflowRunStatus;
+  conclusion: string | null; // success, failure, cancelled, ... once completed
+  run_number: number;
+  run_attempt?: number;
+  html_url: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WorkflowRunEventPayload {
+  action: 'requested' | 'in_progress' | 'completed';
+  workflow_run: WorkflowRun;
+  repository: Repository;
+  sender: Owner;
+}
+
+interface WebhookEventBase {
+  deliveryId: string; // X-GitHub-Delivery
+}
+
+export interface PushEvent extends WebhookEventBase {
+  name: 'push';
+  branch: string | null; // Short branch name; null for tag pushes
+  payload: PushEventPayload;
+}
+
+export interface PullRequestEvent extends WebhookEventBase {
+  name: 'pull_request';
+  payload: PullRequestEventPayload;
+}
+
+export interface WorkflowRunEvent extends WebhookEventBase {
+  name: 'workflow_run';
+  payload: WorkflowRunEventPayload;
+}
+
+export type WebhookEvent = PushEvent | PullRequestEvent | WorkflowRunEvent;
+
+export type WebhookEventHandler<E extends WebhookEvent = WebhookEvent> = (event: E) => void | Promise<void>;
+
+export interface WebhookListenerOptions {
+  port?: number; // 0 picks a free port
+  host?: string;
+  path?: string; // Only POSTs to this path are accepted
+  maxBodySize?: number; // Bytes; GitHub caps deliveries at 25 MB
+}
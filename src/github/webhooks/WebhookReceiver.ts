@@ -0,0 +1,198 @@
+// Webhook Receiver for verifying and dispatching repository events
+import { MessageAuthenticationService } from '../../security/MessageAuthenticationService';
+import {
+  WebhookEvent,
+  WebhookEventName,
+  WebhookEventHandler,
+  WebhookHeaders,
+  PushEventPayload,
+  PullRequestEventPayload,
+  WorkflowRunEventPayload
+} from '../types/github';
+
+const SIGNATURE_PREFIX = 'sha256=';
+
+/**
+ * Error raised for webhook deliveries that must be rejected
+ */
+export class WebhookError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'MISSING_HEADER' | 'INVALID_SIGNATURE' | 'INVALID_PAYLOAD'
+  ) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+export class WebhookReceiver {
+  private auth: MessageAuthenticationService;
+  private handlers: Array<{ name: WebhookEventName | '*'; handler: WebhookEventHandler<any> }> = [];
+
+  /**
+   * @param secret Webhook secret configured on the repository
+   */
+  constructor(secret: string) {
+    this.auth = new MessageAuthenticationService();
+    this.auth.setSecretKey(secret);
+  }
+
+  /**
+   * Subscribe to one event type
+   * @param name Event name
+   * @param handler Called with each verified event of that type
+   * @returns Function that removes the subscription
+   */
+  on<N extends WebhookEventName>(name: N, handler: WebhookEventHandler<Extract<WebhookEvent, { name: N }>>): () => void {
+    return this.subscribe(name, handler);
+  }
+
+  /**
+   * Subscribe to every supported event type
+   * @param handler Called with each verified event
+   * @returns Function that removes the subscription
+   */
+  onAny(handler: WebhookEventHandler): () => void {
+    return this.subscribe('*', handler);
+  }
+
+  /**
+   * Check the X-Hub-Signature-256 header against the raw request body
+   * @param body Raw request body, exactly as received
+   * @param signature Header value, e.g. sha256=<hex>
+   * @returns True if the body was signed with the secret
+   */
+  verify(body: string | Buffer, signature: string | undefined): boolean {
+    if (!signature || !signature.startsWith(SIGNATURE_PREFIX)) {
+      return false;
+    }
+    return this.auth.verifyHmac(body, signature.slice(SIGNATURE_PREFIX.length));
+  }
+
+  /**
+   * Parse a delivery into a typed event
+   * @param name X-GitHub-Event header value
+   * @param deliveryId X-GitHub-Delivery header value
+   * @param body Raw JSON request body
+   * @returns Typed event, or null for event types this module does not handle (e.g. ping)
+   */
+  parse(name: string, deliveryId: string, body: string | Buffer): WebhookEvent | null {
+    let payload: any;
+    try {
+      payload = JSON.parse(body.toString());
+    } catch (error) {
+      throw new WebhookError(`Invalid ${name} payload: ${error instanceof Error ? error.message : 'Unknown error'}`, 'INVALID_PAYLOAD');
+    }
+    if (!payload || typeof payload !== 'object') {
+      throw new WebhookError(`Invalid ${name} payload: not an object`, 'INVALID_PAYLOAD');
+    }
+
+    switch (name) {
+      case 'push':
+        this.requireFields(name, payload, ['repository', 'ref', 'before', 'after']);
+        return {
+          name,
+          deliveryId,
+          branch: payload.ref.startsWith('refs/heads/') ? payload.ref.slice('refs/heads/'.length) : null,
+          payload: payload as PushEventPayload
+        };
+      case 'pull_request':
+        this.requireFields(name, payload, ['repository', 'action', 'number', 'pull_request']);
+        return { name, deliveryId, payload: payload as PullRequestEventPayload };
+      case 'workflow_run':
+        this.requireFields(name, payload, ['repository', 'action', 'workflow_run']);
+        return { name, deliveryId, payload: payload as WorkflowRunEventPayload };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Verify and parse a delivery without dispatching it
+   * @param headers Request headers (any casing)
+   * @param body Raw request body
+   * @returns Typed event, or null for unhandled event types
+   */
+  read(headers: WebhookHeaders, body: string | Buffer): WebhookEvent | null {
+    const name = this.header(headers, 'x-github-event');
+    const deliveryId = this.header(headers, 'x-github-delivery');
+    if (!name || !deliveryId) {
+      throw new WebhookError('Missing X-GitHub-Event or X-GitHub-Delivery header', 'MISSING_HEADER');
+    }
+    if (!this.verify(body, this.header(headers, 'x-hub-signature-256'))) {
+      throw new WebhookError(`Signature of delivery ${deliveryId} does not match`, 'INVALID_SIGNATURE');
+    }
+    return this.parse(name, deliveryId, body);
+  }
+
+  /**
+   * Verify, parse and dispatch a delivery to the subscribers
+   * @param headers Request headers (any casing)
+   * @param body Raw request body
+   * @returns Promise resolving to the dispatched event, or null for unhandled event types
+   */
+  async receive(headers: WebhookHeaders, body: string | Buffer): Promise<WebhookEvent | null> {
+    const event = this.read(headers, body);
+    if (event) {
+      await this.dispatch(event);
+    }
+    return event;
+  }
+
+  /**
+   * Call the subscribers of an event in subscription order; a failing handler does not stop the others
+   * @param event Verified event
+   * @returns Promise resolving once every handler has run
+   */
+  async dispatch(event: WebhookEvent): Promise<void> {
+    for (const { name, handler } of [...this.handlers]) {
+      if (name !== '*' && name !== event.name) {
+        continue;
+      }
+      try {
+        await handler(event);
+      } catch (error: any) {
+        console.error(`Error in ${event.name} webhook handler:`, error?.message);
+      }
+    }
+  }
+
+  /**
+   * Register a handler
+   * @param name Event name or '*'
+   * @param handler Event handler
+   * @returns Function that removes the handler
+   */
+  private subscribe(name: WebhookEventName | '*', handler: WebhookEventHandler<any>): () => void {
+    const subscription = { name, handler };
+    this.handlers.push(subscription);
+    return () => {
+      this.handlers = this.handlers.filter(existing => existing !== subscription);
+    };
+  }
+
+  /**
+   * Read a header case-insensitively
+   * @param headers Request headers
+   * @param name Lower-case header name
+   * @returns First header value, if present
+   */
+  private header(headers: WebhookHeaders, name: string): string | undefined {
+    const key = Object.keys(headers).find(candidate => candidate.toLowerCase() === name);
+    const value = key === undefined ? undefined : headers[key];
+    return Array.isArray(value) ? value[0] : value;
+  }
+
+  /**
+   * Ensure a payload carries the fields its event type is parsed from
+   * @param name Event name
+   * @param payload Parsed JSON body
+   * @param fields Required top-level fields
+   */
+  private requireFields(name: string, payload: Record<string, unknown>, fields: string[]): void {
+    const missing = fields.filter(field => payload[field] === undefined || payload[field] === null);
+    if (missing.length > 0) {
+      throw new WebhookError(`Invalid ${name} payload: missing ${missing.join(', ')}`, 'INVALID_PAYLOAD');
+    }
+  }
+}
@@ -0,0 +1,143 @@
+// Webhook Server: a local HTTP listener for self-hosted webhook deliveries
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { WebhookListenerOptions } from '../types/github';
+import { WebhookReceiver, WebhookError } from './WebhookReceiver';
+
+const DEFAULT_MAX_BODY_SIZE = 25 * 1024 * 1024;
+
+export class WebhookServer {
+  private server: http.Server | null = null;
+  private options: Required<WebhookListenerOptions>;
+
+  /**
+   * @param receiver Receiver that verifies deliveries and dispatches them to subscribers
+   * @param options Port, host, path and body size limit of the listener
+   */
+  constructor(private receiver: WebhookReceiver, options: WebhookListenerOptions = {}) {
+    this.options = {
+      port: options.port ?? 3000,
+      host: options.host || '127.0.0.1',
+      path: options.path || '/webhooks/github',
+      maxBodySize: options.maxBodySize || DEFAULT_MAX_BODY_SIZE
+    };
+  }
+
+  /**
+   * Start listening
+   * @returns Promise resolving to the URL to configure as the webhook payload URL
+   */
+  async start(): Promise<string> {
+    if (this.server) {
+      throw new Error('Webhook server is already running');
+    }
+
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res);
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+
+    const { port } = server.address() as AddressInfo;
+    return `http://${this.options.host}:${port}${this.options.path}`;
+  }
+
+  /**
+   * Stop listening
+   * @returns Promise resolving once open connections are closed
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = null;
+    await new Promise<void>((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+      server.closeAllConnections();
+    });
+  }
+
+  /**
+   * Answer a request, then dispatch the verified event so slow handlers
+   * do not run into GitHub's delivery timeout
+   * @param req Incoming request
+   * @param res Server response
+   */
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if ((req.url || '').split('?')[0] !== this.options.path) {
+      this.respond(res, 404, 'Not Found');
+      return;
+    }
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST');
+      this.respond(res, 405, 'Method Not Allowed');
+      return;
+    }
+
+    try {
+      const body = await this.readBody(req);
+      if (!body) {
+        this.respond(res, 413, 'Payload Too Large');
+        return;
+      }
+
+      const event = this.receiver.read(req.headers, body);
+      this.respond(res, 202, event ? 'Accepted' : 'Ignored');
+      if (event) {
+        await this.receiver.dispatch(event);
+      }
+    } catch (error) {
+      if (error instanceof WebhookError) {
+        this.respond(res, error.code === 'INVALID_SIGNATURE' ? 401 : 400, error.message);
+      } else {
+        this.respond(res, 500, 'Internal Server Error');
+      }
+    }
+  }
+
+  /**
+   * Collect the raw request body
+   * @param req Incoming request
+   * @returns Promise resolving to the body, or null when it exceeds the size limit
+   */
+  private readBody(req: IncomingMessage): Promise<Buffer | null> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      let tooLarge = false;
+
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > this.options.maxBodySize) {
+          tooLarge = true;
+          chunks.length = 0;
+        } else if (!tooLarge) {
+          chunks.push(chunk);
+        }
+      });
+      req.on('end', () => resolve(tooLarge ? null : Buffer.concat(chunks)));
+      req.on('error', reject);
+    });
+  }
+
+  /**
+   * Send a plain-text response unless one was already sent
+   * @param res Server response
+   * @param status HTTP status code
+   * @param message Response body
+   */
+  private respond(res: ServerResponse, status: number, message: string): void {
+    if (res.headersSent) {
+      return;
+    }
+    res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end(message);
+  }
+}
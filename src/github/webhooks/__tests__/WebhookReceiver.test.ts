@@ -0,0 +1,131 @@
+// Unit Tests for WebhookReceiver
+import * as crypto from 'crypto';
+import { WebhookReceiver, WebhookError } from '../WebhookReceiver';
+import { PushEvent, WorkflowRunEvent } from '../../types/github';
+
+const secret = 'webhook-secret';
+
+function sign(body: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+function delivery(name: string, payload: object, signature?: string) {
+  const body = JSON.stringify(payload);
+  return {
+    headers: {
+      'X-GitHub-Event': name,
+      'X-GitHub-Delivery': 'd-1',
+      'X-Hub-Signature-256': signature ?? sign(body)
+    },
+    body
+  };
+}
+
+describe('WebhookReceiver', () => {
+  let receiver: WebhookReceiver;
+  const repository = { full_name: 'owner/repo' };
+
+  beforeEach(() => {
+    receiver = new WebhookReceiver(secret);
+  });
+
+  it('should verify X-Hub-Signature-256 against the raw body', () => {
+    const body = '{"zen":"Design for failure."}';
+
+    expect(receiver.verify(body, sign(body))).toBe(true);
+    expect(receiver.verify(Buffer.from(body), sign(body))).toBe(true);
+    expect(receiver.verify(`${body} `, sign(body))).toBe(false);
+    expect(receiver.verify(body, sign(body).replace('sha256=', 'sha1='))).toBe(false);
+    expect(receiver.verify(body, undefined)).toBe(false);
+  });
+
+  it('should parse push events and expose the branch', async () => {
+    const { headers, body } = delivery('push', {
+      ref: 'refs/heads/feature/login', before: 'a1', after: 'b2', forced: true, commits: [], repository
+    });
+
+    const event = await receiver.receive(headers, body) as PushEvent;
+
+    expect(event.name).toBe('push');
+    expect(event.deliveryId).toBe('d-1');
+    expect(event.branch).toBe('feature/login');
+    expect(event.payload.after).toBe('b2');
+    expect(event.payload.forced).toBe(true);
+  });
+
+  it('should report tag pushes without a branch', () => {
+    const { headers, body } = delivery('push', { ref: 'refs/tags/v1.0.0', before: 'a1', after: 'b2', repository });
+
+    expect((receiver.read(headers, body) as PushEvent).branch).toBeNull();
+  });
+
+  it('should dispatch events to matching and catch-all subscribers', async () => {
+    const onWorkflowRun = jest.fn();
+    const onPush = jest.fn();
+    const onAny = jest.fn();
+    receiver.on('workflow_run', onWorkflowRun);
+    receiver.on('push', onPush);
+    receiver.onAny(onAny);
+    const { headers, body } = delivery('workflow_run', {
+      action: 'completed',
+      workflow_run: { id: 7, status: 'completed', conclusion: 'success' },
+      repository
+    });
+
+    await receiver.receive(headers, body);
+
+    expect(onPush).not.toHaveBeenCalled();
+    expect(onWorkflowRun).toHaveBeenCalledTimes(1);
+    expect((onWorkflowRun.mock.calls[0][0] as WorkflowRunEvent).payload.workflow_run.conclusion).toBe('success');
+    expect(onAny).toHaveBeenCalledWith(expect.objectContaining({ name: 'workflow_run' }));
+  });
+
+  it('should keep dispatching when a handler fails and support unsubscribing', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const second = jest.fn();
+    const unsubscribe = receiver.on('pull_request', () => { throw new Error('boom'); });
+    receiver.on('pull_request', second);
+    const { headers, body } = delivery('pull_request', { action: 'opened', number: 3, pull_request: { number: 3 }, repository });
+
+    await receiver.receive(headers, body);
+    unsubscribe();
+    await receiver.receive(headers, body);
+
+    expect(second).toHaveBeenCalledTimes(2);
+    expect(errorSpy).toHaveBeenCalledTimes(1);
+    errorSpy.mockRestore();
+  });
+
+  it('should ignore event types it does not handle', async () => {
+    const onAny = jest.fn();
+    receiver.onAny(onAny);
+    const { headers, body } = delivery('ping', { zen: 'Speak like a human.', repository });
+
+    await expect(receiver.receive(headers, body)).resolves.toBeNull();
+    expect(onAny).not.toHaveBeenCalled();
+  });
+
+  it('should ignore organization and app events that carry no repository', async () => {
+    const ping = delivery('ping', { zen: 'Keep it logically awesome.', hook_id: 1, organization: { login: 'acme' } });
+    const installation = delivery('installation', { action: 'created', installation: { id: 7 } });
+
+    expect(receiver.read(ping.headers, ping.body)).toBeNull();
+    expect(receiver.read(installation.headers, installation.body)).toBeNull();
+    expect(() => receiver.parse('workflow_run', 'd-3', JSON.stringify({ action: 'completed', workflow_run: {} })))
+      .toThrow('Invalid workflow_run payload: missing repository');
+  });
+
+  it('should reject deliveries with a bad signature, missing headers or malformed payloads', () => {
+    const forged = delivery('push', { ref: 'refs/heads/main', before: 'a', after: 'b', repository }, 'sha256=00');
+    const incomplete = delivery('push', { ref: 'refs/heads/main', repository });
+
+    expect(() => receiver.read(forged.headers, forged.body)).toThrow(
+      expect.objectContaining({ code: 'INVALID_SIGNATURE' })
+    );
+    expect(() => receiver.read({ 'x-hub-signature-256': sign('{}') }, '{}')).toThrow(
+      expect.objectContaining({ code: 'MISSING_HEADER' })
+    );
+    expect(() => receiver.read(incomplete.headers, incomplete.body)).toThrow('Invalid push payload: missing before, after');
+    expect(() => receiver.parse('push', 'd-2', 'not json')).toThrow(WebhookError);
+  });
+});
@@ -0,0 +1,75 @@
+// Integration Tests for WebhookServer against a real local listener
+import * as crypto from 'crypto';
+import { WebhookServer } from '../WebhookServer';
+import { WebhookReceiver } from '../WebhookReceiver';
+
+const secret = 'webhook-secret';
+
+function post(url: string, body: string, headers: Record<string, string> = {}): Promise<Response> {
+  return fetch(url, {
+    method: 'POST',
+    body,
+    headers: {
+      'Content-Type': 'application/json',
+      'X-GitHub-Event': 'push',
+      'X-GitHub-Delivery': 'd-1',
+      'X-Hub-Signature-256': `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`,
+      ...headers
+    }
+  });
+}
+
+describe('WebhookServer', () => {
+  let receiver: WebhookReceiver;
+  let server: WebhookServer;
+  let url: string;
+  const push = JSON.stringify({ ref: 'refs/heads/main', before: 'a1', after: 'b2', repository: { full_name: 'owner/repo' } });
+
+  beforeEach(async () => {
+    receiver = new WebhookReceiver(secret);
+    server = new WebhookServer(receiver, { port: 0, maxBodySize: 1024 });
+    url = await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should accept signed deliveries and dispatch them to subscribers', async () => {
+    const received = new Promise(resolve => receiver.on('push', resolve));
+
+    const response = await post(url, push);
+
+    expect(url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/webhooks\/github$/);
+    expect(response.status).toBe(202);
+    await expect(received).resolves.toEqual(expect.objectContaining({ name: 'push', branch: 'main' }));
+  });
+
+  it('should answer 401 for forged deliveries', async () => {
+    const response = await post(url, push, { 'X-Hub-Signature-256': 'sha256=deadbeef' });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should answer 400 for malformed deliveries and 413 for oversized ones', async () => {
+    const malformed = await post(url, '{"ref":"refs/heads/main"}');
+    const oversized = await post(url, JSON.stringify({ padding: 'x'.repeat(2048) }));
+
+    expect(malformed.status).toBe(400);
+    expect(await malformed.text()).toContain('missing repository');
+    expect(oversized.status).toBe(413);
+  });
+
+  it('should only accept POSTs to the configured path', async () => {
+    const wrongPath = await post(url.replace('/webhooks/github', '/other'), push);
+    const wrongMethod = await fetch(url);
+
+    expect(wrongPath.status).toBe(404);
+    expect(wrongMethod.status).toBe(405);
+    expect(wrongMethod.headers.get('allow')).toBe('POST');
+  });
+
+  it('should refuse to start twice', async () => {
+    await expect(server.start()).rejects.toThrow('Webhook server is already running');
+  });
+});
@@ -1,5 +1,15 @@
 export { GitHubPATAuthService } from './services/GitHubPATAuthService.js';
 export { GitHubClient } from './github/GitHubClient.js';
+export { GitHubApiError } from './utils/http.js';
+export { MemoryHttpCacheStore, ChromeStorageHttpCacheStore } from './utils/httpCache.js';
+export { FileHttpCacheStore } from './utils/fileHttpCache.js';
+export type { HttpCacheStore, HttpCacheStatus, CachedResponse } from './utils/httpCache.js';
+export { createTokenStrategy } from './services/auth/AuthStrategy.js';
+export type { AuthStrategy, AuthStrategyType } from './services/auth/AuthStrategy.js';
+export { PATAuthStrategy } from './services/auth/PATAuthStrategy.js';
+export { OAuthUserTokenStrategy } from './services/auth/OAuthUserTokenStrategy.js';
+export { GitHubAppInstallationStrategy } from './services/auth/GitHubAppInstallationStrategy.js';
+export type { GitHubAppInstallationConfig, InstallationToken } from './services/auth/GitHubAppInstallationStrategy.js';
 export type { GitHubUser, AuthResult } from './types/github.js';
 export type {
   Repository,
@@ -7,7 +17,10 @@ export type {
   Owner,
   License,
   GitHubError,
-  GitHubClientOptions
+  GitHubClientOptions,
+  PullRequest,
+  ExportAsPullRequestParams,
+  ExportAsPullRequestResult
 } from './github/types/github.js';
 
 // Enhanced security exports
@@ -17,9 +30,22 @@ export { EnhancedGitHubPATAuthService } from './services/validation/EnhancedGitH
 
 // ZIP extraction utilities
 export { ZipExtractionService } from './utils/zip/ZipExtractionService.js';
+export { ArchiveSafetyPolicy } from './utils/zip/ArchiveSafetyPolicy.js';
+export { StreamingZipWriter } from './utils/zip/StreamingZipWriter.js';
+export { TarExtractor } from './utils/zip/TarExtractor.js';
+export { detectArchiveType } from './utils/zip/ArchiveType.js';
+export { ArchiveManifestService } from './utils/zip/ArchiveManifestService.js';
+export { ExtractionCheckpoint } from './utils/zip/ExtractionCheckpoint.js';
 export type {
   ZipEntry,
   ZipExtractionOptions,
   ZipExtractionResult,
-  ZipExtractionError
+  ZipExtractionError,
+  ArchiveSafetyOptions,
+  ArchiveEntryInfo,
+  ArchiveType,
+  ArchiveManifest,
+  ArchiveManifestEntry,
+  ArchiveIntegrityReport,
+  DirectoryVerificationOptions
 } from './types/zip.js';
\ No newline at end of file
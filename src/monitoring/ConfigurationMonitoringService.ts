@@ -4,6 +4,7 @@
 import { ConfigurationWorkflowResult } from '../config/ConfigurationWorkflowService';
 import { TruthVerificationResult } from '../verification/TruthVerificationService';
 import { RollbackEvent } from '../verification/AutomatedRollbackService';
+import type { WorkflowRunResult } from '../github/types/github';
 
 /**
  * Interface for monitoring metrics
@@ -43,6 +44,21 @@ export interface ConfigurationMetrics {
    * Timestamp of last operation
    */
   lastOperationTimestamp: number;
+
+  /**
+   * Total number of CI workflow runs recorded
+   */
+  workflowRuns: number;
+
+  /**
+   * Number of failed CI workflow runs
+   */
+  failedWorkflowRuns: number;
+
+  /**
+   * Average CI workflow run duration in milliseconds
+   */
+  averageWorkflowDuration: number;
 }
 
 /**
@@ -57,7 +73,7 @@ export interface MonitoringEvent {
   /**
    * Event type
    */
-  type: 'load' | 'save' | 'validate' | 'delete' | 'rollback' | 'error';
+  type: 'load' | 'save' | 'validate' | 'delete' | 'rollback' | 'workflow' | 'error';
 
   /**
    * Configuration key (if applicable)
@@ -148,9 +164,13 @@ export class ConfigurationMonitoringService {
     averageDuration: 0,
     currentTruthScore: 0,
     rollbackCount: 0,
-    lastOperationTimestamp: 0
+    lastOperationTimestamp: 0,
+    workflowRuns: 0,
+    failedWorkflowRuns: 0,
+    averageWorkflowDuration: 0
   };
   private totalDuration: number = 0;
+  private totalWorkflowDuration: number = 0;
 
   constructor(options: MonitoringServiceOptions = {}) {
     this.monitoringConfig = {
@@ -322,6 +342,47 @@ export class ConfigurationMonitoringService {
     }
   }
 
+  /**
+   * Record the outcome of a CI workflow run triggered after a sync
+   * @param repository - Repository full name (owner/repo)
+   * @param result - Completed workflow run
+   * @param environment - Environment (branch) the run belongs to
+   */
+  recordWorkflowRun(repository: string, result: WorkflowRunResult, environment?: string): void {
+    if (!this.monitoringConfig.enabled) return;
+
+    const success = result.success;
+
+    // Runs take minutes, so they keep their own counters instead of skewing the operation averages
+    this.metrics.workflowRuns++;
+    if (!success) {
+      this.metrics.failedWorkflowRuns++;
+    }
+    this.totalWorkflowDuration += result.duration;
+    this.metrics.averageWorkflowDuration = this.totalWorkflowDuration / this.metrics.workflowRuns;
+
+    if (this.shouldLogOperation(success)) {
+      const event: MonitoringEvent = {
+        timestamp: Date.now(),
+        type: 'workflow',
+        environment: environment ?? result.run.head_branch ?? undefined,
+        duration: result.duration,
+        success,
+        error: success ? undefined : `Workflow run concluded with ${result.conclusion ?? 'no conclusion'}`,
+        metadata: {
+          repository,
+          runId: result.run.id,
+          workflow: result.run.name,
+          conclusion: result.conclusion,
+          url: result.run.html_url,
+          failedJobs: result.jobs.filter(job => job.conclusion && job.conclusion !== 'success' && job.conclusion !== 'skipped').map(job => job.name)
+        }
+      };
+
+      this.recordEvent(event);
+    }
+  }
+
   /**
    * Record a generic error operation
    * @param error - Error message
@@ -435,6 +496,9 @@ export class ConfigurationMonitoringService {
       case 'rollback':
         console.log(`[CONFIG_MONITOR] ${timestamp} ROLLBACK ${status} key=${event.configKey} truth=${event.truthScore?.toFixed(2)} reason="${event.metadata?.reason}"`);
         break;
+      case 'workflow':
+        console.log(`[CONFIG_MONITOR] ${timestamp} WORKFLOW ${status} repo=${event.metadata?.repository} run=${event.metadata?.runId} conclusion=${event.metadata?.conclusion} duration=${event.duration}ms`);
+        break;
       case 'error':
         console.log(`[CONFIG_MONITOR] ${timestamp} ERROR message="${event.error}"`);
         break;
@@ -520,9 +584,13 @@ export class ConfigurationMonitoringService {
       averageDuration: 0,
       currentTruthScore: 0,
       rollbackCount: 0,
-      lastOperationTimestamp: 0
+      lastOperationTimestamp: 0,
+      workflowRuns: 0,
+      failedWorkflowRuns: 0,
+      averageWorkflowDuration: 0
     };
     this.totalDuration = 0;
+    this.totalWorkflowDuration = 0;
   }
 
   /**
@@ -26,9 +26,7 @@ export class MessageAuthenticationService implements IMessageAuthenticationServi
     const payload = JSON.stringify(payloadObj);
 
     // Generate HMAC-SHA256 signature
-    const signature = crypto.createHmac('sha256', this.secretKey)
-      .update(payload)
-      .digest('hex');
+    const signature = this.computeHmac(payload);
 
     return { payload, signature, timestamp };
   }
@@ -58,19 +56,42 @@ export class MessageAuthenticationService implements IMessageAuthenticationServi
         return false;
       }
 
-      // Generate expected signature
-      const expectedSignature = crypto.createHmac('sha256', this.secretKey)
-        .update(signedMessage.payload)
-        .digest('hex');
-
-      // Use constant-time comparison to prevent timing attacks
-      return this.constantTimeCompare(expectedSignature, signedMessage.signature);
+      // Compare against the expected signature in constant time
+      return this.verifyHmac(signedMessage.payload, signedMessage.signature);
     } catch (error) {
       // Any parsing error or other exception means invalid message
       return false;
     }
   }
 
+  /**
+   * Computes the HMAC-SHA256 of a raw payload
+   * @param payload - The exact bytes or string that were signed
+   * @returns Hex encoded signature
+   * @throws Error if secret key is not set
+   */
+  computeHmac(payload: string | Buffer): string {
+    if (!this.secretKey) {
+      throw new Error('Secret key not set');
+    }
+
+    return crypto.createHmac('sha256', this.secretKey)
+      .update(payload)
+      .digest('hex');
+  }
+
+  /**
+   * Verifies the HMAC-SHA256 of a raw payload without any timestamp envelope
+   * @param payload - The exact bytes or string that were signed
+   * @param signature - Hex encoded signature to check
+   * @returns boolean indicating if the signature matches
+   * @throws Error if secret key is not set
+   */
+  verifyHmac(payload: string | Buffer, signature: string): boolean {
+    // Use constant-time comparison to prevent timing attacks
+    return this.constantTimeCompare(this.computeHmac(payload), signature);
+  }
+
   /**
    * Sets the secret key used for signing and verification
    * @param key - The secret key
@@ -36,6 +36,21 @@ export interface MessageAuthenticationService {
    */
   verifyMessage(signedMessage: SignedMessage): boolean;
 
+  /**
+   * Computes the HMAC-SHA256 of a raw payload
+   * @param payload - The exact bytes or string that were signed
+   * @returns Hex encoded signature
+   */
+  computeHmac(payload: string | Buffer): string;
+
+  /**
+   * Verifies the HMAC-SHA256 of a raw payload without any timestamp envelope
+   * @param payload - The exact bytes or string that were signed
+   * @param signature - Hex encoded signature to check
+   * @returns boolean indicating if the signature matches
+   */
+  verifyHmac(payload: string | Buffer, signature: string): boolean;
+
   /**
    * Sets the secret key used for signing and verification
    * @param key - The secret key
@@ -42,6 +42,24 @@ export class RateLimitingService {
     return false;
   }
 
+  /**
+   * Waits until tokens can be consumed from the bucket.
+   * Lets the service act as a client-side throttle in front of HttpClient.
+   * @param tokens Number of tokens to consume
+   * @returns Promise resolving once the tokens have been consumed
+   */
+  async acquire(tokens: number = 1): Promise<void> {
+    if (tokens > this.bucketSize) {
+      throw new Error('Requested tokens exceed bucket size');
+    }
+
+    while (!this.consume(tokens)) {
+      const missing = tokens - this.tokens;
+      const waitMs = Math.ceil((missing / this.refillRate) * 1000);
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+  }
+
   /**
    * Refills the token bucket based on elapsed time
    */
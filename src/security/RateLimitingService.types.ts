@@ -79,6 +79,13 @@ export interface RateLimitingService {
    */
   consume(tokens?: number): boolean;
 
+  /**
+   * Waits until tokens can be consumed from the bucket
+   * @param tokens Number of tokens to consume
+   * @returns Promise resolving once the tokens have been consumed
+   */
+  acquire(tokens?: number): Promise<void>;
+
   /**
    * Gets the current number of available tokens
    * @returns number of available tokens
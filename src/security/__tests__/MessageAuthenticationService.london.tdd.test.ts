@@ -1,3 +1,4 @@
+import * as crypto from 'crypto';
 import { MessageAuthenticationService } from '../MessageAuthenticationService';
 
 describe('MessageAuthenticationService', () => {
@@ -67,4 +68,14 @@ describe('MessageAuthenticationService', () => {
       serviceWithoutKey.verifyMessage(signedMessage);
     }).toThrow('Secret key not set');
   });
-});
\ No newline at end of file
+
+  it('should compute and verify raw payload HMACs without a timestamp envelope', () => {
+    const payload = Buffer.from('{"zen":"Keep it logically awesome."}');
+    const signature = service.computeHmac(payload);
+
+    expect(signature).toBe(crypto.createHmac('sha256', testSecret).update(payload).digest('hex'));
+    expect(service.verifyHmac(payload.toString(), signature)).toBe(true);
+    expect(service.verifyHmac(payload, signature.replace(/^./, c => (c === '0' ? '1' : '0')))).toBe(false);
+    expect(() => new MessageAuthenticationService().computeHmac(payload)).toThrow('Secret key not set');
+  });
+});
@@ -1,4 +1,5 @@
 import { GitHubUser, AuthResult } from '../types/github.js';
+import { resolveGitHubEndpoints } from '../utils/githubEndpoints.js';
 
 /**
  * Interface for token exchange result
@@ -14,16 +15,26 @@ export interface TokenExchangeResult {
  */
 export class GitHubAppAuthService {
   private readonly TOKEN_REGEX = /^ghu_[a-zA-Z0-9]{36}$/;
-  private readonly GITHUB_API_BASE = 'https://api.github.com';
-  private readonly GITHUB_OAUTH_BASE = 'https://github.com/login/oauth';
+  private readonly GITHUB_API_BASE: string;
+  private readonly GITHUB_OAUTH_BASE: string;
 
+  /**
+   * @param clientId GitHub App client ID
+   * @param clientSecret GitHub App client secret
+   * @param host GitHub host (github.com or a GitHub Enterprise Server host)
+   */
   constructor(
     private readonly clientId: string,
-    private readonly clientSecret: string
+    private readonly clientSecret: string,
+    host?: string
   ) {
     if (!clientId || !clientSecret) {
       throw new Error('GitHub App client ID and secret are required');
     }
+
+    const endpoints = resolveGitHubEndpoints(host);
+    this.GITHUB_API_BASE = endpoints.apiBaseUrl;
+    this.GITHUB_OAUTH_BASE = endpoints.oauthBaseUrl;
   }
 
   /**
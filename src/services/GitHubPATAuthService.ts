@@ -1,14 +1,23 @@
 import { GitHubUser, AuthResult } from '../types/github.js';
+import { resolveGitHubEndpoints } from '../utils/githubEndpoints.js';
 
 /**
  * Service for handling GitHub Personal Access Token authentication
  */
 export class GitHubPATAuthService {
-  private readonly PAT_REGEX = /^ghp_[a-zA-Z0-9]{36}$/;
-  private readonly GITHUB_API_BASE = 'https://api.github.com';
+  private readonly PAT_REGEX = /^ghp_[a-zA-Z0-9]{36}$|^github_pat_[a-zA-Z0-9]{22}_[a-zA-Z0-9]{59}$/;
+  private readonly GITHUB_API_BASE: string;
+
+  /**
+   * @param host GitHub host (github.com or a GitHub Enterprise Server host)
+   */
+  constructor(host?: string) {
+    this.GITHUB_API_BASE = resolveGitHubEndpoints(host).apiBaseUrl;
+  }
 
   /**
    * Validates the format of a GitHub Personal Access Token
+   * Supports both classic PATs (ghp_) and fine-grained PATs (github_pat_)
    * @param token The token to validate
    * @returns boolean indicating if the token format is valid
    */
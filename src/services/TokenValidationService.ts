@@ -4,6 +4,10 @@
 import { GitHubPATAuthService } from './GitHubPATAuthService.js';
 import { GitHubAppAuthService, TokenExchangeResult } from './GitHubAppAuthService.js';
 import { TokenEncryptionService } from '../security/TokenEncryptionService.js';
+import { AuthStrategy } from './auth/AuthStrategy.js';
+import { PATAuthStrategy } from './auth/PATAuthStrategy.js';
+import { OAuthUserTokenStrategy } from './auth/OAuthUserTokenStrategy.js';
+import { resolveGitHubEndpoints } from '../utils/githubEndpoints.js';
 
 /**
  * Interface for token validation result
@@ -54,6 +58,7 @@ export interface TokenRefreshResult {
  * Service for validating and refreshing access tokens
  */
 export class TokenValidationService {
+  private readonly GITHUB_API_BASE: string;
   private readonly githubPatAuthService: GitHubPATAuthService;
   private readonly githubAppAuthService: GitHubAppAuthService | null;
   private readonly tokenEncryptionService: TokenEncryptionService;
@@ -63,8 +68,10 @@ export class TokenValidationService {
     githubPatAuthService: GitHubPATAuthService,
     tokenEncryptionService: TokenEncryptionService,
     encryptionPassword: string,
-    githubAppAuthService?: GitHubAppAuthService
+    githubAppAuthService?: GitHubAppAuthService,
+    githubHost?: string
   ) {
+    this.GITHUB_API_BASE = resolveGitHubEndpoints(githubHost).apiBaseUrl;
     this.githubPatAuthService = githubPatAuthService;
     this.githubAppAuthService = githubAppAuthService || null;
     this.tokenEncryptionService = tokenEncryptionService;
@@ -74,7 +81,7 @@ export class TokenValidationService {
   /**
    * Validate an access token
    * @param encryptedToken - The encrypted token to validate
-   * @param tokenType - The type of token (github-pat, github-app, etc.)
+   * @param tokenType - The type of token (github-pat, github-app, oauth-user)
    * @returns Token validation result
    */
   async validateToken(encryptedToken: string, tokenType: string): Promise<TokenValidationResult> {
@@ -91,6 +98,8 @@ export class TokenValidationService {
           return await this.validateGitHubPat(decryptedToken);
         case 'github-app':
           return await this.validateGitHubApp(decryptedToken);
+        case 'oauth-user':
+          return await this.validateStrategy(new OAuthUserTokenStrategy(decryptedToken));
         default:
           return {
             valid: false,
@@ -177,7 +186,7 @@ export class TokenValidationService {
    */
   private async validateGitHubPat(token: string): Promise<TokenValidationResult> {
     // First check format
-    if (!this.githubPatAuthService.validateToken(token)) {
+    if (!new PATAuthStrategy(token, this.githubPatAuthService).validate()) {
       return {
         valid: false,
         error: 'Invalid GitHub PAT format'
@@ -199,6 +208,54 @@ export class TokenValidationService {
     }
   }
 
+  /**
+   * Validate the credentials of an authentication strategy against the GitHub API
+   * @param strategy - The strategy GitHubClient would authenticate with
+   * @returns Token validation result
+   */
+  async validateStrategy(strategy: AuthStrategy): Promise<TokenValidationResult> {
+    if (!strategy.validate()) {
+      return {
+        valid: false,
+        error: `Invalid ${strategy.label} format`
+      };
+    }
+
+    try {
+      const headers = await strategy.getAuthHeaders();
+      // Installation tokens are not tied to a user, so probe an installation endpoint instead
+      const path = strategy.type === 'github-app-installation' ? '/installation/repositories?per_page=1' : '/user';
+      const response = await fetch(`${this.GITHUB_API_BASE}${path}`, {
+        headers: {
+          ...headers,
+          'User-Agent': 'bolt-to-github-extension'
+        }
+      });
+
+      if (response.ok) {
+        return {
+          valid: true
+        };
+      } else if (response.status === 401) {
+        return {
+          valid: false,
+          needsRefresh: strategy.type !== 'github-pat',
+          error: `${strategy.label} credentials are invalid or expired`
+        };
+      } else {
+        return {
+          valid: false,
+          error: `GitHub API error: ${response.status}`
+        };
+      }
+    } catch (error) {
+      return {
+        valid: false,
+        error: `Failed to validate ${strategy.label}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
   /**
    * Validate a GitHub App access token
    * @param token - The token to validate
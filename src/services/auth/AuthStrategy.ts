@@ -0,0 +1,49 @@
+import { PATAuthStrategy } from './PATAuthStrategy.js';
+import { OAuthUserTokenStrategy } from './OAuthUserTokenStrategy.js';
+
+/**
+ * Kinds of credentials GitHubClient can authenticate with
+ */
+export type AuthStrategyType = 'github-pat' | 'oauth-user' | 'github-app-installation';
+
+/**
+ * Authentication strategy used by GitHubClient and TokenValidationService
+ * to produce Authorization headers for GitHub API requests
+ */
+export interface AuthStrategy {
+  /**
+   * Credential kind, matching the token types understood by TokenValidationService
+   */
+  readonly type: AuthStrategyType;
+
+  /**
+   * Human-readable credential name used in error messages
+   */
+  readonly label: string;
+
+  /**
+   * Validates the credential format without contacting GitHub
+   * @returns boolean indicating if the credential format is valid
+   */
+  validate(): boolean;
+
+  /**
+   * Returns the headers to attach to an API request, refreshing the
+   * credential first when it is about to expire
+   * @returns Promise resolving to the Authorization headers
+   */
+  getAuthHeaders(): Promise<Record<string, string>>;
+}
+
+/**
+ * Picks the strategy for a raw token string based on its prefix.
+ * OAuth user tokens (ghu_, gho_) use Bearer auth; anything else is treated as a PAT.
+ * @param token Raw access token
+ * @returns Authentication strategy for the token
+ */
+export function createTokenStrategy(token: string): AuthStrategy {
+  if (typeof token === 'string' && /^gh[uo]_/.test(token)) {
+    return new OAuthUserTokenStrategy(token);
+  }
+  return new PATAuthStrategy(token);
+}
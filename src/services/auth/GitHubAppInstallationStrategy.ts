@@ -0,0 +1,157 @@
+import { createSign } from 'crypto';
+import { AuthStrategy } from './AuthStrategy.js';
+import { resolveGitHubEndpoints } from '../../utils/githubEndpoints.js';
+
+/**
+ * Configuration for GitHub App installation authentication
+ */
+export interface GitHubAppInstallationConfig {
+  /**
+   * GitHub App ID (the JWT issuer)
+   */
+  appId: string | number;
+
+  /**
+   * PEM-encoded private key of the GitHub App
+   */
+  privateKey: string;
+
+  /**
+   * ID of the installation to act as
+   */
+  installationId: string | number;
+
+  /**
+   * GitHub host (github.com or a GitHub Enterprise Server host)
+   */
+  host?: string;
+
+  /**
+   * API base URL used for the token exchange; derived from host when omitted
+   */
+  apiBaseUrl?: string;
+
+  /**
+   * Refresh the installation token this long before it expires (default 5 minutes)
+   */
+  refreshMarginMs?: number;
+}
+
+/**
+ * Installation access token returned by GitHub
+ */
+export interface InstallationToken {
+  token: string;
+  expiresAt: number; // epoch milliseconds
+}
+
+/**
+ * Authentication as a GitHub App installation.
+ * Signs a short-lived RS256 JWT with the app private key, exchanges it for an
+ * installation access token and refreshes that token before it expires.
+ */
+export class GitHubAppInstallationStrategy implements AuthStrategy {
+  readonly type = 'github-app-installation' as const;
+  readonly label = 'GitHub App installation';
+  private readonly apiBaseUrl: string;
+  private readonly refreshMarginMs: number;
+  private cachedToken: InstallationToken | null = null;
+  private pendingRefresh: Promise<InstallationToken> | null = null;
+
+  constructor(private readonly config: GitHubAppInstallationConfig) {
+    this.apiBaseUrl = config.apiBaseUrl || resolveGitHubEndpoints(config.host).apiBaseUrl;
+    this.refreshMarginMs = config.refreshMarginMs ?? 5 * 60 * 1000;
+  }
+
+  validate(): boolean {
+    return Boolean(
+      this.config &&
+      this.config.appId &&
+      this.config.installationId &&
+      typeof this.config.privateKey === 'string' &&
+      this.config.privateKey.includes('PRIVATE KEY')
+    );
+  }
+
+  async getAuthHeaders(): Promise<Record<string, string>> {
+    const installationToken = await this.getInstallationToken();
+    return {
+      'Authorization': `Bearer ${installationToken.token}`
+    };
+  }
+
+  /**
+   * Returns a valid installation token, exchanging a new JWT when the cached
+   * token is missing or within the refresh margin of its expiry
+   * @returns Promise resolving to the installation token
+   */
+  async getInstallationToken(): Promise<InstallationToken> {
+    if (this.cachedToken && this.cachedToken.expiresAt - this.refreshMarginMs > Date.now()) {
+      return this.cachedToken;
+    }
+
+    // Concurrent requests share a single exchange
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.exchangeToken().finally(() => {
+        this.pendingRefresh = null;
+      });
+    }
+
+    this.cachedToken = await this.pendingRefresh;
+    return this.cachedToken;
+  }
+
+  /**
+   * Creates the RS256 JWT used to authenticate as the app itself
+   * @param now Current time in epoch milliseconds
+   * @returns Signed JWT
+   */
+  createAppJwt(now: number = Date.now()): string {
+    const issuedAt = Math.floor(now / 1000) - 60; // Allow for clock drift
+    const header = { alg: 'RS256', typ: 'JWT' };
+    const payload = {
+      iat: issuedAt,
+      exp: issuedAt + 10 * 60, // GitHub rejects app JWTs valid for more than 10 minutes
+      iss: String(this.config.appId)
+    };
+
+    const unsigned = `${this.base64Url(JSON.stringify(header))}.${this.base64Url(JSON.stringify(payload))}`;
+    const signer = createSign('RSA-SHA256');
+    signer.update(unsigned);
+    const signature = signer.sign(this.config.privateKey).toString('base64url');
+
+    return `${unsigned}.${signature}`;
+  }
+
+  private async exchangeToken(): Promise<InstallationToken> {
+    const response = await fetch(
+      `${this.apiBaseUrl}/app/installations/${this.config.installationId}/access_tokens`,
+      {
+        method: 'POST',
+        headers: {
+          'Accept': 'application/vnd.github.v3+json',
+          'Authorization': `Bearer ${this.createAppJwt()}`,
+          'User-Agent': 'bolt-to-github-extension'
+        }
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to obtain installation token: GitHub API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data: any = await response.json();
+    if (!data.token) {
+      throw new Error('Failed to obtain installation token from GitHub');
+    }
+
+    return {
+      token: data.token,
+      expiresAt: data.expires_at ? Date.parse(data.expires_at) : Date.now() + 60 * 60 * 1000
+    };
+  }
+
+  private base64Url(value: string): string {
+    return Buffer.from(value).toString('base64url');
+  }
+}
@@ -0,0 +1,26 @@
+import { AuthStrategy } from './AuthStrategy.js';
+
+/**
+ * Authentication with an OAuth user access token, either a GitHub App
+ * user-to-server token (ghu_) or an OAuth App token (gho_)
+ */
+export class OAuthUserTokenStrategy implements AuthStrategy {
+  private readonly TOKEN_REGEX = /^gh[uo]_[a-zA-Z0-9]{36}$/;
+  readonly type = 'oauth-user' as const;
+  readonly label = 'GitHub OAuth token';
+
+  constructor(private readonly token: string) {}
+
+  validate(): boolean {
+    if (!this.token || typeof this.token !== 'string') {
+      return false;
+    }
+    return this.TOKEN_REGEX.test(this.token);
+  }
+
+  async getAuthHeaders(): Promise<Record<string, string>> {
+    return {
+      'Authorization': `Bearer ${this.token}`
+    };
+  }
+}
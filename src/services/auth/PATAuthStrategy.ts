@@ -0,0 +1,25 @@
+import { AuthStrategy } from './AuthStrategy.js';
+import { GitHubPATAuthService } from '../GitHubPATAuthService.js';
+
+/**
+ * Authentication with a classic (ghp_) or fine-grained (github_pat_) Personal Access Token
+ */
+export class PATAuthStrategy implements AuthStrategy {
+  readonly type = 'github-pat' as const;
+  readonly label = 'GitHub PAT';
+
+  constructor(
+    private readonly token: string,
+    private readonly patAuthService: GitHubPATAuthService = new GitHubPATAuthService()
+  ) {}
+
+  validate(): boolean {
+    return this.patAuthService.validateToken(this.token);
+  }
+
+  async getAuthHeaders(): Promise<Record<string, string>> {
+    return {
+      'Authorization': `token ${this.token}`
+    };
+  }
+}
@@ -31,6 +31,37 @@ export interface FilterConfig {
    * @default [] (all types allowed)
    */
   contentTypes?: string[];
+
+  /**
+   * How files too large for the contents API are handled
+   * @default undefined (large files are treated like any other file)
+   */
+  largeFiles?: LargeFilePolicyConfig;
+}
+
+/**
+ * What to do with a file above the large file threshold:
+ * route it to Git LFS, upload it as a Git Data API blob, or exclude it
+ */
+export type LargeFileAction = 'lfs' | 'blob' | 'exclude';
+
+/**
+ * Upload route of an included large file
+ */
+export type LargeFileRoute = 'lfs' | 'blob';
+
+/**
+ * Large file policy configuration
+ */
+export interface LargeFilePolicyConfig {
+  /** Action for files above the threshold */
+  action: LargeFileAction;
+
+  /**
+   * Size in bytes above which a file counts as large
+   * @default 1048576 (the contents API limit)
+   */
+  threshold?: number;
 }
 
 /**
@@ -45,6 +76,9 @@ export interface FilterResult {
 
   /** Reasons why files were excluded */
   reasons: Record<string, string>;
+
+  /** Upload route of included large files, set when a large file policy is configured */
+  routes?: Record<string, LargeFileRoute>;
 }
 
 /**
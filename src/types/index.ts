@@ -11,5 +11,12 @@ export type {
   ZipEntry,
   ZipExtractionOptions,
   ZipExtractionResult,
-  ZipExtractionError
+  ZipExtractionError,
+  ArchiveSafetyOptions,
+  ArchiveEntryInfo,
+  ArchiveType,
+  ArchiveManifest,
+  ArchiveManifestEntry,
+  ArchiveIntegrityReport,
+  DirectoryVerificationOptions
 } from './zip.js';
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { Readable } from 'stream';
+import type { ArchiveSafetyOptions } from './zip';
 
 /**
  * Represents a ZIP entry with streaming capabilities
@@ -12,6 +13,12 @@ export interface StreamEntry {
   isDirectory: boolean;
   /** Readable stream for the entry data */
   stream: Readable;
+  /** Last modified date, if known */
+  lastModified?: Date;
+  /** Unix permission bits (e.g. 0o755), if known */
+  mode?: number;
+  /** CRC-32 recorded by the archive, verified once the data is read */
+  crc32?: number;
 }
 
 /**
@@ -30,6 +37,8 @@ export interface StreamProgress {
   rate?: number;
   /** Timestamp of last update */
   timestamp?: number;
+  /** Entries among those processed that an earlier run completed and were skipped */
+  resumed?: number;
 }
 
 /**
@@ -48,8 +57,77 @@ export interface StreamOptions {
   onProgress?: (progress: StreamProgress) => void;
   /** Callback for entry processing */
   onEntry?: (entry: StreamEntry) => Promise<void>;
-  /** Whether to validate entry names for security */
+  /**
+   * Whether to validate entry names for security
+   * @deprecated Entry names are always validated by the archive safety policy
+   */
   validateEntryNames?: boolean;
+  /** Limits that make an archive unsafe to extract */
+  safety?: ArchiveSafetyOptions;
+  /** Sidecar file recording each completed entry, so an interrupted run can resume */
+  checkpointPath?: string;
+  /**
+   * Whether to skip entries that the checkpoint records as completed.
+   * Needs outputDirectory or verifyCompleted, so skipped entries are known to be intact
+   */
+  resume?: boolean;
+  /** Directory entries are extracted into; on resume, completed entries are hashed there before they are skipped */
+  outputDirectory?: string;
+  /** Check that the output of a completed entry is intact before it is skipped, in place of hashing outputDirectory */
+  verifyCompleted?: (entry: CheckpointEntry) => Promise<boolean>;
   /** Encoding for text files */
   encoding?: BufferEncoding;
-}
\ No newline at end of file
+}
+
+/**
+ * An entry that an extraction checkpoint records as completed
+ */
+export interface CheckpointEntry {
+  /** Name of the entry */
+  name: string;
+  /** Size of the uncompressed data */
+  size: number;
+  /** CRC-32 of the data, as 8 hex digits */
+  crc32: string;
+  /** SHA-256 of the data, hex encoded */
+  sha256: string;
+  /** Bytes of all entries completed so far, including this one */
+  bytesWritten: number;
+}
+
+/**
+ * Compression method of an entry written to a ZIP archive
+ */
+export type ZipCompressionMethod = 'deflate' | 'store';
+
+/**
+ * A file in a project file map; strings without an encoding are UTF-8
+ */
+export type ZipFileMapEntry = string | Buffer | {
+  content: string | Buffer;
+  encoding?: 'utf-8' | 'base64';
+  /** Unix permission bits, or a Git file mode such as '100755' */
+  mode?: number | string;
+  lastModified?: Date;
+};
+
+/**
+ * Project files keyed by archive path
+ */
+export type ZipFileMap = Record<string, ZipFileMapEntry>;
+
+/**
+ * Options for writing ZIP archives
+ */
+export interface ZipWriterOptions {
+  /** Compression method, or a function choosing one per entry (default: 'deflate') */
+  compression?: ZipCompressionMethod | ((entry: StreamEntry) => ZipCompressionMethod);
+  /** zlib compression level for deflated entries (default: zlib default) */
+  level?: number;
+  /** Timestamp for entries without one (default: time the archive is written) */
+  lastModified?: Date;
+  /** Maximum memory usage in bytes for backpressure handling */
+  maxMemoryUsage?: number;
+  /** High water mark for backpressure handling */
+  highWaterMark?: number;
+}
@@ -40,6 +40,32 @@ export interface ZipExtractionOptions {
   excludePatterns?: string[];
   /** High water mark for backpressure handling */
   highWaterMark?: number;
+  /** Limits that make an archive unsafe to extract */
+  safety?: ArchiveSafetyOptions;
+  /** Whether to hash every extracted file and return an integrity manifest */
+  manifest?: boolean;
+}
+
+export interface ArchiveSafetyOptions {
+  /** Maximum number of entries in the archive (default: 10000) */
+  maxEntries?: number;
+  /** Maximum uncompressed size of all entries together, in bytes (default: 1GB) */
+  maxTotalSize?: number;
+  /** Maximum uncompressed-to-compressed size ratio of a single entry (default: 100) */
+  maxCompressionRatio?: number;
+  /** Whether symbolic links refuse the whole archive or are skipped (default: 'reject') */
+  symlinks?: 'reject' | 'skip';
+}
+
+export interface ArchiveEntryInfo {
+  /** Name of the entry as stored in the archive */
+  name: string;
+  /** Size of the uncompressed data */
+  size: number;
+  /** Size of the compressed data, if the archive format records it */
+  compressedSize?: number;
+  /** Unix mode bits, if the archive was created on a Unix system */
+  mode?: number;
 }
 
 export interface ZipExtractionResult {
@@ -51,8 +77,64 @@ export interface ZipExtractionResult {
   entries: ZipEntry[];
   /** Any warnings during extraction */
   warnings: string[];
+  /** Content hashes of the extracted files, when requested */
+  manifest?: ArchiveManifest;
 }
 
+export interface ArchiveManifestEntry {
+  /** Path of the file inside the archive */
+  path: string;
+  /** Size of the file in bytes */
+  size: number;
+  /** Unix permission bits, if the archive records them */
+  mode?: number;
+  /** CRC-32 of the content, as 8 hex digits */
+  crc32: string;
+  /** SHA-256 of the content, hex encoded */
+  sha256: string;
+  /** Git blob SHA-1 of the content, as GitHub reports it for the exported file */
+  gitBlobSha: string;
+}
+
+export interface ArchiveManifest {
+  /** Manifest format version */
+  version: 1;
+  /** SHA-256 of the archive file itself */
+  archiveSha256: string;
+  /** ISO 8601 time the manifest was created */
+  createdAt: string;
+  /** Extracted files, sorted by path */
+  entries: ArchiveManifestEntry[];
+  /** HMAC-SHA256 of the canonical manifest without this field */
+  signature?: string;
+}
+
+export interface ArchiveIntegrityReport {
+  /** Whether the manifest carries a valid signature */
+  signatureValid: boolean;
+  /** Paths whose content matches the manifest */
+  matched: string[];
+  /** Paths listed in the manifest but not found */
+  missing: string[];
+  /** Paths found with different content */
+  modified: string[];
+  /** Paths found but not listed in the manifest */
+  unexpected: string[];
+  /** True when the signature is valid and the contents match exactly */
+  valid: boolean;
+}
+
+export interface DirectoryVerificationOptions {
+  /**
+   * Sidecar files kept inside the extraction directory, such as an extraction
+   * checkpoint or the manifest itself; absolute or relative to the directory
+   */
+  exclude?: string[];
+}
+
+/** Container format of an archive, detected from its magic bytes */
+export type ArchiveType = 'zip' | 'tar' | 'tar.gz' | 'unknown';
+
 export class ZipExtractionError extends Error {
   constructor(
     message: string,
@@ -63,7 +145,12 @@ export class ZipExtractionError extends Error {
       | 'EXTRACTION_FAILED'
       | 'UNSUPPORTED_FORMAT'
       | 'STREAM_ERROR'
-      | 'MEMORY_LIMIT_EXCEEDED',
+      | 'MEMORY_LIMIT_EXCEEDED'
+      | 'UNSAFE_PATH'
+      | 'SYMLINK_NOT_ALLOWED'
+      | 'TOO_MANY_ENTRIES'
+      | 'TOTAL_SIZE_EXCEEDED'
+      | 'COMPRESSION_RATIO_EXCEEDED',
     public readonly originalError?: Error
   ) {
     super(message);
@@ -0,0 +1,23 @@
+// CRC-32 (IEEE 802.3), as used by ZIP, gzip and PNG
+const CRC_TABLE = new Uint32Array(256);
+for (let n = 0; n < 256; n++) {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  CRC_TABLE[n] = c >>> 0;
+}
+
+/**
+ * Compute or continue a CRC-32 checksum
+ * @param data Bytes to checksum
+ * @param previous Checksum of the preceding bytes, to checksum data in chunks
+ * @returns Unsigned 32-bit checksum
+ */
+export function crc32(data: Uint8Array, previous: number = 0): number {
+  let crc = ~previous;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+}
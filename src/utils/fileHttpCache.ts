@@ -0,0 +1,66 @@
+// File-backed HTTP cache store; Node only, so it is kept out of httpCache
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { CachedResponse, HttpCacheStore } from './httpCache';
+
+/**
+ * File-based store for Node, writing one JSON file per entry
+ */
+export class FileHttpCacheStore implements HttpCacheStore {
+  constructor(private readonly directory: string) {}
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    try {
+      const content = await fs.readFile(this.entryPath(key), 'utf8');
+      return JSON.parse(content) as CachedResponse;
+    } catch (error: any) {
+      if (error.code === 'ENOENT' || error instanceof SyntaxError) {
+        return undefined;
+      }
+      throw new Error(`Failed to read HTTP cache entry: ${error.message}`);
+    }
+  }
+
+  async set(key: string, entry: CachedResponse): Promise<void> {
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      // Write then rename so readers never see a partial entry
+      const filePath = this.entryPath(key);
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(entry), 'utf8');
+      await fs.rename(tempPath, filePath);
+    } catch (error: any) {
+      throw new Error(`Failed to write HTTP cache entry: ${error.message}`);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.entryPath(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    for (const file of await this.listEntries()) {
+      await fs.rm(path.join(this.directory, file), { force: true });
+    }
+  }
+
+  async size(): Promise<number> {
+    return (await this.listEntries()).length;
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  private async listEntries(): Promise<string[]> {
+    try {
+      return (await fs.readdir(this.directory)).filter(file => file.endsWith('.json'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
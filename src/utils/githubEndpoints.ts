@@ -0,0 +1,79 @@
+// GitHub.com and GitHub Enterprise Server endpoint resolution
+export const GITHUB_DOT_COM_HOST = 'github.com';
+
+export interface GitHubEndpoints {
+  host: string;
+  webBaseUrl: string;
+  apiBaseUrl: string;
+  oauthBaseUrl: string;
+  uploadsBaseUrl: string;
+}
+
+/**
+ * Resolve the API, OAuth and uploads URLs for a GitHub host.
+ *
+ * GitHub.com uses dedicated api./uploads. subdomains, while GitHub Enterprise
+ * Server serves the REST API under /api/v3 and uploads under /api/uploads on
+ * the instance host. The host may be given as a bare hostname, a web URL or an
+ * API URL (with or without /api/v3); all resolve to the same endpoints.
+ * @param host GitHub host; defaults to github.com
+ * @returns Endpoints for the host
+ */
+export function resolveGitHubEndpoints(host?: string): GitHubEndpoints {
+  const { protocol, hostname } = parseHost(host);
+
+  if (hostname === GITHUB_DOT_COM_HOST || hostname === `api.${GITHUB_DOT_COM_HOST}`) {
+    return {
+      host: GITHUB_DOT_COM_HOST,
+      webBaseUrl: 'https://github.com',
+      apiBaseUrl: 'https://api.github.com',
+      oauthBaseUrl: 'https://github.com/login/oauth',
+      uploadsBaseUrl: 'https://uploads.github.com'
+    };
+  }
+
+  const webBaseUrl = `${protocol}//${hostname}`;
+  return {
+    host: hostname,
+    webBaseUrl,
+    apiBaseUrl: `${webBaseUrl}/api/v3`,
+    oauthBaseUrl: `${webBaseUrl}/login/oauth`,
+    uploadsBaseUrl: `${webBaseUrl}/api/uploads`
+  };
+}
+
+/**
+ * Whether a host refers to GitHub Enterprise Server rather than GitHub.com
+ * @param host GitHub host
+ * @returns true for GHES hosts
+ */
+export function isEnterpriseHost(host?: string): boolean {
+  return resolveGitHubEndpoints(host).host !== GITHUB_DOT_COM_HOST;
+}
+
+/**
+ * Fill in any missing endpoint URLs of a partial GitHub configuration
+ * @param github Partial configuration; explicit URLs are kept
+ * @param fallbackHost Host used when the configuration names none
+ * @returns Configuration with every endpoint set
+ */
+export function withGitHubEndpoints<T extends Partial<GitHubEndpoints>>(github: T, fallbackHost?: string): T & GitHubEndpoints {
+  const resolved = resolveGitHubEndpoints(github.host || github.apiBaseUrl || fallbackHost);
+  return {
+    ...resolved,
+    ...Object.fromEntries(Object.entries(github).filter(([, value]) => value !== undefined && value !== '')),
+    host: resolved.host
+  } as T & GitHubEndpoints;
+}
+
+function parseHost(host?: string): { protocol: string; hostname: string } {
+  const value = (host || GITHUB_DOT_COM_HOST).trim();
+  const withProtocol = /^[a-z]+:\/\//i.test(value) ? value : `https://${value}`;
+
+  try {
+    const url = new URL(withProtocol);
+    return { protocol: url.protocol, hostname: url.host.toLowerCase() };
+  } catch {
+    throw new Error(`Invalid GitHub host: ${host}`);
+  }
+}
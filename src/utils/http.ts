@@ -1,18 +1,166 @@
 // HTTP utility functions
+import { GitHubError } from '../github/types/github';
+import { ExponentialBackoffRetryPolicy, NO_RETRY, RequestThrottle, RetryPolicyOptions, RetryStrategy, sleep } from './retry';
+import { CachedResponse, HttpCacheStatus, HttpCacheStore, createCacheKey } from './httpCache';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Supplies the Authorization headers for a request.
+ * May be async so credentials can be refreshed before they expire.
+ */
+export type AuthHeadersProvider = () => Record<string, string> | Promise<Record<string, string>>;
+
 export interface HttpClientOptions {
   baseUrl?: string;
   userAgent?: string;
   timeout?: number;
+  retry?: Partial<RetryPolicyOptions> | RetryStrategy | false;
+  throttle?: RequestThrottle;
+  cache?: HttpCacheStore;
+}
+
+export interface RateLimitInfo {
+  limit: number;
+  remaining: number;
+  reset: number; // Unix epoch seconds
+  used?: number;
+  resource?: string;
+}
+
+export interface HttpResponse<T = any> {
+  status: number;
+  data: T;
+  headers: Record<string, string>;
+  etag?: string;
+  link?: string;
+  rateLimit?: RateLimitInfo;
+  requestId?: string;
+  fromCache?: boolean; // Served from the cache after a 304 Not Modified
+}
+
+export interface HttpRequestOptions {
+  body?: any; // JSON-serialized, except Uint8Array/ArrayBuffer which are sent as raw bytes
+  headers?: Record<string, string>;
+  responseType?: 'json' | 'binary'; // 'binary' returns successful bodies as a Buffer and bypasses the cache
+}
+
+/**
+ * Error raised for non-2xx GitHub API responses.
+ * Carries the HTTP status, the parsed GitHub error body and the request id
+ * so callers can branch on the failure instead of parsing messages.
+ */
+export class GitHubApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly body?: GitHubError,
+    public readonly requestId?: string,
+    public readonly headers: Record<string, string> = {}
+  ) {
+    super(message);
+    this.name = 'GitHubApiError';
+  }
+
+  get documentationUrl(): string | undefined {
+    return this.body?.documentation_url;
+  }
+
+  get errors(): GitHubError['errors'] {
+    return this.body?.errors;
+  }
+}
+
+/**
+ * Find the API error behind an error, following the `cause` that service
+ * wrappers ("Failed to ...: HTTP 403 ...") keep
+ * @param error Error thrown by a service
+ * @returns The underlying GitHubApiError, if there is one
+ */
+export function findApiError(error: unknown): GitHubApiError | undefined {
+  for (let current = error; current instanceof Error; current = (current as Error & { cause?: unknown }).cause) {
+    if (current instanceof GitHubApiError) {
+      return current;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parse the X-RateLimit-* headers of a response
+ * @param headers Response headers (lower-cased keys)
+ * @returns Rate limit info, or undefined when the headers are absent
+ */
+export function parseRateLimit(headers: Record<string, string>): RateLimitInfo | undefined {
+  if (headers['x-ratelimit-limit'] === undefined || headers['x-ratelimit-remaining'] === undefined) {
+    return undefined;
+  }
+
+  const info: RateLimitInfo = {
+    limit: parseInt(headers['x-ratelimit-limit'], 10),
+    remaining: parseInt(headers['x-ratelimit-remaining'], 10),
+    reset: parseInt(headers['x-ratelimit-reset'] || '0', 10)
+  };
+  if (headers['x-ratelimit-used'] !== undefined) {
+    info.used = parseInt(headers['x-ratelimit-used'], 10);
+  }
+  if (headers['x-ratelimit-resource'] !== undefined) {
+    info.resource = headers['x-ratelimit-resource'];
+  }
+  return info;
+}
+
+/**
+ * Parse a Link header into a map of rel -> URL
+ * @param link Link header value
+ * @returns Map of relation names to URLs
+ */
+export function parseLinkHeader(link: string | undefined): Record<string, string> {
+  const links: Record<string, string> = {};
+  if (!link) {
+    return links;
+  }
+
+  for (const part of link.split(',')) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="([^"]+)"/);
+    if (match) {
+      links[match[2]] = match[1];
+    }
+  }
+  return links;
+}
+
+/**
+ * Build a query string from defined parameters
+ * @param params Query parameters; undefined values are skipped
+ * @returns Query string including the leading '?', or '' when empty
+ */
+export function toQueryString(params: Record<string, string | number | boolean | undefined>): string {
+  const entries = Object.entries(params).filter(([, value]) => value !== undefined);
+  if (entries.length === 0) {
+    return '';
+  }
+  return '?' + entries
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join('&');
 }
 
 export class HttpClient {
   private baseUrl: string;
   private defaultHeaders: Record<string, string>;
   private timeout: number;
+  private retryStrategy: RetryStrategy;
+  private throttle?: RequestThrottle;
+  private cache?: HttpCacheStore;
+  private cacheHits: number = 0;
+  private cacheMisses: number = 0;
 
   constructor(options: HttpClientOptions = {}) {
     this.baseUrl = options.baseUrl || 'https://api.github.com';
     this.timeout = options.timeout || 10000;
+    this.retryStrategy = this.createRetryStrategy(options.retry);
+    this.throttle = options.throttle;
+    this.cache = options.cache;
     this.defaultHeaders = {
       'User-Agent': options.userAgent || 'bolt-diy-to-github-client',
       'Accept': 'application/vnd.github.v3+json'
@@ -35,47 +183,234 @@ export class HttpClient {
     }
   }
 
-  async get(path: string, headers: Record<string, string> = {}): Promise<any> {
-    const url = `${this.baseUrl}${path}`;
-    const response = await this.request(url, {
-      method: 'GET',
-      headers
-    });
+  /**
+   * Send a request and return the parsed body together with response metadata.
+   * When a cache is configured, GET requests are made conditional on the cached
+   * ETag/Last-Modified and a 304 Not Modified is answered from the cache; GitHub
+   * does not count 304 responses against the rate limit.
+   * @param method HTTP method
+   * @param path API path relative to the base URL
+   * @param options Request body and extra headers
+   * @returns Promise resolving to the response data, status and headers
+   * @throws GitHubApiError for non-2xx responses
+   */
+  async send<T = any>(method: HttpMethod, path: string, options: HttpRequestOptions = {}): Promise<HttpResponse<T>> {
+    // Pagination links are absolute URLs
+    const url = /^https?:\/\//.test(path) ? path : `${this.baseUrl}${path}`;
+    const init: RequestInit = {
+      method,
+      headers: options.headers || {}
+    };
+    if (options.body instanceof Uint8Array || options.body instanceof ArrayBuffer) {
+      // Binary uploads (e.g. release assets) are sent as-is
+      init.headers = { 'Content-Type': 'application/octet-stream', ...options.headers };
+      init.body = options.body;
+    } else if (options.body !== undefined) {
+      init.headers = { 'Content-Type': 'application/json', ...options.headers };
+      init.body = JSON.stringify(options.body);
+    }
 
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    const cacheKey = this.cache && method === 'GET' && options.responseType !== 'binary'
+      ? createCacheKey(url, { ...this.defaultHeaders, ...options.headers })
+      : undefined;
+    const cached = cacheKey ? await this.readCache(cacheKey) : undefined;
+    if (cached) {
+      init.headers = { ...init.headers, ...this.conditionalHeaders(cached) };
     }
 
-    return response.json();
+    for (let attempt = 0; ; attempt++) {
+      if (this.throttle) {
+        await this.throttle.acquire();
+      }
+
+      let response: Response;
+      try {
+        response = await this.request(url, init);
+      } catch (error) {
+        const delay = this.retryStrategy.getRetryDelay(attempt, { method, error });
+        if (delay === null) {
+          throw error;
+        }
+        await sleep(delay);
+        continue;
+      }
+
+      const headers = this.readHeaders(response);
+      const data = options.responseType === 'binary' && response.ok
+        ? Buffer.from(await response.arrayBuffer())
+        : await this.readBody(response);
+
+      if (response.status === 304 && cached) {
+        this.cacheHits++;
+        return this.toResponse(cached.status, cached.data, { ...cached.headers, ...headers }, true);
+      }
+
+      if (!response.ok) {
+        const delay = this.retryStrategy.getRetryDelay(attempt, { method, status: response.status, headers });
+        if (delay !== null) {
+          await sleep(delay);
+          continue;
+        }
+
+        const body: GitHubError | undefined = data && typeof data === 'object' && typeof data.message === 'string'
+          ? data
+          : undefined;
+        const detail = body ? ` - ${body.message}` : '';
+        throw new GitHubApiError(
+          `HTTP ${response.status}: ${response.statusText}${detail}`,
+          response.status,
+          body,
+          headers['x-github-request-id'],
+          headers
+        );
+      }
+
+      if (cacheKey) {
+        this.cacheMisses++;
+        await this.storeResponse(cacheKey, url, response.status, data, headers);
+      }
+
+      return this.toResponse(response.status, data as T, headers, false);
+    }
+  }
+
+  /**
+   * Get hit/miss statistics of the response cache
+   * @returns Cache status
+   */
+  async getCacheStatus(): Promise<HttpCacheStatus> {
+    return {
+      enabled: Boolean(this.cache),
+      size: this.cache ? await this.cache.size() : 0,
+      hits: this.cacheHits,
+      misses: this.cacheMisses
+    };
+  }
+
+  async get(path: string, headers: Record<string, string> = {}): Promise<any> {
+    return (await this.send('GET', path, { headers })).data;
   }
 
   async post(path: string, data: any, headers: Record<string, string> = {}): Promise<any> {
-    const url = `${this.baseUrl}${path}`;
-    const response = await this.request(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        ...headers
-      },
-      body: JSON.stringify(data)
-    });
+    return (await this.send('POST', path, { body: data, headers })).data;
+  }
+
+  async put(path: string, data: any, headers: Record<string, string> = {}): Promise<any> {
+    return (await this.send('PUT', path, { body: data, headers })).data;
+  }
+
+  async patch(path: string, data: any, headers: Record<string, string> = {}): Promise<any> {
+    return (await this.send('PATCH', path, { body: data, headers })).data;
+  }
+
+  async delete(path: string, headers: Record<string, string> = {}, data?: any): Promise<any> {
+    return (await this.send('DELETE', path, { body: data, headers })).data;
+  }
+
+  /**
+   * Iterate over every item of a paginated list endpoint, following Link rel="next"
+   * @param path API path of the first page
+   * @param headers Extra request headers
+   * @returns Async iterator over the items of all pages
+   */
+  async *paginate<T = any>(path: string, headers: Record<string, string> = {}): AsyncGenerator<T, void, undefined> {
+    let next: string | undefined = path;
+
+    while (next) {
+      const response: HttpResponse<T[]> = await this.send<T[]>('GET', next, { headers });
+      for (const item of response.data || []) {
+        yield item;
+      }
+      next = parseLinkHeader(response.link).next;
+    }
+  }
+
+  private toResponse<T>(status: number, data: T, headers: Record<string, string>, fromCache: boolean): HttpResponse<T> {
+    return {
+      status,
+      data,
+      headers,
+      etag: headers['etag'],
+      link: headers['link'],
+      rateLimit: parseRateLimit(headers),
+      requestId: headers['x-github-request-id'],
+      fromCache
+    };
+  }
+
+  private conditionalHeaders(cached: CachedResponse): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (cached.etag) {
+      headers['If-None-Match'] = cached.etag;
+    }
+    if (cached.lastModified) {
+      headers['If-Modified-Since'] = cached.lastModified;
+    }
+    return headers;
+  }
+
+  private async readCache(key: string): Promise<CachedResponse | undefined> {
+    try {
+      return await this.cache!.get(key);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async storeResponse(
+    key: string,
+    url: string,
+    status: number,
+    data: any,
+    headers: Record<string, string>
+  ): Promise<void> {
+    const etag = headers['etag'];
+    const lastModified = headers['last-modified'];
+    if (!etag && !lastModified) {
+      return;
+    }
+
+    try {
+      await this.cache!.set(key, { url, status, data, headers, etag, lastModified, storedAt: Date.now() });
+    } catch {
+      // A failing cache store must never fail the request itself
+    }
+  }
 
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  private createRetryStrategy(retry: HttpClientOptions['retry']): RetryStrategy {
+    if (!retry) {
+      return NO_RETRY;
+    }
+    if (typeof (retry as RetryStrategy).getRetryDelay === 'function') {
+      return retry as RetryStrategy;
     }
+    return new ExponentialBackoffRetryPolicy(retry as Partial<RetryPolicyOptions>);
+  }
 
-    return response.json();
+  private readHeaders(response: Response): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (response.headers && typeof response.headers.forEach === 'function') {
+      response.headers.forEach((value, key) => {
+        headers[key.toLowerCase()] = value;
+      });
+    }
+    return headers;
   }
 
-  async delete(path: string, headers: Record<string, string> = {}): Promise<void> {
-    const url = `${this.baseUrl}${path}`;
-    const response = await this.request(url, {
-      method: 'DELETE',
-      headers
-    });
+  private async readBody(response: Response): Promise<any> {
+    if (response.status === 204 || response.status === 304) {
+      return undefined;
+    }
 
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    const text = await response.text();
+    if (!text) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,157 @@
+// Conditional request cache for GitHub reads
+// Kept free of Node built-ins so HttpClient bundles for the extension; the file store lives in fileHttpCache
+
+/**
+ * A cached GET response together with its validators
+ */
+export interface CachedResponse {
+  url: string;
+  status: number;
+  data: any;
+  headers: Record<string, string>;
+  etag?: string;
+  lastModified?: string;
+  storedAt: number; // epoch milliseconds
+}
+
+/**
+ * Pluggable backing store for cached responses
+ */
+export interface HttpCacheStore {
+  get(key: string): Promise<CachedResponse | undefined>;
+  set(key: string, entry: CachedResponse): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  size(): Promise<number>;
+}
+
+/**
+ * Cache status, reported in the same shape as ConfigurationStatus.cache
+ */
+export interface HttpCacheStatus {
+  enabled: boolean;
+  size: number;
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Build the cache key for a request.
+ * The Authorization header is hashed into the key so responses are never
+ * shared between credentials, and Accept is included because media types
+ * (e.g. raw file contents) change the response body.
+ * @param url Absolute request URL
+ * @param headers Request headers
+ * @returns Cache key
+ */
+export function createCacheKey(url: string, headers: Record<string, string>): string {
+  const authorization = headers['Authorization'] || headers['authorization'] || '';
+  const accept = headers['Accept'] || headers['accept'] || '';
+  const credential = authorization ? fnv1a64(authorization) : 'anonymous';
+  return `${credential} ${accept} ${url}`;
+}
+
+/**
+ * 64-bit FNV-1a hash as 16 hex characters. Not cryptographic: it only keeps
+ * the raw token out of the key and apart from other credentials' entries.
+ * @param value String to hash
+ * @returns Hex digest
+ */
+function fnv1a64(value: string): string {
+  let hash = BigInt('0xcbf29ce484222325');
+  const prime = BigInt('0x100000001b3');
+  const mask = BigInt('0xffffffffffffffff');
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash ^ BigInt(value.charCodeAt(i))) * prime) & mask;
+  }
+  return hash.toString(16).padStart(16, '0');
+}
+
+/**
+ * In-memory store, evicting the least recently used entry beyond maxEntries
+ */
+export class MemoryHttpCacheStore implements HttpCacheStore {
+  private entries = new Map<string, CachedResponse>();
+
+  constructor(private readonly maxEntries: number = 500) {}
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CachedResponse): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  async size(): Promise<number> {
+    return this.entries.size;
+  }
+}
+
+/**
+ * The subset of chrome.storage.StorageArea used by the cache (Manifest V3 promise API)
+ */
+export interface ChromeStorageArea {
+  get(keys: string | string[] | null): Promise<Record<string, any>>;
+  set(items: Record<string, any>): Promise<void>;
+  remove(keys: string | string[]): Promise<void>;
+}
+
+/**
+ * chrome.storage store for the extension, e.g. new ChromeStorageHttpCacheStore(chrome.storage.local)
+ */
+export class ChromeStorageHttpCacheStore implements HttpCacheStore {
+  constructor(
+    private readonly storage: ChromeStorageArea,
+    private readonly prefix: string = 'httpCache:'
+  ) {}
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const storageKey = this.prefix + key;
+    const items = await this.storage.get(storageKey);
+    return items[storageKey];
+  }
+
+  async set(key: string, entry: CachedResponse): Promise<void> {
+    await this.storage.set({ [this.prefix + key]: entry });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.storage.remove(this.prefix + key);
+  }
+
+  async clear(): Promise<void> {
+    const keys = await this.ownKeys();
+    if (keys.length > 0) {
+      await this.storage.remove(keys);
+    }
+  }
+
+  async size(): Promise<number> {
+    return (await this.ownKeys()).length;
+  }
+
+  private async ownKeys(): Promise<string[]> {
+    const items = await this.storage.get(null);
+    return Object.keys(items).filter(key => key.startsWith(this.prefix));
+  }
+}
@@ -0,0 +1,141 @@
+// Retry and throttling policies for HTTP requests
+export interface RetryPolicyOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: boolean;
+  maxRateLimitWaitMs: number; // Give up instead of waiting longer than this for a rate limit reset
+  retryNonIdempotent: boolean; // Also retry POST and PATCH after 5xx and network errors, risking duplicates
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryPolicyOptions = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  jitter: true,
+  maxRateLimitWaitMs: 60000,
+  retryNonIdempotent: false
+};
+
+// Methods that leave the same state behind however often they are repeated
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS']);
+
+/**
+ * Outcome of a single request attempt, as seen by a retry strategy.
+ * Either a response (status and headers) or the error thrown by fetch.
+ */
+export interface RetryOutcome {
+  method: string;
+  status?: number;
+  headers?: Record<string, string>;
+  error?: unknown;
+}
+
+export interface RetryStrategy {
+  /**
+   * Decide whether a failed attempt should be retried
+   * @param attempt Zero-based index of the attempt that just failed
+   * @param outcome Response status/headers or network error of that attempt
+   * @returns Delay in milliseconds before the next attempt, or null to stop retrying
+   */
+  getRetryDelay(attempt: number, outcome: RetryOutcome): number | null;
+}
+
+/**
+ * Client-side throttle consulted before every request is sent.
+ * RateLimitingService implements this through its acquire() method.
+ */
+export interface RequestThrottle {
+  acquire(tokens?: number): Promise<void>;
+}
+
+/**
+ * Check whether a 403 response was a primary or secondary rate limit rather than a permission error
+ * @param headers Response headers (lower-cased keys)
+ * @returns True when GitHub asked to retry later or the primary limit is exhausted
+ */
+export function isRateLimited(headers: Record<string, string>): boolean {
+  return headers['retry-after'] !== undefined || headers['x-ratelimit-remaining'] === '0';
+}
+
+/**
+ * Exponential backoff with optional full jitter.
+ * Retries 5xx responses and network errors of idempotent requests, and waits
+ * for Retry-After or X-RateLimit-Reset on rate-limited 403/429 responses of
+ * any request. A POST or PATCH that failed with a 5xx or a dropped connection
+ * may still have been applied, so it is not repeated unless retryNonIdempotent is set.
+ */
+export class ExponentialBackoffRetryPolicy implements RetryStrategy {
+  private options: RetryPolicyOptions;
+
+  constructor(options: Partial<RetryPolicyOptions> = {}) {
+    this.options = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  }
+
+  getRetryDelay(attempt: number, outcome: RetryOutcome): number | null {
+    if (attempt >= this.options.maxRetries) {
+      return null;
+    }
+
+    const repeatable = this.options.retryNonIdempotent || IDEMPOTENT_METHODS.has(outcome.method.toUpperCase());
+
+    if (outcome.error !== undefined) {
+      return repeatable ? this.backoff(attempt) : null;
+    }
+
+    const status = outcome.status || 0;
+    const headers = outcome.headers || {};
+
+    // Rate-limited requests are rejected before they are processed, so any method can be repeated
+    if (status === 429 || (status === 403 && isRateLimited(headers))) {
+      const wait = this.rateLimitWait(headers);
+      if (wait === null) {
+        return this.backoff(attempt);
+      }
+      return wait <= this.options.maxRateLimitWaitMs ? wait : null;
+    }
+
+    if (status >= 500 && status <= 599 && repeatable) {
+      return this.backoff(attempt);
+    }
+
+    return null;
+  }
+
+  private rateLimitWait(headers: Record<string, string>): number | null {
+    const retryAfter = headers['retry-after'];
+    if (retryAfter !== undefined) {
+      const seconds = Number(retryAfter);
+      if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+      }
+      const date = Date.parse(retryAfter);
+      if (!isNaN(date)) {
+        return Math.max(0, date - Date.now());
+      }
+    }
+
+    const reset = headers['x-ratelimit-reset'];
+    if (reset !== undefined && headers['x-ratelimit-remaining'] === '0') {
+      return Math.max(0, parseInt(reset, 10) * 1000 - Date.now());
+    }
+
+    return null;
+  }
+
+  private backoff(attempt: number): number {
+    const exponential = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * Math.pow(2, attempt));
+    return this.options.jitter ? Math.floor(Math.random() * exponential) : exponential;
+  }
+}
+
+/**
+ * Retry strategy that never retries
+ */
+export const NO_RETRY: RetryStrategy = {
+  getRetryDelay: () => null
+};
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,122 @@
+// Semantic version tags
+export type SemverBump = 'major' | 'minor' | 'patch';
+
+export interface SemverVersion {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease?: string;
+}
+
+const SEMVER_TAG = /^(.*?)(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Parse a version tag such as 'v1.2.3' or 'release-1.2.3-beta.1'
+ * @param tag Tag name
+ * @param prefix Required prefix before the version number (e.g. 'v')
+ * @returns Parsed version, or null when the tag is not a version with this prefix
+ */
+export function parseSemver(tag: string, prefix: string = 'v'): SemverVersion | null {
+  const match = tag.match(SEMVER_TAG);
+  if (!match || match[1] !== prefix) {
+    return null;
+  }
+
+  const version: SemverVersion = {
+    major: parseInt(match[2], 10),
+    minor: parseInt(match[3], 10),
+    patch: parseInt(match[4], 10)
+  };
+  if (match[5]) {
+    version.prerelease = match[5];
+  }
+  return version;
+}
+
+/**
+ * Compare two versions by precedence; a prerelease sorts before its release
+ * @returns Negative, zero or positive like Array.prototype.sort comparators
+ */
+export function compareSemver(a: SemverVersion, b: SemverVersion): number {
+  if (a.major !== b.major) {
+    return a.major - b.major;
+  }
+  if (a.minor !== b.minor) {
+    return a.minor - b.minor;
+  }
+  if (a.patch !== b.patch) {
+    return a.patch - b.patch;
+  }
+  if (a.prerelease === b.prerelease) {
+    return 0;
+  }
+  if (!a.prerelease) {
+    return 1;
+  }
+  if (!b.prerelease) {
+    return -1;
+  }
+  return comparePrerelease(a.prerelease, b.prerelease);
+}
+
+/**
+ * Compare prerelease strings identifier by identifier (SemVer §11): numeric
+ * identifiers compare as numbers and sort before alphanumeric ones, which
+ * compare in ASCII order; a shorter prefix sorts first
+ */
+function comparePrerelease(a: string, b: string): number {
+  const left = a.split('.');
+  const right = b.split('.');
+
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    const leftNumeric = /^\d+$/.test(left[i]);
+    const rightNumeric = /^\d+$/.test(right[i]);
+    if (leftNumeric && rightNumeric) {
+      const difference = parseInt(left[i], 10) - parseInt(right[i], 10);
+      if (difference !== 0) {
+        return difference;
+      }
+    } else if (leftNumeric !== rightNumeric) {
+      return leftNumeric ? -1 : 1;
+    } else if (left[i] !== right[i]) {
+      return left[i] < right[i] ? -1 : 1;
+    }
+  }
+  return left.length - right.length;
+}
+
+/**
+ * Compute the next version tag after the highest existing one
+ * @param tags Existing tag names; tags that are not versions with the prefix are ignored
+ * @param bump Which component to increment
+ * @param prefix Tag prefix (default 'v')
+ * @returns Next tag name; the first tag is the bump applied to 0.0.0
+ */
+export function nextSemverTag(tags: string[], bump: SemverBump = 'patch', prefix: string = 'v'): string {
+  const latest = tags
+    .map(tag => parseSemver(tag, prefix))
+    .filter((version): version is SemverVersion => version !== null)
+    .sort(compareSemver)
+    .pop() || { major: 0, minor: 0, patch: 0 };
+
+  // A prerelease is followed by its own release when that release is the requested bump,
+  // e.g. 2.0.0-rc.1 by 2.0.0 on a major bump, and 1.1.0-rc.1 by 1.1.0 on a minor one
+  let { major, minor, patch } = latest;
+  const pending = latest.prerelease !== undefined;
+  if (bump === 'major') {
+    if (!pending || minor !== 0 || patch !== 0) {
+      major++;
+    }
+    minor = 0;
+    patch = 0;
+  } else if (bump === 'minor') {
+    if (!pending || patch !== 0) {
+      minor++;
+    }
+    patch = 0;
+  } else if (!pending) {
+    patch++;
+  }
+
+  return `${prefix}${major}.${minor}.${patch}`;
+}
@@ -0,0 +1,204 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import { MessageAuthenticationService } from '../../security/MessageAuthenticationService';
+import { ArchiveIntegrityReport, ArchiveManifest, ArchiveManifestEntry, DirectoryVerificationOptions } from '../../types/zip';
+import type { GitTreeEntry } from '../../github/types/git';
+
+// Stands in for the hash of a symbolic link, so it never matches a manifest entry
+const SYMLINK_HASH = 'symlink';
+
+/**
+ * Signs and verifies content-hash manifests of extracted archives.
+ *
+ * A manifest lists the size, CRC-32, SHA-256 and git blob SHA of every file
+ * extracted from an archive. Signed with the shared secret, it lets a later
+ * run check an extraction directory, or the GitHub side check an exported
+ * tree, against exactly the archive contents.
+ */
+export class ArchiveManifestService {
+  /**
+   * Create an archive manifest service
+   * @param authenticationService Service holding the secret key used for signatures
+   */
+  constructor(private readonly authenticationService: MessageAuthenticationService) {}
+
+  /**
+   * Create an unsigned manifest
+   * @param archiveSha256 SHA-256 of the archive file
+   * @param entries Hashed entries, in any order
+   * @returns Manifest with entries sorted by path
+   */
+  static create(archiveSha256: string, entries: ArchiveManifestEntry[]): ArchiveManifest {
+    return {
+      version: 1,
+      archiveSha256,
+      createdAt: new Date().toISOString(),
+      entries: [...entries].sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0))
+    };
+  }
+
+  /**
+   * Compute the SHA-256 of a file without reading it into memory
+   * @param filePath Path to the file
+   * @returns Hex encoded digest
+   */
+  static async hashFile(filePath: string): Promise<string> {
+    const hash = createHash('sha256');
+    for await (const chunk of createReadStream(filePath)) {
+      hash.update(chunk);
+    }
+    return hash.digest('hex');
+  }
+
+  /**
+   * Serialize a manifest with sorted keys, leaving out its signature
+   * @param manifest Manifest to serialize
+   * @returns The exact string that is signed
+   */
+  static canonicalize(manifest: ArchiveManifest): string {
+    const { signature: _signature, ...unsigned } = manifest;
+    return canonicalJson(unsigned);
+  }
+
+  /**
+   * Sign a manifest
+   * @param manifest Manifest to sign
+   * @returns Copy of the manifest with its signature
+   * @throws Error if the secret key is not set
+   */
+  sign(manifest: ArchiveManifest): ArchiveManifest {
+    return { ...manifest, signature: this.authenticationService.computeHmac(ArchiveManifestService.canonicalize(manifest)) };
+  }
+
+  /**
+   * Verify the signature of a manifest
+   * @param manifest Manifest to verify
+   * @returns True if the manifest is signed with the current secret key and unchanged
+   * @throws Error if the secret key is not set
+   */
+  verifySignature(manifest: ArchiveManifest): boolean {
+    if (!manifest.signature) {
+      return false;
+    }
+    return this.authenticationService.verifyHmac(ArchiveManifestService.canonicalize(manifest), manifest.signature);
+  }
+
+  /**
+   * Check an extraction directory against a manifest.
+   * Extraction never creates symbolic links, so links are reported as modified
+   * or unexpected without being followed.
+   * @param manifest Signed manifest
+   * @param directory Directory the archive was extracted to
+   * @param options Sidecar files inside the directory to leave out
+   * @returns Integrity report; every other file in the directory is hashed
+   */
+  async verifyDirectory(
+    manifest: ArchiveManifest,
+    directory: string,
+    options: DirectoryVerificationOptions = {}
+  ): Promise<ArchiveIntegrityReport> {
+    const excluded = new Set((options.exclude || []).map(filePath =>
+      path.relative(directory, path.resolve(directory, filePath)).split(path.sep).join('/')
+    ));
+
+    const actual = new Map<string, string>();
+    for (const { relativePath, symlink } of await listFiles(directory)) {
+      if (excluded.has(relativePath)) {
+        continue;
+      }
+      actual.set(relativePath, symlink ? SYMLINK_HASH : await ArchiveManifestService.hashFile(path.join(directory, relativePath)));
+    }
+
+    return this.compare(manifest, actual, entry => entry.sha256);
+  }
+
+  /**
+   * Check an exported GitHub tree against a manifest by git blob SHA
+   * @param manifest Signed manifest
+   * @param tree Recursive tree entries of the exported commit
+   * @param basePath Directory of the tree the archive was exported to
+   * @returns Integrity report; blobs outside basePath are ignored
+   */
+  verifyTree(manifest: ArchiveManifest, tree: GitTreeEntry[], basePath: string = ''): ArchiveIntegrityReport {
+    const prefix = basePath.replace(/^\/+|\/+$/g, '');
+    const actual = new Map<string, string>();
+    for (const entry of tree) {
+      if (entry.type !== 'blob' || !entry.sha) {
+        continue;
+      }
+      if (!prefix) {
+        actual.set(entry.path, entry.sha);
+      } else if (entry.path.startsWith(`${prefix}/`)) {
+        actual.set(entry.path.slice(prefix.length + 1), entry.sha);
+      }
+    }
+
+    return this.compare(manifest, actual, entry => entry.gitBlobSha);
+  }
+
+  private compare(
+    manifest: ArchiveManifest,
+    actual: Map<string, string>,
+    expectedHash: (entry: ArchiveManifestEntry) => string
+  ): ArchiveIntegrityReport {
+    const report: ArchiveIntegrityReport = {
+      signatureValid: this.verifySignature(manifest),
+      matched: [],
+      missing: [],
+      modified: [],
+      unexpected: [],
+      valid: false
+    };
+
+    const expected = new Set<string>();
+    for (const entry of manifest.entries) {
+      expected.add(entry.path);
+      const hash = actual.get(entry.path);
+      if (hash === undefined) {
+        report.missing.push(entry.path);
+      } else if (hash !== expectedHash(entry)) {
+        report.modified.push(entry.path);
+      } else {
+        report.matched.push(entry.path);
+      }
+    }
+    report.unexpected = [...actual.keys()].filter(filePath => !expected.has(filePath)).sort();
+
+    report.valid = report.signatureValid &&
+      report.missing.length === 0 &&
+      report.modified.length === 0 &&
+      report.unexpected.length === 0;
+    return report;
+  }
+}
+
+// JSON with object keys sorted, so signatures do not depend on property order
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const fields = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Relative paths of all files and symbolic links below a directory, with forward slashes
+async function listFiles(directory: string, prefix: string = ''): Promise<{ relativePath: string; symlink: boolean }[]> {
+  const files: { relativePath: string; symlink: boolean }[] = [];
+  for (const dirent of await fs.readdir(path.join(directory, prefix), { withFileTypes: true })) {
+    const relativePath = prefix ? `${prefix}/${dirent.name}` : dirent.name;
+    if (dirent.isDirectory()) {
+      files.push(...await listFiles(directory, relativePath));
+    } else if (dirent.isFile() || dirent.isSymbolicLink()) {
+      files.push({ relativePath, symlink: dirent.isSymbolicLink() });
+    }
+  }
+  return files;
+}
@@ -0,0 +1,141 @@
+import type { Entry } from 'yauzl';
+import { ArchiveSafetyOptions, ArchiveEntryInfo, ZipExtractionError } from '../../types/zip';
+
+const S_IFMT = 0o170000;
+const S_IFLNK = 0o120000;
+
+// Host system id stored in the upper byte of "version made by"
+const HOST_SYSTEM_UNIX = 3;
+
+// Small files of repeated bytes legitimately compress very well, so ratios are only checked above this size
+export const RATIO_CHECK_MIN_SIZE = 1024 * 1024;
+
+/**
+ * Default archive safety limits
+ */
+export const DEFAULT_ARCHIVE_SAFETY: Required<ArchiveSafetyOptions> = {
+  maxEntries: 10000,
+  maxTotalSize: 1024 * 1024 * 1024,
+  maxCompressionRatio: 100,
+  symlinks: 'reject'
+};
+
+/**
+ * Archive safety policy shared by every extractor.
+ *
+ * Guards against path traversal ("zip-slip"), symbolic links, archives with
+ * too many entries and zip bombs. Sizes are taken from the archive headers
+ * before any data is inflated; yauzl validates that the inflated data matches
+ * them. A policy tracks one archive, because the total size accumulates.
+ */
+export class ArchiveSafetyPolicy {
+  private options: Required<ArchiveSafetyOptions>;
+  private entryCount = 0;
+  private totalSize = 0;
+
+  /**
+   * Create an archive safety policy
+   * @param options Limits overriding the defaults
+   */
+  constructor(options: ArchiveSafetyOptions = {}) {
+    this.options = { ...DEFAULT_ARCHIVE_SAFETY, ...options };
+  }
+
+  /**
+   * Describe a yauzl entry for the policy
+   * @param entry Entry read from the central directory
+   * @returns Name, sizes and, for archives made on Unix, the mode bits
+   */
+  static fromZipEntry(entry: Entry): ArchiveEntryInfo {
+    const madeOnUnix = entry.versionMadeBy >> 8 === HOST_SYSTEM_UNIX;
+    return {
+      name: entry.fileName,
+      size: entry.uncompressedSize,
+      compressedSize: entry.compressedSize,
+      mode: madeOnUnix ? (entry.externalFileAttributes >>> 16) & 0xffff : undefined
+    };
+  }
+
+  /**
+   * Check whether an entry name stays inside the extraction directory
+   * @param name Entry name
+   * @returns False for empty names, absolute paths, drive letters, null bytes and '..' segments
+   */
+  static isSafePath(name: string): boolean {
+    if (!name || name.includes('\0')) {
+      return false;
+    }
+    if (/^([\\/]|[a-zA-Z]:)/.test(name)) {
+      return false;
+    }
+    return !name.split(/[\\/]+/).includes('..');
+  }
+
+  /**
+   * Check whether an entry is a symbolic link
+   * @param entry Entry description
+   * @returns True if the entry's Unix mode marks it as a symbolic link
+   */
+  static isSymlink(entry: ArchiveEntryInfo): boolean {
+    return entry.mode !== undefined && (entry.mode & S_IFMT) === S_IFLNK;
+  }
+
+  /**
+   * Check the entry count declared by the archive before reading any entry
+   * @param count Number of entries in the central directory
+   * @throws ZipExtractionError with code TOO_MANY_ENTRIES
+   */
+  checkEntryCount(count: number): void {
+    if (count > this.options.maxEntries) {
+      throw new ZipExtractionError(
+        `Archive has ${count} entries, more than the limit of ${this.options.maxEntries}`,
+        'TOO_MANY_ENTRIES'
+      );
+    }
+  }
+
+  /**
+   * Check an entry before its data is read
+   * @param entry Entry description
+   * @returns False if the entry is a symbolic link and links are skipped
+   * @throws ZipExtractionError with a code naming the violated limit
+   */
+  checkEntry(entry: ArchiveEntryInfo): boolean {
+    if (!ArchiveSafetyPolicy.isSafePath(entry.name)) {
+      throw new ZipExtractionError(
+        `Entry ${JSON.stringify(entry.name)} would be written outside the extraction directory`,
+        'UNSAFE_PATH'
+      );
+    }
+
+    // Counted as entries are read, in case the declared count is wrong
+    this.checkEntryCount(++this.entryCount);
+
+    if (ArchiveSafetyPolicy.isSymlink(entry)) {
+      if (this.options.symlinks === 'skip') {
+        return false;
+      }
+      throw new ZipExtractionError(`Entry ${entry.name} is a symbolic link`, 'SYMLINK_NOT_ALLOWED');
+    }
+
+    if (entry.compressedSize !== undefined && entry.size >= RATIO_CHECK_MIN_SIZE) {
+      const ratio = entry.size / Math.max(entry.compressedSize, 1);
+      if (ratio > this.options.maxCompressionRatio) {
+        throw new ZipExtractionError(
+          `Entry ${entry.name} expands ${Math.round(ratio)}x, more than the limit of ${this.options.maxCompressionRatio}x`,
+          'COMPRESSION_RATIO_EXCEEDED'
+        );
+      }
+    }
+
+    this.totalSize += entry.size || 0;
+    if (this.totalSize > this.options.maxTotalSize) {
+      throw new ZipExtractionError(
+        `Archive expands to more than the limit of ${this.options.maxTotalSize} bytes`,
+        'TOTAL_SIZE_EXCEEDED'
+      );
+    }
+
+    return true;
+  }
+}
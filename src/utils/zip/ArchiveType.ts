@@ -0,0 +1,61 @@
+import { ArchiveType } from '../../types/zip';
+
+const TAR_BLOCK_SIZE = 512;
+const TAR_MAGIC_OFFSET = 257;
+const TAR_CHECKSUM_OFFSET = 148;
+const TAR_CHECKSUM_LENGTH = 8;
+
+/**
+ * Check whether a buffer starts with a tar header block
+ * @param buffer Archive data
+ * @returns True for ustar and GNU headers, and for pre-POSIX headers with a valid checksum
+ */
+export function isTarHeader(buffer: Buffer): boolean {
+  if (buffer.length < TAR_BLOCK_SIZE) {
+    return false;
+  }
+  if (buffer.toString('latin1', TAR_MAGIC_OFFSET, TAR_MAGIC_OFFSET + 5) === 'ustar') {
+    return true;
+  }
+  return buffer.subarray(0, TAR_BLOCK_SIZE).some(byte => byte !== 0) && hasValidTarChecksum(buffer.subarray(0, TAR_BLOCK_SIZE));
+}
+
+/**
+ * Verify the checksum of a tar header block
+ * @param header 512-byte header block
+ * @returns True if the stored checksum matches the header bytes
+ */
+export function hasValidTarChecksum(header: Buffer): boolean {
+  const stored = parseInt(header.toString('latin1', TAR_CHECKSUM_OFFSET, TAR_CHECKSUM_OFFSET + TAR_CHECKSUM_LENGTH).replace(/[\0 ]+/g, ''), 8);
+  if (Number.isNaN(stored)) {
+    return false;
+  }
+
+  // The checksum field itself counts as spaces
+  let sum = 0;
+  for (let i = 0; i < TAR_BLOCK_SIZE; i++) {
+    sum += i >= TAR_CHECKSUM_OFFSET && i < TAR_CHECKSUM_OFFSET + TAR_CHECKSUM_LENGTH ? 0x20 : header[i];
+  }
+  return sum === stored;
+}
+
+/**
+ * Detect the container format of an archive from its magic bytes
+ * @param header First bytes of the archive; 512 bytes are enough to recognise tar
+ * @returns 'zip', 'tar', 'tar.gz' for any gzip stream, or 'unknown'
+ */
+export function detectArchiveType(header: Buffer): ArchiveType {
+  // Local file header, or the end of central directory record of an empty archive
+  if (header.length >= 4 && header[0] === 0x50 && header[1] === 0x4b &&
+    ((header[2] === 0x03 && header[3] === 0x04) || (header[2] === 0x05 && header[3] === 0x06))) {
+    return 'zip';
+  }
+  // Gzip only wraps a single stream; whether it holds a tar is known once inflated
+  if (header.length >= 2 && header[0] === 0x1f && header[1] === 0x8b) {
+    return 'tar.gz';
+  }
+  if (isTarHeader(header)) {
+    return 'tar';
+  }
+  return 'unknown';
+}
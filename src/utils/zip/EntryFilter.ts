@@ -1,4 +1,6 @@
 import { StreamEntry } from '../../types/streaming';
+import { FileMetadata, LargeFilePolicyConfig, LargeFileRoute } from '../../types/filters';
+import { LargeFilePolicy } from '../../filters/LargeFilePolicy';
 import minimatch from 'minimatch';
 import { lookup } from 'mime-types';
 
@@ -25,6 +27,8 @@ export interface EntryFilterConfig {
   extensions?: string[];
   /** Custom filter function */
   customFilter?: (entry: StreamEntry) => boolean;
+  /** Routing or exclusion of files too large for the contents API */
+  largeFiles?: LargeFilePolicyConfig;
 }
 
 /**
@@ -36,6 +40,7 @@ export class EntryFilter {
   private excludeMatchers: IMinimatch[] = [];
   private extensionSet: Set<string>;
   private contentTypeSet: Set<string>;
+  private largeFilePolicy?: LargeFilePolicy;
 
   /**
    * Create an entry filter
@@ -45,6 +50,7 @@ export class EntryFilter {
     this.config = config;
     this.extensionSet = new Set((config.extensions || []).map(ext => ext.toLowerCase()));
     this.contentTypeSet = new Set(config.contentTypes || []);
+    this.largeFilePolicy = config.largeFiles ? new LargeFilePolicy(config.largeFiles) : undefined;
     this.compilePatterns();
   }
 
@@ -120,6 +126,11 @@ export class EntryFilter {
       if (matchesExclude) return false;
     }
 
+    // Large file policy
+    if (this.largeFilePolicy && !this.largeFilePolicy.apply(this.toFileMetadata(entry))) {
+      return false;
+    }
+
     // Custom filter
     if (this.config.customFilter) {
       return this.config.customFilter(entry);
@@ -128,6 +139,39 @@ export class EntryFilter {
     return true;
   }
 
+  /**
+   * Get the upload route of a large entry under the configured large file policy
+   * @param entry Stream entry
+   * @returns 'lfs' or 'blob' for large files, null otherwise or without a policy
+   */
+  getLargeFileRoute(entry: StreamEntry): LargeFileRoute | null {
+    if (!this.largeFilePolicy || entry.isDirectory) {
+      return null;
+    }
+    return this.largeFilePolicy.route(this.toFileMetadata(entry));
+  }
+
+  /**
+   * Get the reason the large file policy excluded an entry
+   * @param entry Stream entry
+   * @returns Reason string, empty when the policy keeps the entry
+   */
+  getLargeFileReason(entry: StreamEntry): string {
+    if (!this.largeFilePolicy || entry.isDirectory || this.largeFilePolicy.apply(this.toFileMetadata(entry))) {
+      return '';
+    }
+    return this.largeFilePolicy.getReason();
+  }
+
+  /**
+   * Convert a stream entry to filter metadata
+   * @param entry Stream entry
+   * @returns File metadata
+   */
+  private toFileMetadata(entry: StreamEntry): FileMetadata {
+    return { path: entry.name, size: entry.size, contentType: lookup(entry.name) || 'application/octet-stream' };
+  }
+
   /**
    * Check if a directory entry matches filter criteria
    * @param entry Directory stream entry
@@ -258,6 +302,15 @@ export class EntryFilter {
     this.config.customFilter = filter;
   }
 
+  /**
+   * Set the large file policy
+   * @param policy Large file policy configuration, or undefined to remove it
+   */
+  setLargeFilePolicy(policy?: LargeFilePolicyConfig): void {
+    this.config.largeFiles = policy;
+    this.largeFilePolicy = policy ? new LargeFilePolicy(policy) : undefined;
+  }
+
   /**
    * Get filter configuration
    * @returns Current filter configuration
@@ -316,7 +369,8 @@ export class EntryFilter {
       this.config.minSize !== undefined ||
       (this.config.contentTypes && this.config.contentTypes.length > 0) ||
       (this.config.extensions && this.config.extensions.length > 0) ||
-      this.config.customFilter !== undefined
+      this.config.customFilter !== undefined ||
+      this.config.largeFiles !== undefined
     );
   }
 }
\ No newline at end of file
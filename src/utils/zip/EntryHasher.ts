@@ -0,0 +1,86 @@
+import { createHash, Hash } from 'crypto';
+import { crc32 } from '../crc32';
+import { ArchiveManifestEntry, ZipExtractionError } from '../../types/zip';
+
+/**
+ * Computes the CRC-32, SHA-256 and git blob SHA of an entry in a single pass
+ * over its data, and checks them against what the archive recorded.
+ */
+export class EntryHasher {
+  private crc = 0;
+  private length = 0;
+  private sha256: Hash = createHash('sha256');
+  private blobSha: Hash = createHash('sha1');
+
+  /**
+   * Create an entry hasher
+   * @param name Entry name, for error messages
+   * @param size Size declared by the archive; git blob SHAs hash it up front
+   */
+  constructor(private readonly name: string, private readonly size: number) {
+    this.blobSha.update(`blob ${size}\0`);
+  }
+
+  /**
+   * Hash the next chunk of entry data
+   * @param chunk Entry data
+   */
+  update(chunk: Buffer): void {
+    this.crc = crc32(chunk, this.crc);
+    this.length += chunk.length;
+    this.sha256.update(chunk);
+    this.blobSha.update(chunk);
+  }
+
+  /**
+   * Number of bytes hashed so far
+   */
+  get bytesRead(): number {
+    return this.length;
+  }
+
+  /**
+   * Check the data read against the archive's records
+   * @param expectedCrc32 CRC-32 recorded by the archive, if any
+   * @throws ZipExtractionError with code CORRUPTED_ZIP_FILE
+   */
+  verify(expectedCrc32?: number): void {
+    if (this.length !== this.size) {
+      throw new ZipExtractionError(
+        `Entry ${this.name} has ${this.length} bytes, but the archive records ${this.size}`,
+        'CORRUPTED_ZIP_FILE'
+      );
+    }
+    if (expectedCrc32 !== undefined && expectedCrc32 >>> 0 !== this.crc) {
+      throw new ZipExtractionError(
+        `CRC-32 mismatch for entry ${this.name}: expected ${EntryHasher.formatCrc32(expectedCrc32)}, got ${EntryHasher.formatCrc32(this.crc)}`,
+        'CORRUPTED_ZIP_FILE'
+      );
+    }
+  }
+
+  /**
+   * Finish hashing; the hasher cannot be updated afterwards
+   * @param mode Unix permission bits, if known
+   * @returns Manifest entry for the data read
+   */
+  digest(mode?: number): ArchiveManifestEntry {
+    return {
+      path: this.name,
+      size: this.length,
+      mode,
+      crc32: EntryHasher.formatCrc32(this.crc),
+      sha256: this.sha256.digest('hex'),
+      gitBlobSha: this.blobSha.digest('hex')
+    };
+  }
+
+  /**
+   * Format a CRC-32 the way manifests and checkpoints record it
+   * @param value CRC-32 as a number
+   * @returns 8 lowercase hex digits
+   */
+  static formatCrc32(value: number): string {
+    return (value >>> 0).toString(16).padStart(8, '0');
+  }
+}
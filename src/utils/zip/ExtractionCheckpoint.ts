@@ -0,0 +1,147 @@
+import fs from 'fs/promises';
+import { CheckpointEntry } from '../../types/streaming';
+import { ArchiveManifestService } from './ArchiveManifestService';
+
+const CHECKPOINT_VERSION = 1;
+
+/**
+ * First line of a checkpoint file, identifying the archive it belongs to
+ */
+interface CheckpointHeader {
+  version: number;
+  archiveSha256: string;
+  startedAt: string;
+}
+
+/**
+ * Sidecar file recording the entries of an archive that were fully processed.
+ *
+ * The file holds one JSON document per line: a header naming the archive by
+ * its SHA-256, then one line per completed entry. Lines are only appended, so
+ * a crash can at worst leave a partial last line, which is ignored on resume.
+ */
+export class ExtractionCheckpoint {
+  private constructor(
+    private readonly filePath: string,
+    private readonly completed: Map<string, CheckpointEntry>,
+    private bytes: number
+  ) {}
+
+  /**
+   * Open the checkpoint of an archive
+   * @param filePath Path of the sidecar file
+   * @param archiveSha256 SHA-256 of the archive being processed
+   * @param resume Whether to keep the entries recorded by an earlier run of the same archive
+   * @returns Checkpoint; a missing, unreadable or foreign file is started afresh
+   */
+  static async open(filePath: string, archiveSha256: string, resume: boolean): Promise<ExtractionCheckpoint> {
+    if (resume) {
+      const loaded = await ExtractionCheckpoint.load(filePath, archiveSha256);
+      if (loaded) {
+        return loaded;
+      }
+    }
+
+    const header: CheckpointHeader = { version: CHECKPOINT_VERSION, archiveSha256, startedAt: new Date().toISOString() };
+    await fs.writeFile(filePath, `${JSON.stringify(header)}\n`, 'utf8');
+    return new ExtractionCheckpoint(filePath, new Map(), 0);
+  }
+
+  /**
+   * Check whether an output file still holds the data of a completed entry
+   * @param filePath Path of the file written for the entry
+   * @param entry Completed entry
+   * @returns True if the file exists with the recorded size and SHA-256
+   */
+  static async fileMatches(filePath: string, entry: CheckpointEntry): Promise<boolean> {
+    try {
+      const stats = await fs.stat(filePath);
+      return stats.size === entry.size && await ArchiveManifestService.hashFile(filePath) === entry.sha256;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Look up a completed entry
+   * @param name Entry name
+   * @returns The recorded entry, if it was completed
+   */
+  get(name: string): CheckpointEntry | undefined {
+    return this.completed.get(name);
+  }
+
+  /**
+   * Number of completed entries
+   */
+  get completedCount(): number {
+    return this.completed.size;
+  }
+
+  /**
+   * Bytes of all completed entries
+   */
+  get bytesWritten(): number {
+    return this.bytes;
+  }
+
+  /**
+   * Record a fully processed entry
+   * @param entry Entry hashes, without the running byte count
+   */
+  async record(entry: Omit<CheckpointEntry, 'bytesWritten'>): Promise<void> {
+    this.bytes += entry.size;
+    const completed: CheckpointEntry = { ...entry, bytesWritten: this.bytes };
+    this.completed.set(entry.name, completed);
+    await fs.appendFile(this.filePath, `${JSON.stringify(completed)}\n`, 'utf8');
+  }
+
+  /**
+   * Delete the checkpoint once the whole archive has been processed
+   */
+  async remove(): Promise<void> {
+    await fs.rm(this.filePath, { force: true });
+  }
+
+  private static async load(filePath: string, archiveSha256: string): Promise<ExtractionCheckpoint | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf8');
+    } catch {
+      return null;
+    }
+
+    const lines = content.split('\n');
+    let header: CheckpointHeader;
+    try {
+      header = JSON.parse(lines[0]);
+    } catch {
+      return null;
+    }
+    if (header.version !== CHECKPOINT_VERSION || header.archiveSha256 !== archiveSha256) {
+      return null;
+    }
+
+    const completed = new Map<string, CheckpointEntry>();
+    let bytes = 0;
+    for (const line of lines.slice(1)) {
+      if (!line) {
+        continue;
+      }
+      try {
+        const entry: CheckpointEntry = JSON.parse(line);
+        completed.set(entry.name, entry);
+        bytes = entry.bytesWritten;
+      } catch {
+        // Partial line written when the previous run was interrupted
+        break;
+      }
+    }
+
+    // Drop a partial last line so appended entries start on a line of their own
+    const valid = [lines[0], ...[...completed.values()].map(entry => JSON.stringify(entry))];
+    await fs.writeFile(filePath, `${valid.join('\n')}\n`, 'utf8');
+
+    return new ExtractionCheckpoint(filePath, completed, bytes);
+  }
+}
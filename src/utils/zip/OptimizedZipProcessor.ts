@@ -10,6 +10,7 @@ import { ZipVerificationService, ZipVerificationReport } from './ZipVerification
 import { EntryFilter, EntryFilterConfig } from './EntryFilter';
 import { MemoryMonitor, MemoryUsage } from './MemoryMonitor';
 import { ProgressTracker, ProgressMetrics } from './ProgressTracker';
+import { ArchiveSafetyPolicy } from './ArchiveSafetyPolicy';
 import path from 'path';
 import fs from 'fs/promises';
 
@@ -270,6 +271,7 @@ export class OptimizedZipProcessor {
       // Extract streams from ZIP with optimized processing
       const streamEntries = await this.extractStreamsOptimized(buffer, {
         highWaterMark: options.highWaterMark,
+        safety: options.safety,
         onProgress: options.onProgress ? (progress) => {
           if (options.onProgress) {
             options.onProgress(progress.percentage);
@@ -341,7 +343,8 @@ export class OptimizedZipProcessor {
     } catch (error) {
       throw new ZipExtractionError(
         `Streaming extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'EXTRACTION_FAILED',
+        // Keep the code of safety violations so callers can tell why the archive was refused
+        error instanceof ZipExtractionError ? error.code : 'EXTRACTION_FAILED',
         error instanceof Error ? error : undefined
       );
     } finally {
@@ -388,6 +391,16 @@ export class OptimizedZipProcessor {
         let processedEntries = 0;
         const totalEntries = zipFile.entryCount;
 
+        // Refuse archives with more entries than allowed before reading any of them
+        const policy = new ArchiveSafetyPolicy(options.safety);
+        try {
+          policy.checkEntryCount(totalEntries);
+        } catch (error) {
+          zipFile.close();
+          await this.recordOperation('extractStreamsOptimized', buffer.length, false, (error as Error).message);
+          return reject(error);
+        }
+
         // Initialize progress tracker if callback provided
         if (options.onProgress) {
           this.progressTracker = new ProgressTracker(totalEntries);
@@ -407,6 +420,21 @@ export class OptimizedZipProcessor {
             return reject(error);
           }
 
+          // Check names, links and sizes before any entry data is inflated
+          let safe: boolean;
+          try {
+            safe = policy.checkEntry(ArchiveSafetyPolicy.fromZipEntry(entry));
+          } catch (error) {
+            zipFile.close();
+            await this.recordOperation('extractStreamsOptimized', buffer.length, false, (error as Error).message);
+            return reject(error);
+          }
+          if (!safe) {
+            // Skipped symbolic link
+            this.continueProcessing(zipFile, ++processedEntries, totalEntries, options);
+            return;
+          }
+
           // Handle directory entries with optimized stream creation
           if (entry.fileName.endsWith('/')) {
             entries.push({
@@ -988,10 +1016,19 @@ export class OptimizedZipProcessor {
     const entries: ZipEntry[] = [];
     const totalEntries = zipFile.entryCount;
     let processedEntries = 0;
+    const policy = new ArchiveSafetyPolicy(options.safety);
+    policy.checkEntryCount(totalEntries);
 
     return new Promise<ZipEntry[]>((resolve, reject) => {
       zipFile.on('entry', async (entry: Entry) => {
         try {
+          // Refuse unsafe archives before any entry data is written
+          if (!policy.checkEntry(ArchiveSafetyPolicy.fromZipEntry(entry))) {
+            result.warnings.push(`Symbolic link ${entry.fileName} was skipped`);
+            zipFile.readEntry();
+            return;
+          }
+
           // Convert to our entry format
           const zipEntry = this.convertEntry(entry);
           entries.push(zipEntry);
@@ -1058,14 +1095,6 @@ export class OptimizedZipProcessor {
     options: ZipExtractionOptions,
     result: ZipExtractionResult
   ): Promise<void> {
-    // Validate entry name to prevent path traversal
-    if (!this.isValidEntryName(zipEntry.name)) {
-      throw new ZipExtractionError(
-        `Invalid entry name: ${zipEntry.name}`,
-        'INVALID_ZIP_FILE'
-      );
-    }
-
     const fullPath = path.join(destinationPath, zipEntry.name);
 
     // Handle directories
@@ -1196,28 +1225,6 @@ export class OptimizedZipProcessor {
     };
   }
 
-  /**
-   * Validates entry name to prevent path traversal attacks
-   */
-  private isValidEntryName(name: string): boolean {
-    // Check for path traversal attempts
-    if (name.includes('../') || name.includes('..\\')) {
-      return false;
-    }
-
-    // Check for absolute paths
-    if (path.isAbsolute(name)) {
-      return false;
-    }
-
-    // Check for invalid characters (basic check)
-    if (name.includes('\0')) {
-      return false;
-    }
-
-    return true;
-  }
-
   /**
    * Ensures a directory exists, creating it if necessary
    */
@@ -14,6 +14,8 @@ export interface ProgressMetrics {
   rate?: number;
   /** Timestamp of last update */
   timestamp?: number;
+  /** Entries among those processed that an earlier run completed and were skipped */
+  resumed?: number;
 }
 
 /**
@@ -21,6 +23,7 @@ export interface ProgressMetrics {
  */
 export class ProgressTracker {
   private processed: number = 0;
+  private resumed: number = 0;
   private total: number;
   private startTime: number;
   private lastUpdate: number = 0;
@@ -39,9 +42,11 @@ export class ProgressTracker {
   /**
    * Update progress with number of processed entries
    * @param processed Number of entries processed
+   * @param resumed Number of processed entries skipped because an earlier run completed them
    */
-  update(processed: number): void {
+  update(processed: number, resumed: number = this.resumed): void {
     this.processed = processed;
+    this.resumed = resumed;
     this.lastUpdate = Date.now();
     this.lastProcessed = processed;
   }
@@ -53,7 +58,8 @@ export class ProgressTracker {
   getProgress(): ProgressMetrics {
     const currentTime = Date.now();
     const elapsedSeconds = (currentTime - this.startTime) / 1000;
-    const rate = elapsedSeconds > 0 ? this.processed / elapsedSeconds : 0;
+    // Skipped entries take no time, so they do not count towards the rate
+    const rate = elapsedSeconds > 0 ? (this.processed - this.resumed) / elapsedSeconds : 0;
 
     return {
       percentage: Math.round((this.processed / this.total) * 100),
@@ -61,7 +67,8 @@ export class ProgressTracker {
       total: this.total,
       memoryUsage: process.memoryUsage().heapUsed,
       rate: Math.round(rate * 100) / 100,
-      timestamp: currentTime
+      timestamp: currentTime,
+      resumed: this.resumed
     };
   }
 
@@ -70,10 +77,10 @@ export class ProgressTracker {
    * @returns Estimated time remaining in milliseconds
    */
   getEstimatedTimeRemaining(): number {
-    if (this.processed === 0) return Infinity;
+    if (this.processed - this.resumed === 0) return Infinity;
 
     const elapsed = Date.now() - this.startTime;
-    const rate = this.processed / elapsed;
+    const rate = (this.processed - this.resumed) / elapsed;
     const remaining = this.total - this.processed;
     return Math.round(remaining / rate);
   }
@@ -1,12 +1,17 @@
-import { Readable } from 'stream';
+import { Readable, Transform, pipeline } from 'stream';
+import { createHash } from 'crypto';
+import path from 'path';
 import yauzl, { Entry, ZipFile } from 'yauzl';
-import { StreamEntry, StreamOptions } from '../../types/streaming';
+import { CheckpointEntry, StreamEntry, StreamOptions } from '../../types/streaming';
 import { promisify } from 'util';
 import { MemoryMonitor } from './MemoryMonitor';
 import { ProgressTracker } from './ProgressTracker';
 import { FilterHooksService } from '../../filters/hooks/FilterHooksService';
 import { AgenticJujutsuService } from '../../github/files/AgenticJujutsuService';
 import { ZipVerificationService, ZipVerificationReport } from './ZipVerificationService';
+import { ArchiveSafetyPolicy } from './ArchiveSafetyPolicy';
+import { EntryHasher } from './EntryHasher';
+import { ExtractionCheckpoint } from './ExtractionCheckpoint';
 
 const openZip = promisify(yauzl.fromBuffer);
 
@@ -71,6 +76,16 @@ export class StreamingZipExtractor {
         let processedEntries = 0;
         const totalEntries = zipFile.entryCount;
 
+        // Refuse archives with more entries than allowed before reading any of them
+        const policy = new ArchiveSafetyPolicy(options.safety);
+        try {
+          policy.checkEntryCount(totalEntries);
+        } catch (error) {
+          zipFile.close();
+          await this.recordOperation('extractStreams', buffer.length, false, (error as Error).message);
+          return reject(error);
+        }
+
         // Initialize progress tracker if callback provided
         if (options.onProgress) {
           this.progressTracker = new ProgressTracker(totalEntries);
@@ -90,6 +105,22 @@ export class StreamingZipExtractor {
             return reject(error);
           }
 
+          // Check names, links and sizes before any entry data is inflated
+          const entryInfo = ArchiveSafetyPolicy.fromZipEntry(entry);
+          let safe: boolean;
+          try {
+            safe = policy.checkEntry(entryInfo);
+          } catch (error) {
+            zipFile.close();
+            await this.recordOperation('extractStreams', buffer.length, false, (error as Error).message);
+            return reject(error);
+          }
+          if (!safe) {
+            // Skipped symbolic link
+            this.continueProcessing(zipFile, ++processedEntries, totalEntries, options);
+            return;
+          }
+
           // Handle directory entries with optimized stream creation
           if (entry.fileName.endsWith('/')) {
             entries.push({
@@ -138,7 +169,9 @@ export class StreamingZipExtractor {
               name: entry.fileName,
               size: entry.uncompressedSize,
               isDirectory: false,
-              stream: readStream
+              stream: readStream,
+              mode: entryInfo.mode !== undefined ? entryInfo.mode & 0o7777 : undefined,
+              crc32: entry.crc32
             };
 
             entries.push(streamEntry);
@@ -242,6 +275,20 @@ export class StreamingZipExtractor {
       throw error;
     }
 
+    // Skipping an entry is only safe once its output is checked
+    if (options?.checkpointPath && options.resume && !options.outputDirectory && !options.verifyCompleted) {
+      const error = new Error('Resuming an extraction needs outputDirectory or verifyCompleted to check completed entries');
+      await this.recordOperation('processEntriesStream', buffer.length, false, error.message);
+      throw error;
+    }
+
+    // Open the checkpoint first, so a resumed run knows which entries are already complete
+    let checkpoint: ExtractionCheckpoint | null = null;
+    if (options?.checkpointPath) {
+      const archiveSha256 = createHash('sha256').update(buffer).digest('hex');
+      checkpoint = await ExtractionCheckpoint.open(options.checkpointPath, archiveSha256, options.resume === true);
+    }
+
     return new Promise((resolve, reject) => {
       yauzl.fromBuffer(buffer, { lazyEntries: true }, async (err, zipFile) => {
         if (err) {
@@ -256,8 +303,19 @@ export class StreamingZipExtractor {
         }
 
         let processedEntries = 0;
+        let resumedEntries = 0;
         const totalEntries = zipFile.entryCount;
 
+        // Refuse archives with more entries than allowed before reading any of them
+        const policy = new ArchiveSafetyPolicy(options?.safety);
+        try {
+          policy.checkEntryCount(totalEntries);
+        } catch (error) {
+          zipFile.close();
+          await this.recordOperation('processEntriesStream', buffer.length, false, (error as Error).message);
+          return reject(error);
+        }
+
         // Initialize progress tracker if callback provided
         if (options?.onProgress) {
           this.progressTracker = new ProgressTracker(totalEntries);
@@ -277,6 +335,22 @@ export class StreamingZipExtractor {
             return reject(error);
           }
 
+          // Check names, links and sizes before any entry data is inflated
+          const entryInfo = ArchiveSafetyPolicy.fromZipEntry(entry);
+          let safe: boolean;
+          try {
+            safe = policy.checkEntry(entryInfo);
+          } catch (error) {
+            zipFile.close();
+            await this.recordOperation('processEntriesStream', buffer.length, false, (error as Error).message);
+            return reject(error);
+          }
+          if (!safe) {
+            // Skipped symbolic link
+            this.continueProcessing(zipFile, ++processedEntries, totalEntries, options || {});
+            return;
+          }
+
           // Handle directory entries with optimized stream creation
           if (entry.fileName.endsWith('/')) {
             const streamEntry: StreamEntry = {
@@ -297,6 +371,23 @@ export class StreamingZipExtractor {
             return;
           }
 
+          // Skip entries an earlier run completed, as long as they still match
+          const completed = checkpoint?.get(entry.fileName);
+          if (completed) {
+            let skip: boolean;
+            try {
+              skip = await this.isCompleted(entry, completed, options || {});
+            } catch (error) {
+              zipFile.close();
+              await this.recordOperation('processEntriesStream', buffer.length, false, error instanceof Error ? error.message : 'Unknown error');
+              return reject(error);
+            }
+            if (skip) {
+              this.continueProcessing(zipFile, ++processedEntries, totalEntries, options || {}, ++resumedEntries);
+              return;
+            }
+          }
+
           // Open read stream for file entries
           zipFile.openReadStream(entry, async (err, readStream) => {
             if (err) {
@@ -324,16 +415,28 @@ export class StreamingZipExtractor {
               });
             }
 
+            // Hash the data as the callback reads it, to checkpoint the entry once it is complete
+            const hasher = checkpoint ? new EntryHasher(entry.fileName, entry.uncompressedSize) : null;
+
             // Create stream entry
             const streamEntry: StreamEntry = {
               name: entry.fileName,
               size: entry.uncompressedSize,
               isDirectory: false,
-              stream: readStream
+              stream: hasher ? this.hashStream(readStream, hasher) : readStream,
+              mode: entryInfo.mode !== undefined ? entryInfo.mode & 0o7777 : undefined,
+              crc32: entry.crc32
             };
 
             try {
               await entryCallback(streamEntry);
+
+              // Entries the callback did not read to the end are not complete
+              if (checkpoint && hasher && hasher.bytesRead === entry.uncompressedSize) {
+                hasher.verify(entry.crc32);
+                const digest = hasher.digest();
+                await checkpoint.record({ name: entry.fileName, size: digest.size, crc32: digest.crc32, sha256: digest.sha256 });
+              }
               this.continueProcessing(zipFile, ++processedEntries, totalEntries, options || {});
             } catch (error) {
               zipFile.close();
@@ -355,6 +458,11 @@ export class StreamingZipExtractor {
             warnings: []
           }, processingTime);
 
+          // Every entry is done, so there is nothing left to resume
+          if (checkpoint) {
+            await checkpoint.remove();
+          }
+
           await this.recordOperation('processEntriesStream', buffer.length, true, `Processed ${totalEntries} entries`);
           await this.hooksService.postTask({
             totalFiles: totalEntries,
@@ -402,11 +510,12 @@ export class StreamingZipExtractor {
     zipFile: ZipFile,
     processedEntries: number,
     totalEntries: number,
-    options: StreamOptions
+    options: StreamOptions,
+    resumedEntries?: number
   ): void {
     // Update progress tracking
     if (this.progressTracker && options.onProgress) {
-      this.progressTracker.update(processedEntries);
+      this.progressTracker.update(processedEntries, resumedEntries);
       const progress = this.progressTracker.getProgress();
       options.onProgress(progress);
     }
@@ -418,6 +527,39 @@ export class StreamingZipExtractor {
     zipFile.readEntry();
   }
 
+  /**
+   * Check whether a checkpointed entry can be skipped
+   * @param entry Entry read from the central directory
+   * @param completed Entry recorded by the checkpoint
+   * @param options Streaming options with the output directory or output check
+   * @returns True if the archive still records the same data and the output is intact
+   */
+  private async isCompleted(entry: Entry, completed: CheckpointEntry, options: StreamOptions): Promise<boolean> {
+    if (completed.size !== entry.uncompressedSize || completed.crc32 !== EntryHasher.formatCrc32(entry.crc32)) {
+      return false;
+    }
+    if (options.verifyCompleted) {
+      return options.verifyCompleted(completed);
+    }
+    // Entry names passed the safety policy, so they stay inside the output directory
+    return options.outputDirectory !== undefined
+      && ExtractionCheckpoint.fileMatches(path.join(options.outputDirectory, completed.name), completed);
+  }
+
+  /**
+   * Pass entry data through a hasher; read errors surface on the returned stream
+   */
+  private hashStream(readStream: Readable, hasher: EntryHasher): Readable {
+    const hashing = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        hasher.update(chunk);
+        callback(null, chunk);
+      }
+    });
+    pipeline(readStream, hashing, () => undefined);
+    return hashing;
+  }
+
   /**
    * Calculate backpressure delay based on buffer overflow
    * @param readableLength Current readable length
@@ -0,0 +1,307 @@
+import { Readable, Transform, PassThrough, pipeline } from 'stream';
+import { createDeflateRaw } from 'zlib';
+import {
+  StreamEntry,
+  ZipCompressionMethod,
+  ZipFileMap,
+  ZipWriterOptions
+} from '../../types/streaming';
+import { BackpressureHandler } from './BackpressureHandler';
+import { ArchiveSafetyPolicy } from './ArchiveSafetyPolicy';
+import { crc32 } from '../crc32';
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const EXTENDED_TIMESTAMP_FIELD = 0x5455;
+
+const FLAG_DATA_DESCRIPTOR = 0x0008; // CRC and sizes follow the data, so entries can be streamed
+const FLAG_UTF8_NAMES = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const VERSION_NEEDED = 20; // 2.0: deflate, directories and data descriptors
+const VERSION_MADE_BY = (3 << 8) | VERSION_NEEDED; // Unix, so the external attributes carry the mode
+
+// Without ZIP64 extensions sizes and offsets are 32-bit and the entry count 16-bit
+const MAX_UINT32 = 0xffffffff;
+const MAX_ENTRIES = 0xffff;
+
+const S_IFREG = 0o100000;
+const S_IFDIR = 0o040000;
+const MSDOS_DIRECTORY_ATTRIBUTE = 0x10;
+const DEFAULT_FILE_MODE = 0o644;
+const DEFAULT_DIRECTORY_MODE = 0o755;
+
+// Same threshold ZipExtractionService uses before applying backpressure
+const BACKPRESSURE_MIN_SIZE = 10 * 1024 * 1024;
+
+interface CentralDirectoryRecord {
+  name: Buffer;
+  flags: number;
+  method: number;
+  lastModified: Date;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  externalAttributes: number;
+  offset: number;
+}
+
+/**
+ * Streaming ZIP writer for archiving project files
+ */
+export class StreamingZipWriter {
+  private options: ZipWriterOptions;
+  private backpressureHandler: BackpressureHandler;
+
+  /**
+   * Create a streaming ZIP writer
+   * @param options Compression, default timestamp and backpressure options
+   */
+  constructor(options: ZipWriterOptions = {}) {
+    this.options = options;
+    this.backpressureHandler = new BackpressureHandler(options.maxMemoryUsage, options.highWaterMark);
+  }
+
+  /**
+   * Create a ZIP archive stream. Entries are read one at a time, and only as
+   * fast as the archive is consumed, so projects are never held in memory.
+   * @param source Project file map, or stream entries
+   * @returns Readable stream of the archive
+   */
+  createArchive(source: ZipFileMap | Iterable<StreamEntry> | AsyncIterable<StreamEntry>): Readable {
+    const entries = this.isEntryIterable(source) ? source : StreamingZipWriter.fileMapEntries(source);
+    return Readable.from(this.generateArchive(entries), { objectMode: false });
+  }
+
+  /**
+   * Create a ZIP archive in memory, e.g. to attach to a release
+   * @param source Project file map, or stream entries
+   * @returns Promise resolving to the archive
+   */
+  async toBuffer(source: ZipFileMap | Iterable<StreamEntry> | AsyncIterable<StreamEntry>): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of this.createArchive(source)) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Convert a project file map to stream entries
+   * @param files Files keyed by archive path
+   * @returns Stream entries in map order
+   */
+  static fileMapEntries(files: ZipFileMap): StreamEntry[] {
+    return Object.entries(files).map(([name, file]) => {
+      const { content, encoding, mode, lastModified } = typeof file === 'string' || Buffer.isBuffer(file) ? { content: file } : file;
+      const data = typeof content === 'string' ? Buffer.from(content, encoding === 'base64' ? 'base64' : 'utf8') : content;
+      return {
+        name,
+        size: data.length,
+        isDirectory: false,
+        stream: Readable.from([data], { objectMode: false }),
+        lastModified,
+        mode: typeof mode === 'string' ? parseInt(mode, 8) & 0o777 || undefined : mode
+      };
+    });
+  }
+
+  /**
+   * Generate the archive: a local header, the data and a data descriptor per
+   * entry, followed by the central directory
+   */
+  private async *generateArchive(entries: Iterable<StreamEntry> | AsyncIterable<StreamEntry>): AsyncGenerator<Buffer> {
+    const records: CentralDirectoryRecord[] = [];
+    const names = new Set<string>();
+    const archiveDate = this.options.lastModified || new Date();
+    let offset = 0;
+
+    for await (const entry of entries) {
+      if (records.length >= MAX_ENTRIES) {
+        throw new Error(`ZIP archives are limited to ${MAX_ENTRIES} entries`);
+      }
+
+      const name = this.normalizeName(entry);
+      if (names.has(name)) {
+        throw new Error(`Duplicate archive entry ${name}`);
+      }
+      names.add(name);
+
+      const mode = (entry.mode ?? (entry.isDirectory ? DEFAULT_DIRECTORY_MODE : DEFAULT_FILE_MODE)) & 0o7777;
+      const record: CentralDirectoryRecord = {
+        name: Buffer.from(name, 'utf8'),
+        flags: FLAG_UTF8_NAMES | (entry.isDirectory ? 0 : FLAG_DATA_DESCRIPTOR),
+        method: !entry.isDirectory && this.compressionOf(entry) === 'deflate' ? METHOD_DEFLATE : METHOD_STORE,
+        lastModified: entry.lastModified || archiveDate,
+        crc: 0,
+        compressedSize: 0,
+        size: 0,
+        externalAttributes: (((entry.isDirectory ? S_IFDIR : S_IFREG) | mode) << 16 | (entry.isDirectory ? MSDOS_DIRECTORY_ATTRIBUTE : 0)) >>> 0,
+        offset
+      };
+
+      const header = this.localFileHeader(record);
+      yield header;
+      offset += header.length;
+
+      if (!entry.isDirectory) {
+        for await (const chunk of this.entryData(entry, record)) {
+          record.compressedSize += chunk.length;
+          yield chunk;
+        }
+        if (record.size > MAX_UINT32 || record.compressedSize > MAX_UINT32) {
+          throw new Error(`Entry ${name} is larger than the 4GB ZIP limit`);
+        }
+
+        const descriptor = this.dataDescriptor(record);
+        yield descriptor;
+        offset += record.compressedSize + descriptor.length;
+      }
+
+      if (offset > MAX_UINT32) {
+        throw new Error('Archive is larger than the 4GB ZIP limit');
+      }
+      records.push(record);
+    }
+
+    const centralDirectoryOffset = offset;
+    for (const record of records) {
+      const header = this.centralDirectoryHeader(record);
+      yield header;
+      offset += header.length;
+    }
+
+    yield this.endOfCentralDirectory(records.length, offset - centralDirectoryOffset, centralDirectoryOffset);
+  }
+
+  /**
+   * Read an entry's data, checksumming and counting it before compression
+   */
+  private entryData(entry: StreamEntry, record: CentralDirectoryRecord): AsyncIterable<Buffer> {
+    const source = entry.size > BACKPRESSURE_MIN_SIZE
+      ? this.backpressureHandler.applyBackpressure(entry.stream, this.options.highWaterMark)
+      : entry.stream;
+    const checksum = new Transform({
+      transform(chunk: Buffer, encoding, callback) {
+        record.crc = crc32(chunk, record.crc);
+        record.size += chunk.length;
+        callback(null, chunk);
+      }
+    });
+    const output = record.method === METHOD_DEFLATE ? createDeflateRaw({ level: this.options.level }) : new PassThrough();
+
+    // Errors of any stage end up on the output, and with it in the archive stream
+    pipeline(source, checksum, output, () => undefined);
+    return output;
+  }
+
+  private compressionOf(entry: StreamEntry): ZipCompressionMethod {
+    const compression = this.options.compression || 'deflate';
+    return typeof compression === 'function' ? compression(entry) : compression;
+  }
+
+  private normalizeName(entry: StreamEntry): string {
+    const name = entry.name.replace(/\\/g, '/').replace(/^(\.\/)+/, '').replace(/\/+$/, '');
+    if (!ArchiveSafetyPolicy.isSafePath(name)) {
+      throw new Error(`Entry name ${JSON.stringify(entry.name)} is not a relative path inside the archive`);
+    }
+    return entry.isDirectory ? `${name}/` : name;
+  }
+
+  private localFileHeader(record: CentralDirectoryRecord): Buffer {
+    const extra = this.extendedTimestamp(record.lastModified);
+    const header = Buffer.alloc(30);
+    const { time, date } = toDosDateTime(record.lastModified);
+    header.writeUInt32LE(LOCAL_FILE_HEADER_SIGNATURE, 0);
+    header.writeUInt16LE(VERSION_NEEDED, 4);
+    header.writeUInt16LE(record.flags, 6);
+    header.writeUInt16LE(record.method, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    // CRC and sizes (offsets 14-25) stay zero; they follow in the data descriptor
+    header.writeUInt16LE(record.name.length, 26);
+    header.writeUInt16LE(extra.length, 28);
+    return Buffer.concat([header, record.name, extra]);
+  }
+
+  private dataDescriptor(record: CentralDirectoryRecord): Buffer {
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(DATA_DESCRIPTOR_SIGNATURE, 0);
+    descriptor.writeUInt32LE(record.crc, 4);
+    descriptor.writeUInt32LE(record.compressedSize, 8);
+    descriptor.writeUInt32LE(record.size, 12);
+    return descriptor;
+  }
+
+  private centralDirectoryHeader(record: CentralDirectoryRecord): Buffer {
+    const extra = this.extendedTimestamp(record.lastModified);
+    const header = Buffer.alloc(46);
+    const { time, date } = toDosDateTime(record.lastModified);
+    header.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0);
+    header.writeUInt16LE(VERSION_MADE_BY, 4);
+    header.writeUInt16LE(VERSION_NEEDED, 6);
+    header.writeUInt16LE(record.flags, 8);
+    header.writeUInt16LE(record.method, 10);
+    header.writeUInt16LE(time, 12);
+    header.writeUInt16LE(date, 14);
+    header.writeUInt32LE(record.crc, 16);
+    header.writeUInt32LE(record.compressedSize, 20);
+    header.writeUInt32LE(record.size, 24);
+    header.writeUInt16LE(record.name.length, 28);
+    header.writeUInt16LE(extra.length, 30);
+    // Comment length, disk number and internal attributes (offsets 32-37) stay zero
+    header.writeUInt32LE(record.externalAttributes, 38);
+    header.writeUInt32LE(record.offset, 42);
+    return Buffer.concat([header, record.name, extra]);
+  }
+
+  private endOfCentralDirectory(entryCount: number, size: number, offset: number): Buffer {
+    const record = Buffer.alloc(22);
+    record.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+    record.writeUInt16LE(entryCount, 8);
+    record.writeUInt16LE(entryCount, 10);
+    record.writeUInt32LE(size, 12);
+    record.writeUInt32LE(offset, 16);
+    return record;
+  }
+
+  /**
+   * DOS timestamps are local time with two-second precision, so the exact
+   * modification time is also stored as Unix seconds in an extra field
+   */
+  private extendedTimestamp(lastModified: Date): Buffer {
+    const seconds = Math.floor(lastModified.getTime() / 1000);
+    if (seconds < 0 || seconds > 0x7fffffff) {
+      return Buffer.alloc(0);
+    }
+    const field = Buffer.alloc(9);
+    field.writeUInt16LE(EXTENDED_TIMESTAMP_FIELD, 0);
+    field.writeUInt16LE(5, 2);
+    field.writeUInt8(1, 4); // Only the modification time is present
+    field.writeUInt32LE(seconds, 5);
+    return field;
+  }
+
+  private isEntryIterable(source: ZipFileMap | Iterable<StreamEntry> | AsyncIterable<StreamEntry>): source is Iterable<StreamEntry> | AsyncIterable<StreamEntry> {
+    return Symbol.iterator in source || Symbol.asyncIterator in source;
+  }
+}
+
+/**
+ * Convert a date to the MS-DOS time and date fields, clamped to 1980-2107
+ */
+function toDosDateTime(value: Date): { time: number; date: number } {
+  const year = value.getFullYear();
+  if (year < 1980) {
+    return { time: 0, date: (1 << 5) | 1 };
+  }
+  if (year > 2107) {
+    return { time: (23 << 11) | (59 << 5) | 29, date: (127 << 9) | (12 << 5) | 31 };
+  }
+  return {
+    time: (value.getHours() << 11) | (value.getMinutes() << 5) | (value.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate()
+  };
+}
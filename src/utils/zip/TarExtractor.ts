@@ -0,0 +1,330 @@
+import { Readable } from 'stream';
+import { promisify } from 'util';
+import zlib from 'zlib';
+import { StreamEntry, StreamOptions } from '../../types/streaming';
+import { ArchiveSafetyOptions, ZipEntry, ZipExtractionError } from '../../types/zip';
+import { MemoryMonitor } from './MemoryMonitor';
+import { ProgressTracker } from './ProgressTracker';
+import { ArchiveSafetyPolicy, DEFAULT_ARCHIVE_SAFETY, RATIO_CHECK_MIN_SIZE } from './ArchiveSafetyPolicy';
+import { detectArchiveType, hasValidTarChecksum, isTarHeader } from './ArchiveType';
+
+const gunzip = promisify(zlib.gunzip);
+
+const BLOCK_SIZE = 512;
+
+const S_IFREG = 0o100000;
+const S_IFDIR = 0o040000;
+const S_IFLNK = 0o120000;
+
+/**
+ * A file, directory or link record read from a tar archive
+ */
+interface TarRecord {
+  name: string;
+  size: number;
+  mode: number;
+  lastModified: Date;
+  type: 'file' | 'directory' | 'link';
+  data: Buffer;
+}
+
+/**
+ * Extractor for tar and gzip-compressed tar archives.
+ *
+ * Emits the same StreamEntry and ZipEntry shapes as the ZIP extractors, so
+ * entry filtering, chunked processing and progress tracking work unchanged.
+ * Understands ustar, pax and GNU long name headers, which covers GitHub
+ * tarballs and archives written by npm, GNU tar and bsdtar.
+ */
+export class TarExtractor {
+  private memoryMonitor: MemoryMonitor;
+  private progressTracker: ProgressTracker | null = null;
+
+  /**
+   * Create a tar extractor
+   * @param memoryLimit Maximum memory usage in bytes (default: 100MB)
+   */
+  constructor(memoryLimit?: number) {
+    this.memoryMonitor = new MemoryMonitor(
+      memoryLimit !== undefined ? memoryLimit : 100 * 1024 * 1024
+    );
+  }
+
+  /**
+   * Extract tar entries as streams
+   * @param buffer Tar or tar.gz file buffer
+   * @param options Streaming options
+   * @returns Promise resolving to array of stream entries
+   */
+  async extractStreams(buffer: Buffer, options: StreamOptions = {}): Promise<StreamEntry[]> {
+    const entries: StreamEntry[] = [];
+    await this.processEntriesStream(buffer, async (entry) => {
+      entries.push(entry);
+      if (options.onEntry) {
+        await options.onEntry(entry);
+      }
+    }, options);
+    return entries;
+  }
+
+  /**
+   * Process tar entries one at a time
+   * @param buffer Tar or tar.gz file buffer
+   * @param entryCallback Callback function for each entry
+   * @param options Streaming options
+   */
+  async processEntriesStream(
+    buffer: Buffer,
+    entryCallback: (entry: StreamEntry) => Promise<void>,
+    options: StreamOptions = {}
+  ): Promise<void> {
+    if (this.memoryMonitor.isLimitExceeded()) {
+      throw new Error('Memory limit exceeded before processing');
+    }
+
+    const records = TarExtractor.readRecords(await this.readTar(buffer, options.safety));
+
+    // Refuse archives with more entries than allowed before emitting any of them
+    const policy = new ArchiveSafetyPolicy(options.safety);
+    policy.checkEntryCount(records.length);
+
+    if (options.onProgress) {
+      this.progressTracker = new ProgressTracker(records.length);
+    }
+
+    let processedEntries = 0;
+    for (const record of records) {
+      if (this.memoryMonitor.isLimitExceeded()) {
+        throw new Error('Memory limit exceeded during processing');
+      }
+
+      // Links carry S_IFLNK so the policy rejects or skips them
+      if (policy.checkEntry({ name: record.name, size: record.size, mode: record.mode })) {
+        await entryCallback(TarExtractor.toStreamEntry(record));
+      }
+
+      processedEntries++;
+      if (this.progressTracker && options.onProgress) {
+        this.progressTracker.update(processedEntries);
+        options.onProgress(this.progressTracker.getProgress());
+      }
+      this.memoryMonitor.checkAndAlert();
+    }
+  }
+
+  /**
+   * List the entries of a tar archive without extracting them
+   * @param buffer Tar or tar.gz file buffer
+   * @param safety Archive safety limits
+   * @returns Promise resolving to the file and directory entries
+   */
+  async listEntries(buffer: Buffer, safety?: ArchiveSafetyOptions): Promise<ZipEntry[]> {
+    return TarExtractor.readRecords(await this.readTar(buffer, safety))
+      .filter(record => record.type !== 'link')
+      .map(record => ({
+        name: record.name,
+        size: record.size,
+        compressedSize: 0, // Not available for entries of a compressed stream
+        lastModified: record.lastModified,
+        isDirectory: record.type === 'directory',
+        isFile: record.type === 'file'
+      }));
+  }
+
+  /**
+   * Return the uncompressed tar data, inflating gzip within the safety limits
+   */
+  private async readTar(buffer: Buffer, safety?: ArchiveSafetyOptions): Promise<Buffer> {
+    const archiveType = detectArchiveType(buffer);
+    if (archiveType === 'tar') {
+      return buffer;
+    }
+    if (archiveType !== 'tar.gz') {
+      throw new ZipExtractionError('Archive is neither a tar nor a gzip file', 'UNSUPPORTED_FORMAT');
+    }
+
+    // Sizes in tar headers are only known once inflated, so bound the output instead
+    const limits = { ...DEFAULT_ARCHIVE_SAFETY, ...safety };
+    const totalSizeLimit = limits.maxTotalSize + (limits.maxEntries + 2) * 2 * BLOCK_SIZE;
+    const ratioLimit = Math.max(buffer.length * limits.maxCompressionRatio, RATIO_CHECK_MIN_SIZE);
+
+    let tar: Buffer;
+    try {
+      tar = await gunzip(buffer, { maxOutputLength: Math.min(totalSizeLimit, ratioLimit) });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+        throw ratioLimit < totalSizeLimit
+          ? new ZipExtractionError(
+            `Archive expands more than the limit of ${limits.maxCompressionRatio}x`,
+            'COMPRESSION_RATIO_EXCEEDED'
+          )
+          : new ZipExtractionError(
+            `Archive expands to more than the limit of ${limits.maxTotalSize} bytes`,
+            'TOTAL_SIZE_EXCEEDED'
+          );
+      }
+      throw new ZipExtractionError(
+        `Failed to decompress gzip data: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'CORRUPTED_ZIP_FILE'
+      );
+    }
+
+    if (!isTarHeader(tar)) {
+      throw new ZipExtractionError('Gzip data does not contain a tar archive', 'UNSUPPORTED_FORMAT');
+    }
+    return tar;
+  }
+
+  /**
+   * Parse the header blocks of an uncompressed tar archive
+   */
+  private static readRecords(tar: Buffer): TarRecord[] {
+    const records: TarRecord[] = [];
+    let globalPax: Record<string, string> = {};
+    let pax: Record<string, string> = {};
+    let longName: string | undefined;
+    let offset = 0;
+
+    while (offset + BLOCK_SIZE <= tar.length) {
+      const header = tar.subarray(offset, offset + BLOCK_SIZE);
+
+      // A zero block marks the end of the archive
+      if (header.every(byte => byte === 0)) {
+        break;
+      }
+      if (!hasValidTarChecksum(header)) {
+        throw new ZipExtractionError(`Invalid tar header checksum at offset ${offset}`, 'CORRUPTED_ZIP_FILE');
+      }
+
+      const typeFlag = header[156] === 0 ? '0' : String.fromCharCode(header[156]);
+      const isExtension = ['x', 'g', 'L', 'K'].includes(typeFlag);
+      const headers = isExtension ? {} : { ...globalPax, ...pax };
+      const size = headers.size !== undefined ? Number(headers.size) : TarExtractor.readNumber(header, 124, 12);
+      const dataStart = offset + BLOCK_SIZE;
+      if (!Number.isSafeInteger(size) || size < 0 || dataStart + size > tar.length) {
+        throw new ZipExtractionError(`Tar entry at offset ${offset} is truncated`, 'CORRUPTED_ZIP_FILE');
+      }
+      const data = tar.subarray(dataStart, dataStart + size);
+      offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+      // Extended headers describe the entry that follows them
+      switch (typeFlag) {
+        case 'x':
+          pax = { ...pax, ...TarExtractor.parsePax(data) };
+          continue;
+        case 'g':
+          globalPax = { ...globalPax, ...TarExtractor.parsePax(data) };
+          continue;
+        case 'L':
+          longName = TarExtractor.readString(data, 0, data.length);
+          continue;
+        case 'K':
+          // Long link targets are not needed, links never reach the callback
+          continue;
+      }
+
+      const prefix = header.toString('latin1', 257, 262) === 'ustar' ? TarExtractor.readString(header, 345, 155) : '';
+      const headerName = TarExtractor.readString(header, 0, 100);
+      const rawName = headers.path ?? longName ?? (prefix ? `${prefix}/${headerName}` : headerName);
+      const mtime = headers.mtime !== undefined ? Number(headers.mtime) : TarExtractor.readNumber(header, 136, 12);
+      const permissions = TarExtractor.readNumber(header, 100, 8) & 0o7777;
+      pax = {};
+      longName = undefined;
+
+      let type: TarRecord['type'];
+      let mode: number;
+      if (typeFlag === '0' || typeFlag === '7') {
+        type = rawName.endsWith('/') ? 'directory' : 'file';
+        mode = (type === 'file' ? S_IFREG : S_IFDIR) | permissions;
+      } else if (typeFlag === '5') {
+        type = 'directory';
+        mode = S_IFDIR | permissions;
+      } else if (typeFlag === '1' || typeFlag === '2') {
+        // Hard links point at other entries, which is as unsafe as a symbolic link
+        type = 'link';
+        mode = S_IFLNK | permissions;
+      } else {
+        // Devices, FIFOs and vendor extensions have no place in a project bundle
+        continue;
+      }
+
+      // Archives made with `tar -C dir .` prefix every name with './'
+      let name = rawName.replace(/^(\.\/)+/, '');
+      if (!name || name === '.') {
+        continue;
+      }
+      if (type === 'directory' && !name.endsWith('/')) {
+        name += '/';
+      }
+
+      records.push({
+        name,
+        size: type === 'file' ? size : 0,
+        mode,
+        lastModified: new Date(mtime * 1000),
+        type,
+        data: type === 'file' ? data : Buffer.alloc(0)
+      });
+    }
+
+    return records;
+  }
+
+  private static toStreamEntry(record: TarRecord): StreamEntry {
+    return {
+      name: record.name,
+      size: record.size,
+      isDirectory: record.type === 'directory',
+      stream: Readable.from(record.size > 0 ? [record.data] : [], { objectMode: false }),
+      lastModified: record.lastModified,
+      mode: record.mode & 0o7777
+    };
+  }
+
+  /**
+   * Read a NUL-terminated UTF-8 string field
+   */
+  private static readString(block: Buffer, offset: number, length: number): string {
+    const field = block.subarray(offset, offset + length);
+    const end = field.indexOf(0);
+    return field.toString('utf8', 0, end === -1 ? field.length : end);
+  }
+
+  /**
+   * Read a numeric field, stored as octal text or, for large values, as GNU base-256
+   */
+  private static readNumber(block: Buffer, offset: number, length: number): number {
+    const field = block.subarray(offset, offset + length);
+    if (field[0] & 0x80) {
+      let value = field[0] & 0x7f;
+      for (let i = 1; i < field.length; i++) {
+        value = value * 256 + field[i];
+      }
+      return value;
+    }
+    const text = field.toString('latin1').replace(/[\0 ]+/g, '');
+    return text ? parseInt(text, 8) : 0;
+  }
+
+  /**
+   * Parse pax extended header records of the form "<length> <key>=<value>\n"
+   */
+  private static parsePax(data: Buffer): Record<string, string> {
+    const headers: Record<string, string> = {};
+    let offset = 0;
+    while (offset < data.length) {
+      const space = data.indexOf(0x20, offset);
+      const length = space === -1 ? NaN : parseInt(data.toString('latin1', offset, space), 10);
+      if (!length || offset + length > data.length) {
+        break;
+      }
+      const record = data.toString('utf8', space + 1, offset + length - 1);
+      const equals = record.indexOf('=');
+      if (equals > 0) {
+        headers[record.slice(0, equals)] = record.slice(equals + 1);
+      }
+      offset += length;
+    }
+    return headers;
+  }
+}
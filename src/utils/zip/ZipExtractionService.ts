@@ -8,6 +8,8 @@
  * - Corrupted file detection and handling
  * - Size limit enforcement
  * - Streaming support for large files
+ * - Tar and tar.gz archives, detected from their magic bytes
+ * - CRC-32 verification and optional content-hash manifests
  * - Comprehensive error handling
  * - Progress tracking
  * - Memory-efficient processing
@@ -16,13 +18,16 @@
 
 import fs from 'fs/promises';
 import path from 'path';
+import { createHash } from 'crypto';
 import yauzl, { Entry, ZipFile } from 'yauzl';
 import { createWriteStream } from 'fs';
 import {
   ZipEntry,
   ZipExtractionOptions,
   ZipExtractionResult,
-  ZipExtractionError
+  ZipExtractionError,
+  ArchiveType,
+  ArchiveManifestEntry
 } from '../../types/zip.js';
 import { FilterHooksService } from '../../filters/hooks/FilterHooksService.js';
 import { AgenticJujutsuService } from '../../github/files/AgenticJujutsuService.js';
@@ -31,8 +36,14 @@ import { MemoryEfficientProcessor } from './MemoryEfficientProcessor.js';
 import { BackpressureHandler } from './BackpressureHandler.js';
 import { ChunkedProcessor } from './ChunkedProcessor.js';
 import { EntryFilter } from './EntryFilter.js';
+import { ArchiveSafetyPolicy } from './ArchiveSafetyPolicy.js';
+import { TarExtractor } from './TarExtractor.js';
+import { detectArchiveType } from './ArchiveType.js';
+import { EntryHasher } from './EntryHasher.js';
+import { ArchiveManifestService } from './ArchiveManifestService.js';
 import { StreamEntry, StreamOptions } from '../../types/streaming.js';
 import { ZipVerificationService } from './ZipVerificationService.js';
+import type { ExportFile } from '../../github/types/git.js';
 
 export class ZipExtractionService {
   /**
@@ -74,8 +85,12 @@ export class ZipExtractionService {
         );
       }
 
+      // Tar archives have no central directory to read entries from, so they are always streamed
+      const archiveType = await this.detectFileArchiveType(zipFilePath);
+
       // For large files or when streaming is enabled, use streaming extraction
-      if (options.useStreaming || (options.maxSize && options.maxSize > 50 * 1024 * 1024)) {
+      if (options.useStreaming || archiveType === 'tar' || archiveType === 'tar.gz' ||
+        (options.maxSize && options.maxSize > 50 * 1024 * 1024)) {
         return await this.extractStreaming(zipFilePath, destinationPath, options);
       }
 
@@ -90,6 +105,8 @@ export class ZipExtractionService {
         warnings: []
       };
 
+      const manifestEntries: ArchiveManifestEntry[] | undefined = options.manifest ? [] : undefined;
+
       const finalResult = await new Promise<ZipExtractionResult>((resolve, reject) => {
         yauzl.open(zipFilePath, { lazyEntries: true }, (err, zipFile) => {
           if (err) {
@@ -109,9 +126,12 @@ export class ZipExtractionService {
             return;
           }
 
-          this.processEntries(zipFile, destinationPath, options, result)
+          this.processEntries(zipFile, destinationPath, options, result, manifestEntries)
             .then(async entries => {
               result.entries = entries;
+              if (manifestEntries) {
+                result.manifest = ArchiveManifestService.create(await ArchiveManifestService.hashFile(zipFilePath), manifestEntries);
+              }
 
               // Record operation in agentic jujutsu
               await jujutsuService.recordOperation(
@@ -246,19 +266,25 @@ export class ZipExtractionService {
         warnings: []
       };
 
-      // Extract streams from ZIP
-      const streamEntries = await extractor.extractStreams(buffer, {
+      // Extract streams from the ZIP or tar archive
+      const streamOptions: StreamOptions = {
         highWaterMark: options.highWaterMark,
+        safety: options.safety,
         onProgress: options.onProgress ? (progress) => {
           // Convert streaming progress to extraction progress
           if (options.onProgress) {
             options.onProgress(progress.percentage);
           }
         } : undefined
-      });
+      };
+      const archiveType = detectArchiveType(buffer);
+      const streamEntries = archiveType === 'tar' || archiveType === 'tar.gz'
+        ? await new TarExtractor(memoryLimit).extractStreams(buffer, streamOptions)
+        : await extractor.extractStreams(buffer, streamOptions);
 
       // Filter entries
       const filteredEntries = filter.filterEntries(streamEntries);
+      const manifestEntries: ArchiveManifestEntry[] | undefined = options.manifest ? [] : undefined;
 
       // Process each entry
       for (const entry of filteredEntries) {
@@ -270,7 +296,7 @@ export class ZipExtractionService {
             name: entry.name,
             size: entry.size,
             compressedSize: 0, // Not available in streaming mode
-            lastModified: new Date(),
+            lastModified: entry.lastModified || new Date(),
             isDirectory: true,
             isFile: false
           });
@@ -283,11 +309,16 @@ export class ZipExtractionService {
             handler,
             chunker,
             options,
-            result
+            result,
+            manifestEntries
           );
         }
       }
 
+      if (manifestEntries) {
+        result.manifest = ArchiveManifestService.create(createHash('sha256').update(buffer).digest('hex'), manifestEntries);
+      }
+
       // Record operation in agentic jujutsu
       await jujutsuService.recordOperation(
         {
@@ -325,7 +356,8 @@ export class ZipExtractionService {
     } catch (error) {
       throw new ZipExtractionError(
         `Streaming extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'EXTRACTION_FAILED',
+        // Keep the code of safety violations so callers can tell why the archive was refused
+        error instanceof ZipExtractionError ? error.code : 'EXTRACTION_FAILED',
         error instanceof Error ? error : undefined
       );
     } finally {
@@ -338,6 +370,24 @@ export class ZipExtractionService {
     }
   }
 
+  /**
+   * Detects the archive type of a file from its first bytes
+   */
+  private static async detectFileArchiveType(filePath: string): Promise<ArchiveType> {
+    let handle: fs.FileHandle | undefined;
+    try {
+      handle = await fs.open(filePath, 'r');
+      const header = Buffer.alloc(512);
+      const { bytesRead } = await handle.read(header, 0, header.length, 0);
+      return detectArchiveType(header.subarray(0, bytesRead));
+    } catch {
+      // Unreadable files are reported by the ZIP reader as before
+      return 'unknown';
+    } finally {
+      await handle?.close();
+    }
+  }
+
   /**
    * Processes a stream entry with adaptive processing based on file size
    */
@@ -348,7 +398,8 @@ export class ZipExtractionService {
     handler: BackpressureHandler,
     chunker: ChunkedProcessor,
     options: ZipExtractionOptions,
-    result: ZipExtractionResult
+    result: ZipExtractionResult,
+    manifestEntries?: ArchiveManifestEntry[]
   ): Promise<void> {
     const fullPath = path.join(destinationPath, entry.name);
 
@@ -373,11 +424,20 @@ export class ZipExtractionService {
     }
 
     // For very large files, use chunked processing
+    const hasher = new EntryHasher(entry.name, entry.size);
     if (entry.size > 50 * 1024 * 1024) { // 50MB
-      await this.processLargeStreamEntry(entry, processedStream, fullPath, chunker, result);
+      await this.processLargeStreamEntry(entry, processedStream, fullPath, chunker, result, hasher);
     } else {
       // For smaller files, use memory-efficient processing
-      await this.processRegularStreamEntry(entry, processedStream, fullPath, processor, result);
+      await this.processRegularStreamEntry(entry, processedStream, fullPath, processor, result, hasher);
+    }
+    if (manifestEntries) {
+      manifestEntries.push(hasher.digest(entry.mode));
+    }
+
+    // Keep scripts executable
+    if (entry.mode !== undefined && entry.mode & 0o111) {
+      await fs.chmod(fullPath, entry.mode & 0o777);
     }
 
     // Call callback if provided
@@ -386,7 +446,7 @@ export class ZipExtractionService {
         name: entry.name,
         size: entry.size,
         compressedSize: 0, // Not available in streaming mode
-        lastModified: new Date(),
+        lastModified: entry.lastModified || new Date(),
         isDirectory: false,
         isFile: true
       });
@@ -401,19 +461,24 @@ export class ZipExtractionService {
     stream: import("stream").Readable,
     fullPath: string,
     processor: MemoryEfficientProcessor,
-    result: ZipExtractionResult
+    result: ZipExtractionResult,
+    hasher: EntryHasher
   ): Promise<void> {
     try {
-      // Process the stream entry
-      await processor.processStreamEntry({
+      // Process the stream entry; this consumes the stream, so the returned data is written
+      const data = await processor.processStreamEntry({
         ...entry,
         stream
       });
 
+      // Refuse corrupted data before writing it
+      hasher.update(data);
+      hasher.verify(entry.crc32);
+
       // Write to file
       const writeStream = createWriteStream(fullPath);
       return new Promise<void>((resolve, reject) => {
-        stream.pipe(writeStream);
+        writeStream.end(data);
         writeStream.on('finish', () => {
           result.extractedCount++;
           result.totalSize += entry.size;
@@ -421,16 +486,18 @@ export class ZipExtractionService {
             name: entry.name,
             size: entry.size,
             compressedSize: 0, // Not available in streaming mode
-            lastModified: new Date(),
+            lastModified: entry.lastModified || new Date(),
             isDirectory: false,
             isFile: true
           });
           resolve();
         });
         writeStream.on('error', reject);
-        stream.on('error', reject);
       });
     } catch (error) {
+      if (error instanceof ZipExtractionError) {
+        throw error;
+      }
       throw new ZipExtractionError(
         `Failed to process entry ${entry.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
         'EXTRACTION_FAILED',
@@ -447,7 +514,8 @@ export class ZipExtractionService {
     stream: import("stream").Readable,
     fullPath: string,
     chunker: ChunkedProcessor,
-    result: ZipExtractionResult
+    result: ZipExtractionResult,
+    hasher: EntryHasher
   ): Promise<void> {
     try {
       // Process the stream entry in chunks
@@ -456,6 +524,10 @@ export class ZipExtractionService {
         stream
       });
 
+      // Refuse corrupted data before writing it
+      chunkedResult.chunks.forEach(chunk => hasher.update(chunk));
+      hasher.verify(entry.crc32);
+
       // Write chunks to file
       const writeStream = createWriteStream(fullPath);
       return new Promise<void>((resolve, reject) => {
@@ -485,7 +557,7 @@ export class ZipExtractionService {
             name: entry.name,
             size: entry.size,
             compressedSize: 0, // Not available in streaming mode
-            lastModified: new Date(),
+            lastModified: entry.lastModified || new Date(),
             isDirectory: false,
             isFile: true
           });
@@ -496,6 +568,9 @@ export class ZipExtractionService {
         writeChunk();
       });
     } catch (error) {
+      if (error instanceof ZipExtractionError) {
+        throw error;
+      }
       throw new ZipExtractionError(
         `Failed to process large entry ${entry.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
         'EXTRACTION_FAILED',
@@ -517,6 +592,11 @@ export class ZipExtractionService {
       );
     }
 
+    const archiveType = await this.detectFileArchiveType(zipFilePath);
+    if (archiveType === 'tar' || archiveType === 'tar.gz') {
+      return new TarExtractor().listEntries(await fs.readFile(zipFilePath));
+    }
+
     return new Promise<ZipEntry[]>((resolve, reject) => {
       yauzl.open(zipFilePath, { lazyEntries: true }, (err, zipFile) => {
         if (err) {
@@ -562,6 +642,46 @@ export class ZipExtractionService {
     });
   }
 
+  /**
+   * Reads extracted files back as export files for FileService.exportIncremental
+   * @param destinationPath Path the ZIP file was extracted to
+   * @param entries Entries reported by the extraction result
+   * @returns Export files with repository-relative paths; binary files are base64 encoded
+   */
+  public static async readExportFiles(destinationPath: string, entries: ZipEntry[]): Promise<ExportFile[]> {
+    const files: ExportFile[] = [];
+
+    for (const entry of entries) {
+      if (!entry.isFile) {
+        continue;
+      }
+
+      const filePath = path.join(destinationPath, entry.name);
+      try {
+        const [content, stats] = await Promise.all([fs.readFile(filePath), fs.stat(filePath)]);
+        const isText = !content.includes(0) && Buffer.from(content.toString('utf8'), 'utf8').equals(content);
+        const file: ExportFile = {
+          path: entry.name.replace(/\\/g, '/').replace(/^\.?\/+/, ''),
+          content: content.toString(isText ? 'utf8' : 'base64'),
+          encoding: isText ? 'utf-8' : 'base64'
+        };
+        // Only an executable bit is meaningful; otherwise keep whatever mode the branch has
+        if (stats.mode & 0o111) {
+          file.mode = '100755';
+        }
+        files.push(file);
+      } catch (error) {
+        throw new ZipExtractionError(
+          `Failed to read extracted file ${entry.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          'EXTRACTION_FAILED',
+          error instanceof Error ? error : undefined
+        );
+      }
+    }
+
+    return files;
+  }
+
   /**
    * Processes ZIP entries and extracts them
    */
@@ -569,15 +689,25 @@ export class ZipExtractionService {
     zipFile: ZipFile,
     destinationPath: string,
     options: ZipExtractionOptions,
-    result: ZipExtractionResult
+    result: ZipExtractionResult,
+    manifestEntries?: ArchiveManifestEntry[]
   ): Promise<ZipEntry[]> {
     const entries: ZipEntry[] = [];
     const totalEntries = zipFile.entryCount;
     let processedEntries = 0;
+    const policy = new ArchiveSafetyPolicy(options.safety);
+    policy.checkEntryCount(totalEntries);
 
     return new Promise<ZipEntry[]>((resolve, reject) => {
       zipFile.on('entry', async (entry: Entry) => {
         try {
+          // Refuse unsafe archives before any entry data is written
+          if (!policy.checkEntry(ArchiveSafetyPolicy.fromZipEntry(entry))) {
+            result.warnings.push(`Symbolic link ${entry.fileName} was skipped`);
+            zipFile.readEntry();
+            return;
+          }
+
           // Convert to our entry format
           const zipEntry = this.convertEntry(entry);
           entries.push(zipEntry);
@@ -596,7 +726,7 @@ export class ZipExtractionService {
           }
 
           // Extract the entry
-          await this.extractEntry(zipFile, entry, destinationPath, zipEntry, options, result);
+          await this.extractEntry(zipFile, entry, destinationPath, zipEntry, options, result, manifestEntries);
 
           // Update progress
           processedEntries++;
@@ -642,16 +772,9 @@ export class ZipExtractionService {
     destinationPath: string,
     zipEntry: ZipEntry,
     options: ZipExtractionOptions,
-    result: ZipExtractionResult
+    result: ZipExtractionResult,
+    manifestEntries?: ArchiveManifestEntry[]
   ): Promise<void> {
-    // Validate entry name to prevent path traversal
-    if (!this.isValidEntryName(zipEntry.name)) {
-      throw new ZipExtractionError(
-        `Invalid entry name: ${zipEntry.name}`,
-        'INVALID_ZIP_FILE'
-      );
-    }
-
     const fullPath = path.join(destinationPath, zipEntry.name);
 
     // Handle directories
@@ -709,8 +832,12 @@ export class ZipExtractionService {
             let currentSize = 0;
             const maxSize = options.maxSize || Infinity;
 
+            // yauzl checks sizes but not CRC-32, so hash the data as it is written
+            const hasher = new EntryHasher(zipEntry.name, entry.uncompressedSize);
+
             // Pipe data with size checking
             readStream.on('data', (chunk: Buffer) => {
+              hasher.update(chunk);
               currentSize += chunk.length;
               if (currentSize > maxSize) {
                 readStream.destroy();
@@ -725,6 +852,18 @@ export class ZipExtractionService {
             // Wait for the stream to finish
             readStream.pipe(writeStream);
             writeStream.on('finish', () => {
+              try {
+                hasher.verify(entry.crc32);
+              } catch (error) {
+                // Do not leave corrupted data behind
+                fs.rm(fullPath, { force: true }).finally(() => reject(error));
+                return;
+              }
+              if (manifestEntries) {
+                const mode = ArchiveSafetyPolicy.fromZipEntry(entry).mode;
+                manifestEntries.push(hasher.digest(mode !== undefined ? mode & 0o7777 : undefined));
+              }
+
               // Update result statistics
               result.extractedCount++;
               result.totalSize += zipEntry.size;
@@ -782,28 +921,6 @@ export class ZipExtractionService {
     };
   }
 
-  /**
-   * Validates entry name to prevent path traversal attacks
-   */
-  private static isValidEntryName(name: string): boolean {
-    // Check for path traversal attempts
-    if (name.includes('../') || name.includes('..\\')) {
-      return false;
-    }
-
-    // Check for absolute paths
-    if (path.isAbsolute(name)) {
-      return false;
-    }
-
-    // Check for invalid characters (basic check)
-    if (name.includes('\0')) {
-      return false;
-    }
-
-    return true;
-  }
-
   /**
    * Ensures a directory exists, creating it if necessary
    */
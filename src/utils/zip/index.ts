@@ -10,23 +10,42 @@ export { ZipExtractionService } from './ZipExtractionService.js';
 
 // New streaming ZIP processing components
 export * from './StreamingZipExtractor';
+export * from './StreamingZipWriter';
+export * from './TarExtractor';
+export * from './ArchiveType';
+export * from './EntryHasher';
+export * from './ArchiveManifestService';
+export * from './ExtractionCheckpoint';
 export * from './MemoryEfficientProcessor';
 export * from './BackpressureHandler';
 export * from './ChunkedProcessor';
 export * from './EntryFilter';
 export * from './ProgressTracker';
 export * from './MemoryMonitor';
+export * from './ArchiveSafetyPolicy';
 
 export type {
   ZipEntry,
   ZipExtractionOptions,
   ZipExtractionResult,
-  ZipExtractionError
+  ZipExtractionError,
+  ArchiveSafetyOptions,
+  ArchiveEntryInfo,
+  ArchiveType,
+  ArchiveManifest,
+  ArchiveManifestEntry,
+  ArchiveIntegrityReport,
+  DirectoryVerificationOptions
 } from '../../types/zip.js';
 
 // New streaming types
 export type {
   StreamEntry,
   StreamProgress,
-  StreamOptions
+  StreamOptions,
+  ZipCompressionMethod,
+  ZipFileMapEntry,
+  ZipFileMap,
+  ZipWriterOptions,
+  CheckpointEntry
 } from '../../types/streaming.js';
\ No newline at end of file
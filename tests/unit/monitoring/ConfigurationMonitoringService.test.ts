@@ -1,9 +1,10 @@
 // ConfigurationMonitoringService.test.ts - Unit tests for ConfigurationMonitoringService
 // Phase 4: Environment Configuration Management - Task 14: Create monitoring service for configuration operations
 
-import { ConfigurationMonitoringService, MonitoringServiceOptions } from '../../src/monitoring/ConfigurationMonitoringService';
-import { ConfigurationWorkflowResult } from '../../src/config/ConfigurationWorkflowService';
-import { RollbackEvent } from '../../src/verification/AutomatedRollbackService';
+import { ConfigurationMonitoringService, MonitoringServiceOptions } from '../../../src/monitoring/ConfigurationMonitoringService';
+import { ConfigurationWorkflowResult } from '../../../src/config/ConfigurationWorkflowService';
+import { RollbackEvent } from '../../../src/verification/AutomatedRollbackService';
+import { WorkflowRunResult } from '../../../src/github/types/github';
 
 describe('ConfigurationMonitoringService', () => {
   let monitoringService: ConfigurationMonitoringService;
@@ -198,6 +199,74 @@ describe('ConfigurationMonitoringService', () => {
     });
   });
 
+  describe('recordWorkflowRun', () => {
+    const workflowRun = (conclusion: string): WorkflowRunResult => ({
+      run: {
+        id: 42,
+        name: 'CI',
+        workflow_id: 7,
+        head_branch: 'staging',
+        head_sha: 'abc123',
+        event: 'workflow_dispatch',
+        status: 'completed',
+        conclusion,
+        run_number: 12,
+        html_url: 'https://github.com/owner/repo/actions/runs/42',
+        created_at: '2026-01-01T00:00:00Z',
+        updated_at: '2026-01-01T00:05:00Z'
+      },
+      jobs: [
+        { id: 1, run_id: 42, name: 'build', status: 'completed', conclusion: 'success', html_url: '', started_at: null, completed_at: null },
+        { id: 2, run_id: 42, name: 'test', status: 'completed', conclusion, html_url: '', started_at: null, completed_at: null }
+      ],
+      conclusion,
+      success: conclusion === 'success',
+      duration: 300000
+    });
+
+    it('should record a successful workflow run', () => {
+      monitoringService.recordWorkflowRun('owner/repo', workflowRun('success'));
+
+      const metrics = monitoringService.getMetrics();
+      expect(metrics.workflowRuns).toBe(1);
+      expect(metrics.failedWorkflowRuns).toBe(0);
+      expect(metrics.averageWorkflowDuration).toBe(300000);
+
+      const events = monitoringService.getEventsByType('workflow');
+      expect(events).toHaveLength(1);
+      expect(events[0].success).toBe(true);
+      expect(events[0].environment).toBe('staging');
+      expect(events[0].metadata?.conclusion).toBe('success');
+      expect(events[0].metadata?.url).toBe('https://github.com/owner/repo/actions/runs/42');
+    });
+
+    it('should record a failed workflow run with its failed jobs', () => {
+      monitoringService.recordWorkflowRun('owner/repo', workflowRun('failure'), 'production');
+
+      const metrics = monitoringService.getMetrics();
+      expect(metrics.workflowRuns).toBe(1);
+      expect(metrics.failedWorkflowRuns).toBe(1);
+
+      const events = monitoringService.getRecentEvents();
+      expect(events[0].type).toBe('workflow');
+      expect(events[0].success).toBe(false);
+      expect(events[0].environment).toBe('production');
+      expect(events[0].error).toBe('Workflow run concluded with failure');
+      expect(events[0].metadata?.failedJobs).toEqual(['test']);
+    });
+
+    it('should not count workflow runs towards configuration operation metrics', () => {
+      monitoringService.recordDeleteOperation('test-config', { success: true }, 25);
+      monitoringService.recordWorkflowRun('owner/repo', workflowRun('failure'));
+
+      const metrics = monitoringService.getMetrics();
+      expect(metrics.totalOperations).toBe(1);
+      expect(metrics.failedOperations).toBe(0);
+      expect(metrics.averageDuration).toBe(25);
+      expect(metrics.averageWorkflowDuration).toBe(300000);
+    });
+  });
+
   describe('recordError', () => {
     it('should record an error operation', () => {
       monitoringService.recordError('Database connection failed', { operation: 'save' });
@@ -0,0 +1,149 @@
+/**
+ * Tests for HttpClient verbs, typed errors and response metadata
+ */
+
+import { HttpClient, GitHubApiError, parseLinkHeader } from '../../src/utils/http';
+
+function mockResponse(status: number, body: any, headers: Record<string, string> = {}, statusText = ''): Response {
+  return new Response(body === undefined ? null : JSON.stringify(body), { status, statusText, headers });
+}
+
+describe('HttpClient', () => {
+  let fetchMock: jest.Mock;
+  let originalFetch: typeof fetch;
+
+  beforeEach(() => {
+    originalFetch = global.fetch;
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as any;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should send PUT and PATCH requests with a JSON body', async () => {
+    fetchMock.mockImplementation(async () => mockResponse(200, { ok: true }));
+    const client = new HttpClient({ baseUrl: 'https://api.example.com' });
+
+    await client.put('/resource', { a: 1 }, { Authorization: 'token t' });
+    await client.patch('/resource', { b: 2 });
+
+    expect(fetchMock).toHaveBeenNthCalledWith(1, 'https://api.example.com/resource', expect.objectContaining({
+      method: 'PUT',
+      body: JSON.stringify({ a: 1 }),
+      headers: expect.objectContaining({ 'Content-Type': 'application/json', Authorization: 'token t' })
+    }));
+    expect(fetchMock).toHaveBeenNthCalledWith(2, 'https://api.example.com/resource', expect.objectContaining({
+      method: 'PATCH',
+      body: JSON.stringify({ b: 2 })
+    }));
+  });
+
+  it('should send a body with DELETE when one is given and tolerate empty responses', async () => {
+    fetchMock.mockResolvedValue(mockResponse(204, undefined));
+    const client = new HttpClient();
+
+    const result = await client.delete('/repos/o/r/contents/a.txt', {}, { message: 'rm', sha: 'abc' });
+
+    expect(result).toBeUndefined();
+    expect(fetchMock).toHaveBeenCalledWith('https://api.github.com/repos/o/r/contents/a.txt', expect.objectContaining({
+      method: 'DELETE',
+      body: JSON.stringify({ message: 'rm', sha: 'abc' })
+    }));
+  });
+
+  it('should send binary bodies as raw bytes to absolute URLs', async () => {
+    fetchMock.mockResolvedValue(mockResponse(201, { id: 1 }));
+    const client = new HttpClient();
+    const bytes = new Uint8Array([0x50, 0x4b, 0x03, 0x04]);
+
+    const response = await client.send('POST', 'https://uploads.github.com/repos/o/r/releases/1/assets?name=a.zip', {
+      body: bytes,
+      headers: { 'Content-Type': 'application/zip' }
+    });
+
+    expect(response.status).toBe(201);
+    expect(fetchMock).toHaveBeenCalledWith('https://uploads.github.com/repos/o/r/releases/1/assets?name=a.zip', expect.objectContaining({
+      method: 'POST',
+      body: bytes,
+      headers: expect.objectContaining({ 'Content-Type': 'application/zip' })
+    }));
+  });
+
+  it('should return binary response bodies as a Buffer', async () => {
+    fetchMock.mockResolvedValue(new Response(new Uint8Array([0x50, 0x4b, 0xff]), { status: 200 }));
+    const client = new HttpClient();
+
+    const response = await client.send('GET', '/repos/o/r/zipball/main', { responseType: 'binary' });
+
+    expect(Buffer.isBuffer(response.data)).toBe(true);
+    expect([...response.data]).toEqual([0x50, 0x4b, 0xff]);
+  });
+
+  it('should expose headers, ETag, Link and rate limit metadata', async () => {
+    fetchMock.mockResolvedValue(mockResponse(200, [{ id: 1 }], {
+      'ETag': '"abc"',
+      'Link': '<https://api.github.com/user/repos?page=2>; rel="next"',
+      'X-RateLimit-Limit': '5000',
+      'X-RateLimit-Remaining': '4999',
+      'X-RateLimit-Reset': '1700000000',
+      'X-RateLimit-Used': '1',
+      'X-RateLimit-Resource': 'core',
+      'X-GitHub-Request-Id': 'REQ-1'
+    }));
+    const client = new HttpClient();
+
+    const response = await client.send('GET', '/user/repos');
+
+    expect(response.status).toBe(200);
+    expect(response.data).toEqual([{ id: 1 }]);
+    expect(response.etag).toBe('"abc"');
+    expect(response.link).toContain('rel="next"');
+    expect(response.requestId).toBe('REQ-1');
+    expect(response.rateLimit).toEqual({ limit: 5000, remaining: 4999, reset: 1700000000, used: 1, resource: 'core' });
+  });
+
+  it('should throw GitHubApiError carrying status, body and request id', async () => {
+    fetchMock.mockResolvedValue(mockResponse(422, {
+      message: 'Validation Failed',
+      documentation_url: 'https://docs.github.com/rest',
+      errors: [{ resource: 'Repository', field: 'name', code: 'already_exists' }]
+    }, { 'X-GitHub-Request-Id': 'REQ-2' }, 'Unprocessable Entity'));
+    const client = new HttpClient();
+
+    const error = await client.post('/user/repos', { name: 'taken' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(GitHubApiError);
+    expect(error.message).toBe('HTTP 422: Unprocessable Entity - Validation Failed');
+    expect(error.status).toBe(422);
+    expect(error.requestId).toBe('REQ-2');
+    expect(error.documentationUrl).toBe('https://docs.github.com/rest');
+    expect(error.errors).toEqual([{ resource: 'Repository', field: 'name', code: 'already_exists' }]);
+  });
+
+  it('should follow Link rel="next" headers when paginating', async () => {
+    fetchMock
+      .mockResolvedValueOnce(mockResponse(200, [{ id: 1 }, { id: 2 }], {
+        'Link': '<https://api.github.com/user/repos?per_page=2&page=2>; rel="next", <https://api.github.com/user/repos?per_page=2&page=2>; rel="last"'
+      }))
+      .mockResolvedValueOnce(mockResponse(200, [{ id: 3 }]));
+    const client = new HttpClient();
+
+    const items: any[] = [];
+    for await (const item of client.paginate('/user/repos?per_page=2')) {
+      items.push(item);
+    }
+
+    expect(items).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    expect(fetchMock).toHaveBeenNthCalledWith(2, 'https://api.github.com/user/repos?per_page=2&page=2', expect.anything());
+  });
+
+  it('should parse Link headers into relations', () => {
+    expect(parseLinkHeader('<https://a/?page=2>; rel="next", <https://a/?page=9>; rel="last"')).toEqual({
+      next: 'https://a/?page=2',
+      last: 'https://a/?page=9'
+    });
+    expect(parseLinkHeader(undefined)).toEqual({});
+  });
+});
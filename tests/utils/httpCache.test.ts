@@ -0,0 +1,162 @@
+/**
+ * Tests for the ETag/Last-Modified response cache
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  MemoryHttpCacheStore,
+  ChromeStorageHttpCacheStore,
+  ChromeStorageArea,
+  CachedResponse,
+  createCacheKey
+} from '../../src/utils/httpCache';
+import { FileHttpCacheStore } from '../../src/utils/fileHttpCache';
+import { HttpClient } from '../../src/utils/http';
+
+function entry(url: string, data: any = { ok: true }): CachedResponse {
+  return { url, status: 200, data, headers: { etag: '"abc"' }, etag: '"abc"', storedAt: 1 };
+}
+
+describe('createCacheKey', () => {
+  it('should separate credentials and media types without exposing the token', () => {
+    const url = 'https://api.github.com/repos/o/r';
+    const a = createCacheKey(url, { 'Authorization': 'token a', 'Accept': 'application/vnd.github.v3+json' });
+    const b = createCacheKey(url, { 'Authorization': 'token b', 'Accept': 'application/vnd.github.v3+json' });
+    const raw = createCacheKey(url, { 'Authorization': 'token a', 'Accept': 'application/vnd.github.raw' });
+
+    expect(a).not.toBe(b);
+    expect(a).not.toBe(raw);
+    expect(a).not.toContain('token a');
+    expect(a).toMatch(/^[0-9a-f]{16} /);
+    expect(createCacheKey(url, { 'authorization': 'token a', 'accept': 'application/vnd.github.v3+json' })).toBe(a);
+  });
+});
+
+describe('MemoryHttpCacheStore', () => {
+  it('should evict the least recently used entry', async () => {
+    const store = new MemoryHttpCacheStore(2);
+    await store.set('a', entry('a'));
+    await store.set('b', entry('b'));
+    await store.get('a');
+    await store.set('c', entry('c'));
+
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('a')).toBeDefined();
+    expect(await store.size()).toBe(2);
+  });
+});
+
+describe('FileHttpCacheStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'http-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should persist entries across instances', async () => {
+    await new FileHttpCacheStore(directory).set('key', entry('https://x', { name: 'repo' }));
+
+    const store = new FileHttpCacheStore(directory);
+    expect((await store.get('key'))?.data).toEqual({ name: 'repo' });
+    expect(await store.size()).toBe(1);
+
+    await store.delete('key');
+    expect(await store.get('key')).toBeUndefined();
+  });
+
+  it('should treat a missing directory as empty', async () => {
+    const store = new FileHttpCacheStore(path.join(directory, 'missing'));
+
+    expect(await store.get('key')).toBeUndefined();
+    expect(await store.size()).toBe(0);
+    await expect(store.clear()).resolves.toBeUndefined();
+  });
+});
+
+describe('ChromeStorageHttpCacheStore', () => {
+  it('should namespace entries within chrome.storage', async () => {
+    const items: Record<string, any> = { unrelated: 1 };
+    const storage: ChromeStorageArea = {
+      get: jest.fn(async (keys) => keys === null ? { ...items } : { [keys as string]: items[keys as string] }),
+      set: jest.fn(async (values) => { Object.assign(items, values); }),
+      remove: jest.fn(async (keys) => { ([] as string[]).concat(keys).forEach(key => delete items[key]); })
+    };
+    const store = new ChromeStorageHttpCacheStore(storage);
+
+    await store.set('k', entry('https://x'));
+    expect(items['httpCache:k']).toBeDefined();
+    expect((await store.get('k'))?.etag).toBe('"abc"');
+    expect(await store.size()).toBe(1);
+
+    await store.clear();
+    expect(items).toEqual({ unrelated: 1 });
+  });
+});
+
+describe('HttpClient with a response cache', () => {
+  let originalFetch: typeof fetch;
+
+  beforeEach(() => {
+    originalFetch = global.fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should revalidate with If-None-Match and serve 304 responses from the cache', async () => {
+    const fetchMock = jest.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify({ name: 'repo' }), { status: 200, headers: { etag: '"v1"' } }))
+      .mockResolvedValueOnce(new Response(null, { status: 304, headers: { etag: '"v1"', 'x-ratelimit-limit': '5000', 'x-ratelimit-remaining': '4999' } }));
+    global.fetch = fetchMock as any;
+    const client = new HttpClient({ cache: new MemoryHttpCacheStore() });
+
+    const first = await client.send('GET', '/repos/o/r', { headers: { 'Authorization': 'token t' } });
+    const second = await client.send('GET', '/repos/o/r', { headers: { 'Authorization': 'token t' } });
+
+    expect(first.fromCache).toBe(false);
+    expect(second).toMatchObject({ status: 200, data: { name: 'repo' }, fromCache: true, rateLimit: { remaining: 4999 } });
+    expect(fetchMock.mock.calls[1][1].headers['If-None-Match']).toBe('"v1"');
+    expect(await client.getCacheStatus()).toEqual({ enabled: true, size: 1, hits: 1, misses: 1 });
+  });
+
+  it('should replace the cached entry when the resource changed', async () => {
+    global.fetch = jest.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify({ v: 1 }), { status: 200, headers: { 'last-modified': 'Mon, 01 Jan 2024 00:00:00 GMT' } }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ v: 2 }), { status: 200, headers: { etag: '"v2"' } }))
+      .mockResolvedValueOnce(new Response(null, { status: 304 })) as any;
+    const client = new HttpClient({ cache: new MemoryHttpCacheStore() });
+
+    await client.get('/resource');
+    expect(await client.get('/resource')).toEqual({ v: 2 });
+    expect((global.fetch as jest.Mock).mock.calls[1][1].headers['If-Modified-Since']).toBe('Mon, 01 Jan 2024 00:00:00 GMT');
+    expect(await client.get('/resource')).toEqual({ v: 2 });
+    expect((global.fetch as jest.Mock).mock.calls[2][1].headers['If-None-Match']).toBe('"v2"');
+  });
+
+  it('should not cache writes and report a disabled cache by default', async () => {
+    global.fetch = jest.fn().mockImplementation(async () => new Response(JSON.stringify({}), { status: 200, headers: { etag: '"x"' } })) as any;
+    const store = new MemoryHttpCacheStore();
+    const cachingClient = new HttpClient({ cache: store });
+
+    await cachingClient.post('/repos', { name: 'r' });
+
+    expect(await store.size()).toBe(0);
+    expect(await new HttpClient().getCacheStatus()).toEqual({ enabled: false, size: 0, hits: 0, misses: 0 });
+  });
+
+  it('should keep serving requests when the store fails', async () => {
+    global.fetch = jest.fn().mockImplementation(async () => new Response(JSON.stringify({ ok: true }), { status: 200, headers: { etag: '"x"' } })) as any;
+    const failing = new MemoryHttpCacheStore();
+    failing.get = jest.fn().mockRejectedValue(new Error('quota'));
+    failing.set = jest.fn().mockRejectedValue(new Error('quota'));
+
+    await expect(new HttpClient({ cache: failing }).get('/resource')).resolves.toEqual({ ok: true });
+  });
+});
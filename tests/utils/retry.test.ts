@@ -0,0 +1,178 @@
+/**
+ * Tests for HTTP retry policies and client-side throttling
+ */
+
+import { ExponentialBackoffRetryPolicy } from '../../src/utils/retry';
+import { HttpClient, GitHubApiError } from '../../src/utils/http';
+import { RateLimitingService } from '../../src/security/RateLimitingService';
+
+function mockResponse(status: number, body: any, headers: Record<string, string> = {}): Response {
+  return new Response(body === undefined ? null : JSON.stringify(body), { status, headers });
+}
+
+describe('ExponentialBackoffRetryPolicy', () => {
+  it('should back off exponentially on 5xx and network errors without jitter', () => {
+    const policy = new ExponentialBackoffRetryPolicy({ baseDelayMs: 100, jitter: false, maxRetries: 3 });
+
+    expect(policy.getRetryDelay(0, { method: 'GET', status: 502 })).toBe(100);
+    expect(policy.getRetryDelay(1, { method: 'GET', status: 503 })).toBe(200);
+    expect(policy.getRetryDelay(2, { method: 'GET', error: new TypeError('fetch failed') })).toBe(400);
+    expect(policy.getRetryDelay(3, { method: 'GET', status: 502 })).toBeNull();
+  });
+
+  it('should only retry 5xx and network errors of idempotent methods by default', () => {
+    const policy = new ExponentialBackoffRetryPolicy({ baseDelayMs: 100, jitter: false });
+
+    for (const method of ['GET', 'HEAD', 'PUT', 'DELETE']) {
+      expect(policy.getRetryDelay(0, { method, status: 502 })).toBe(100);
+    }
+    for (const method of ['POST', 'PATCH']) {
+      expect(policy.getRetryDelay(0, { method, status: 502 })).toBeNull();
+      expect(policy.getRetryDelay(0, { method, error: new TypeError('fetch failed') })).toBeNull();
+    }
+  });
+
+  it('should retry non-idempotent methods after 5xx and network errors when opted in', () => {
+    const policy = new ExponentialBackoffRetryPolicy({ baseDelayMs: 100, jitter: false, retryNonIdempotent: true });
+
+    expect(policy.getRetryDelay(0, { method: 'POST', status: 503 })).toBe(100);
+    expect(policy.getRetryDelay(1, { method: 'PATCH', error: new TypeError('fetch failed') })).toBe(200);
+  });
+
+  it('should keep jittered delays within the exponential bound', () => {
+    const policy = new ExponentialBackoffRetryPolicy({ baseDelayMs: 100, maxDelayMs: 150 });
+
+    for (let i = 0; i < 20; i++) {
+      const delay = policy.getRetryDelay(2, { method: 'GET', status: 500 }) as number;
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThan(150);
+    }
+  });
+
+  it('should not retry client errors', () => {
+    const policy = new ExponentialBackoffRetryPolicy();
+
+    expect(policy.getRetryDelay(0, { method: 'GET', status: 404 })).toBeNull();
+    expect(policy.getRetryDelay(0, { method: 'GET', status: 403, headers: { 'x-ratelimit-remaining': '12' } })).toBeNull();
+  });
+
+  it('should honour Retry-After on 429 and secondary rate limits', () => {
+    const policy = new ExponentialBackoffRetryPolicy();
+
+    expect(policy.getRetryDelay(0, { method: 'POST', status: 429, headers: { 'retry-after': '2' } })).toBe(2000);
+    expect(policy.getRetryDelay(0, { method: 'POST', status: 403, headers: { 'retry-after': '5' } })).toBe(5000);
+  });
+
+  it('should wait for X-RateLimit-Reset when the primary limit is exhausted', () => {
+    const policy = new ExponentialBackoffRetryPolicy();
+    const reset = Math.floor(Date.now() / 1000) + 10;
+
+    const delay = policy.getRetryDelay(0, {
+      method: 'GET',
+      status: 403,
+      headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(reset) }
+    }) as number;
+
+    expect(delay).toBeGreaterThan(8000);
+    expect(delay).toBeLessThanOrEqual(10000);
+  });
+
+  it('should give up when the rate limit reset is too far away', () => {
+    const policy = new ExponentialBackoffRetryPolicy({ maxRateLimitWaitMs: 1000 });
+    const reset = Math.floor(Date.now() / 1000) + 3600;
+
+    expect(policy.getRetryDelay(0, {
+      method: 'GET',
+      status: 403,
+      headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(reset) }
+    })).toBeNull();
+  });
+});
+
+describe('HttpClient retries', () => {
+  let fetchMock: jest.Mock;
+  let originalFetch: typeof fetch;
+
+  beforeEach(() => {
+    originalFetch = global.fetch;
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as any;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should not retry when no retry policy is configured', async () => {
+    fetchMock.mockImplementation(async () => mockResponse(502, { message: 'Bad Gateway' }));
+    const client = new HttpClient();
+
+    await expect(client.get('/user')).rejects.toBeInstanceOf(GitHubApiError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry transient failures until a response succeeds', async () => {
+    fetchMock
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(mockResponse(502, { message: 'Bad Gateway' }))
+      .mockResolvedValueOnce(mockResponse(429, { message: 'Slow down' }, { 'Retry-After': '0' }))
+      .mockResolvedValueOnce(mockResponse(200, { login: 'octocat' }));
+    const client = new HttpClient({ retry: { baseDelayMs: 1, maxRetries: 3 } });
+
+    await expect(client.get('/user')).resolves.toEqual({ login: 'octocat' });
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('should surface the last error once retries are exhausted', async () => {
+    fetchMock.mockImplementation(async () => mockResponse(503, { message: 'Unavailable' }));
+    const client = new HttpClient({ retry: { baseDelayMs: 1, maxRetries: 2 } });
+
+    const error = await client.get('/user').catch(e => e);
+
+    expect(error).toBeInstanceOf(GitHubApiError);
+    expect(error.status).toBe(503);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not repeat a POST whose outcome is unknown', async () => {
+    fetchMock.mockImplementation(async () => mockResponse(502, { message: 'Bad Gateway' }));
+    const client = new HttpClient({ retry: { baseDelayMs: 1, maxRetries: 3 } });
+
+    await expect(client.post('/user/repos', { name: 'demo' })).rejects.toThrow('HTTP 502');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should repeat a POST that was rejected by a rate limit', async () => {
+    fetchMock
+      .mockResolvedValueOnce(mockResponse(403, { message: 'You have exceeded a secondary rate limit' }, { 'Retry-After': '0' }))
+      .mockResolvedValueOnce(mockResponse(201, { name: 'demo' }));
+    const client = new HttpClient({ retry: { baseDelayMs: 1, maxRetries: 3 } });
+
+    await expect(client.post('/user/repos', { name: 'demo' })).resolves.toEqual({ name: 'demo' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should accept a custom retry strategy', async () => {
+    fetchMock.mockImplementation(async () => mockResponse(409, { message: 'Conflict' }));
+    const getRetryDelay = jest.fn().mockReturnValueOnce(0).mockReturnValue(null);
+    const client = new HttpClient({ retry: { getRetryDelay } });
+
+    await expect(client.get('/user')).rejects.toThrow('HTTP 409');
+    expect(getRetryDelay).toHaveBeenCalledWith(0, expect.objectContaining({ method: 'GET', status: 409 }));
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should acquire a RateLimitingService token before every request', async () => {
+    fetchMock.mockImplementation(async () => mockResponse(200, {}));
+    const throttle = new RateLimitingService(2, 1000);
+    const acquireSpy = jest.spyOn(throttle, 'acquire');
+    const client = new HttpClient({ throttle });
+
+    await client.get('/a');
+    await client.get('/b');
+    await client.get('/c');
+
+    expect(acquireSpy).toHaveBeenCalledTimes(3);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
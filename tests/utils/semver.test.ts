@@ -0,0 +1,66 @@
+/**
+ * Tests for semantic version tag parsing and auto-increment
+ */
+
+import { parseSemver, compareSemver, nextSemverTag } from '../../src/utils/semver';
+
+describe('parseSemver', () => {
+  it('should parse prefixed versions with prerelease and build metadata', () => {
+    expect(parseSemver('v1.2.3')).toEqual({ major: 1, minor: 2, patch: 3 });
+    expect(parseSemver('v1.2.3-beta.1+build.5')).toEqual({ major: 1, minor: 2, patch: 3, prerelease: 'beta.1' });
+    expect(parseSemver('1.2.3', '')).toEqual({ major: 1, minor: 2, patch: 3 });
+  });
+
+  it('should reject tags with another prefix or no version', () => {
+    expect(parseSemver('1.2.3')).toBeNull();
+    expect(parseSemver('release-1.2.3')).toBeNull();
+    expect(parseSemver('latest')).toBeNull();
+  });
+});
+
+describe('compareSemver', () => {
+  it('should order numerically and place prereleases before releases', () => {
+    const sorted = ['v1.10.0', 'v1.2.0', 'v1.2.0-rc.1', 'v0.9.9']
+      .map(tag => parseSemver(tag)!)
+      .sort(compareSemver);
+
+    expect(sorted.map(v => `${v.major}.${v.minor}.${v.patch}${v.prerelease ? '-' + v.prerelease : ''}`))
+      .toEqual(['0.9.9', '1.2.0-rc.1', '1.2.0', '1.10.0']);
+  });
+
+  it('should compare prerelease identifiers numerically when both are numbers', () => {
+    const sorted = ['v1.0.0-rc.10', 'v1.0.0-rc.9', 'v1.0.0-beta', 'v1.0.0-alpha.beta', 'v1.0.0-alpha.1', 'v1.0.0-alpha', 'v1.0.0-beta.11', 'v1.0.0-beta.2']
+      .map(tag => parseSemver(tag)!)
+      .sort(compareSemver);
+
+    expect(sorted.map(v => v.prerelease))
+      .toEqual(['alpha', 'alpha.1', 'alpha.beta', 'beta', 'beta.2', 'beta.11', 'rc.9', 'rc.10']);
+  });
+});
+
+describe('nextSemverTag', () => {
+  it('should bump the highest existing version', () => {
+    const tags = ['v1.2.0', 'v1.10.3', 'nightly', 'v1.9.0'];
+
+    expect(nextSemverTag(tags)).toBe('v1.10.4');
+    expect(nextSemverTag(tags, 'minor')).toBe('v1.11.0');
+    expect(nextSemverTag(tags, 'major')).toBe('v2.0.0');
+  });
+
+  it('should start from 0.0.0 and honour the prefix', () => {
+    expect(nextSemverTag([])).toBe('v0.0.1');
+    expect(nextSemverTag(['v3.0.0'], 'minor', 'release-')).toBe('release-0.1.0');
+  });
+
+  it('should release a pending prerelease on a patch bump', () => {
+    expect(nextSemverTag(['v1.0.0', 'v1.1.0-rc.2'])).toBe('v1.1.0');
+  });
+
+  it('should release a pending prerelease when it is the requested bump', () => {
+    expect(nextSemverTag(['v1.9.0', 'v2.0.0-rc.1'], 'major')).toBe('v2.0.0');
+    expect(nextSemverTag(['v1.0.0', 'v1.1.0-rc.2'], 'minor')).toBe('v1.1.0');
+    expect(nextSemverTag(['v1.1.0-rc.2'], 'major')).toBe('v2.0.0');
+    expect(nextSemverTag(['v1.1.1-rc.2'], 'minor')).toBe('v1.2.0');
+    expect(nextSemverTag(['v2.0.0-rc.9', 'v2.0.0-rc.10'], 'major')).toBe('v2.0.0');
+  });
+});
@@ -0,0 +1,177 @@
+import archiver from 'archiver';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import { ArchiveManifestService } from '../../../src/utils/zip/ArchiveManifestService';
+import { ZipExtractionService } from '../../../src/utils/zip/ZipExtractionService';
+import { MessageAuthenticationService } from '../../../src/security/MessageAuthenticationService';
+import { computeBlobSha } from '../../../src/github/git/blobSha';
+import { crc32 } from '../../../src/utils/crc32';
+import { ArchiveManifest, ZipExtractionError } from '../../../src/types/zip';
+
+// Generous enough that the test process's own heap never trips the memory monitor
+const MEMORY_LIMIT = 4 * 1024 * 1024 * 1024;
+
+const files: Record<string, { content: string; mode: number }> = {
+  'index.html': { content: '<h1>Hi</h1>', mode: 0o644 },
+  'bin/build.sh': { content: '#!/bin/sh\necho build\n', mode: 0o755 }
+};
+
+// Build a real ZIP archive in memory; stored entries keep their content visible for corruption
+const createZip = async (store = false): Promise<Buffer> => {
+  const archive = archiver('zip', { store });
+  const chunks: Buffer[] = [];
+  archive.on('data', chunk => chunks.push(chunk));
+  const done = new Promise(resolve => archive.on('end', resolve));
+
+  for (const [name, file] of Object.entries(files)) {
+    archive.append(file.content, { name, mode: file.mode });
+  }
+  await archive.finalize();
+  await done;
+  return Buffer.concat(chunks);
+};
+
+const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+
+const rejectionCode = async (promise: Promise<unknown>): Promise<string | undefined> => {
+  try {
+    await promise;
+  } catch (error) {
+    return error instanceof ZipExtractionError ? error.code : `not a ZipExtractionError: ${error}`;
+  }
+  return undefined;
+};
+
+describe('ArchiveManifestService', () => {
+  let workDir: string;
+  let zipFilePath: string;
+  let manifests: ArchiveManifestService;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'archive-manifest-'));
+    zipFilePath = path.join(workDir, 'upload.zip');
+    await fs.writeFile(zipFilePath, await createZip());
+
+    const authenticationService = new MessageAuthenticationService();
+    authenticationService.setSecretKey('manifest-secret');
+    manifests = new ArchiveManifestService(authenticationService);
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it.each([false, true])('should hash every extracted file into the manifest (streaming: %s)', async (useStreaming) => {
+    const result = await ZipExtractionService.extract(zipFilePath, path.join(workDir, 'out'), {
+      manifest: true,
+      useStreaming,
+      maxMemoryUsage: MEMORY_LIMIT
+    });
+    const manifest = result.manifest!;
+
+    expect(manifest.version).toBe(1);
+    expect(manifest.archiveSha256).toBe(sha256(await fs.readFile(zipFilePath)));
+    expect(manifest.entries).toEqual([
+      {
+        path: 'bin/build.sh',
+        size: files['bin/build.sh'].content.length,
+        mode: 0o755,
+        crc32: crc32(Buffer.from(files['bin/build.sh'].content)).toString(16).padStart(8, '0'),
+        sha256: sha256(files['bin/build.sh'].content),
+        gitBlobSha: computeBlobSha(files['bin/build.sh'].content)
+      },
+      expect.objectContaining({ path: 'index.html', mode: 0o644, gitBlobSha: computeBlobSha('<h1>Hi</h1>') })
+    ]);
+  });
+
+  it('should not return a manifest unless asked to', async () => {
+    const result = await ZipExtractionService.extract(zipFilePath, path.join(workDir, 'out'));
+
+    expect(result.manifest).toBeUndefined();
+  });
+
+  it('should refuse entries whose CRC-32 does not match', async () => {
+    const corrupted = await createZip(true);
+    const offset = corrupted.indexOf('echo build');
+    corrupted[offset] = 'E'.charCodeAt(0);
+    await fs.writeFile(zipFilePath, corrupted);
+
+    expect(await rejectionCode(ZipExtractionService.extract(zipFilePath, path.join(workDir, 'out')))).toBe('CORRUPTED_ZIP_FILE');
+    await expect(fs.stat(path.join(workDir, 'out/bin/build.sh'))).rejects.toThrow();
+    expect(await rejectionCode(ZipExtractionService.extractStreaming(zipFilePath, path.join(workDir, 'streamed'), { maxMemoryUsage: MEMORY_LIMIT })))
+      .toBe('CORRUPTED_ZIP_FILE');
+  });
+
+  it('should sign manifests and detect any change to them', async () => {
+    const { manifest } = await ZipExtractionService.extract(zipFilePath, path.join(workDir, 'out'), { manifest: true });
+    const signed = manifests.sign(manifest!);
+
+    expect(signed.signature).toMatch(/^[0-9a-f]{64}$/);
+    expect(manifests.verifySignature(signed)).toBe(true);
+    expect(manifests.verifySignature(JSON.parse(JSON.stringify(signed)))).toBe(true);
+    expect(manifests.verifySignature(manifest!)).toBe(false);
+
+    const tampered: ArchiveManifest = { ...signed, entries: signed.entries.map(entry => ({ ...entry, sha256: sha256('other') })) };
+    expect(manifests.verifySignature(tampered)).toBe(false);
+  });
+
+  it('should verify an extraction directory against a signed manifest', async () => {
+    const destination = path.join(workDir, 'out');
+    const signed = manifests.sign((await ZipExtractionService.extract(zipFilePath, destination, { manifest: true })).manifest!);
+
+    expect(await manifests.verifyDirectory(signed, destination)).toEqual({
+      signatureValid: true,
+      matched: ['bin/build.sh', 'index.html'],
+      missing: [],
+      modified: [],
+      unexpected: [],
+      valid: true
+    });
+
+    await fs.writeFile(path.join(destination, 'index.html'), '<h1>Changed</h1>');
+    await fs.rm(path.join(destination, 'bin/build.sh'));
+    await fs.writeFile(path.join(destination, 'extra.txt'), 'extra');
+
+    expect(await manifests.verifyDirectory(signed, destination)).toEqual(expect.objectContaining({
+      matched: [],
+      missing: ['bin/build.sh'],
+      modified: ['index.html'],
+      unexpected: ['extra.txt'],
+      valid: false
+    }));
+  });
+
+  it('should leave sidecar files out and report symbolic links', async () => {
+    const destination = path.join(workDir, 'out');
+    const signed = manifests.sign((await ZipExtractionService.extract(zipFilePath, destination, { manifest: true })).manifest!);
+    await fs.writeFile(path.join(destination, 'upload.zip.checkpoint'), '{}\n');
+    await fs.writeFile(path.join(destination, 'manifest.json'), JSON.stringify(signed));
+
+    expect((await manifests.verifyDirectory(signed, destination)).unexpected).toEqual(['manifest.json', 'upload.zip.checkpoint']);
+    expect(await manifests.verifyDirectory(signed, destination, {
+      exclude: [path.join(destination, 'upload.zip.checkpoint'), 'manifest.json']
+    })).toEqual(expect.objectContaining({ unexpected: [], valid: true }));
+
+    await fs.rm(path.join(destination, 'index.html'));
+    await fs.symlink(path.join(workDir, 'upload.zip'), path.join(destination, 'index.html'));
+    await fs.symlink('/etc/passwd', path.join(destination, 'passwd'));
+
+    expect(await manifests.verifyDirectory(signed, destination, { exclude: ['upload.zip.checkpoint', 'manifest.json'] }))
+      .toEqual(expect.objectContaining({ modified: ['index.html'], unexpected: ['passwd'], valid: false }));
+  });
+
+  it('should verify an exported tree by git blob SHA', async () => {
+    const signed = manifests.sign((await ZipExtractionService.extract(zipFilePath, path.join(workDir, 'out'), { manifest: true })).manifest!);
+    const tree = [
+      { path: 'README.md', mode: '100644' as const, type: 'blob' as const, sha: computeBlobSha('readme') },
+      { path: 'site', mode: '040000' as const, type: 'tree' as const, sha: 'a'.repeat(40) },
+      { path: 'site/index.html', mode: '100644' as const, type: 'blob' as const, sha: computeBlobSha('<h1>Hi</h1>') },
+      { path: 'site/bin/build.sh', mode: '100755' as const, type: 'blob' as const, sha: computeBlobSha(files['bin/build.sh'].content) }
+    ];
+
+    expect(manifests.verifyTree(signed, tree, 'site/').valid).toBe(true);
+    expect(manifests.verifyTree(signed, tree).unexpected).toEqual(['README.md', 'site/bin/build.sh', 'site/index.html']);
+  });
+});
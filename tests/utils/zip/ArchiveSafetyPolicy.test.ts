@@ -0,0 +1,143 @@
+import archiver from 'archiver';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ArchiveSafetyPolicy } from '../../../src/utils/zip/ArchiveSafetyPolicy';
+import { ZipExtractionService } from '../../../src/utils/zip/ZipExtractionService';
+import { StreamingZipExtractor } from '../../../src/utils/zip/StreamingZipExtractor';
+import { OptimizedZipProcessor } from '../../../src/utils/zip/OptimizedZipProcessor';
+import { ZipExtractionError } from '../../../src/types/zip';
+
+// Generous enough that the test process's own heap never trips the memory monitor
+const MEMORY_LIMIT = 4 * 1024 * 1024 * 1024;
+
+type ArchiveItem = { name: string; content?: string | Buffer; symlinkTarget?: string };
+
+// Build a real ZIP archive in memory
+const createZip = async (items: ArchiveItem[]): Promise<Buffer> => {
+  const archive = archiver('zip');
+  const chunks: Buffer[] = [];
+  archive.on('data', chunk => chunks.push(chunk));
+  const done = new Promise(resolve => archive.on('end', resolve));
+
+  for (const item of items) {
+    if (item.symlinkTarget !== undefined) {
+      archive.symlink(item.name, item.symlinkTarget);
+    } else {
+      archive.append(item.content ?? '', { name: item.name });
+    }
+  }
+  await archive.finalize();
+  await done;
+  return Buffer.concat(chunks);
+};
+
+const rejectionCode = async (promise: Promise<unknown>): Promise<string | undefined> => {
+  try {
+    await promise;
+  } catch (error) {
+    return error instanceof ZipExtractionError ? error.code : `not a ZipExtractionError: ${error}`;
+  }
+  return undefined;
+};
+
+describe('ArchiveSafetyPolicy', () => {
+  it('should reject parent directory segments and absolute paths', () => {
+    const unsafe = ['../evil.sh', 'src/../../evil.sh', '..\\evil.bat', '/etc/passwd', '\\windows\\win.ini', 'C:/evil', 'a\0b', ''];
+    for (const name of unsafe) {
+      expect(ArchiveSafetyPolicy.isSafePath(name)).toBe(false);
+    }
+
+    expect(ArchiveSafetyPolicy.isSafePath('src/index.ts')).toBe(true);
+    expect(ArchiveSafetyPolicy.isSafePath('docs/..notes.md')).toBe(true);
+    expect(() => new ArchiveSafetyPolicy().checkEntry({ name: '../evil.sh', size: 1 }))
+      .toThrow(expect.objectContaining({ code: 'UNSAFE_PATH' }));
+  });
+
+  it('should detect symbolic links from the Unix mode bits', () => {
+    const link = { name: 'link', size: 6, mode: 0o120777 };
+
+    expect(ArchiveSafetyPolicy.isSymlink(link)).toBe(true);
+    expect(ArchiveSafetyPolicy.isSymlink({ name: 'file', size: 6, mode: 0o100644 })).toBe(false);
+    expect(ArchiveSafetyPolicy.isSymlink({ name: 'file', size: 6 })).toBe(false);
+    expect(() => new ArchiveSafetyPolicy().checkEntry(link)).toThrow(expect.objectContaining({ code: 'SYMLINK_NOT_ALLOWED' }));
+    expect(new ArchiveSafetyPolicy({ symlinks: 'skip' }).checkEntry(link)).toBe(false);
+  });
+
+  it('should limit the number of entries', () => {
+    const policy = new ArchiveSafetyPolicy({ maxEntries: 2 });
+
+    expect(() => policy.checkEntryCount(3)).toThrow(expect.objectContaining({ code: 'TOO_MANY_ENTRIES' }));
+    policy.checkEntry({ name: 'a', size: 1 });
+    policy.checkEntry({ name: 'b', size: 1 });
+    expect(() => policy.checkEntry({ name: 'c', size: 1 })).toThrow(expect.objectContaining({ code: 'TOO_MANY_ENTRIES' }));
+  });
+
+  it('should limit the total uncompressed size across entries', () => {
+    const policy = new ArchiveSafetyPolicy({ maxTotalSize: 100 });
+
+    policy.checkEntry({ name: 'a', size: 60 });
+    expect(() => policy.checkEntry({ name: 'b', size: 60 })).toThrow(expect.objectContaining({ code: 'TOTAL_SIZE_EXCEEDED' }));
+  });
+
+  it('should limit the compression ratio of large entries only', () => {
+    const policy = new ArchiveSafetyPolicy({ maxCompressionRatio: 100 });
+
+    expect(policy.checkEntry({ name: 'small.txt', size: 64 * 1024, compressedSize: 20 })).toBe(true);
+    expect(() => policy.checkEntry({ name: 'bomb.bin', size: 10 * 1024 * 1024, compressedSize: 10 * 1024 }))
+      .toThrow(expect.objectContaining({ code: 'COMPRESSION_RATIO_EXCEEDED' }));
+  });
+
+  describe('extractors', () => {
+    let workDir: string;
+
+    beforeEach(async () => {
+      workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'archive-safety-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(workDir, { recursive: true, force: true });
+    });
+
+    const writeZip = async (items: ArchiveItem[]): Promise<string> => {
+      const zipFilePath = path.join(workDir, 'upload.zip');
+      await fs.writeFile(zipFilePath, await createZip(items));
+      return zipFilePath;
+    };
+
+    it('should refuse symbolic links in ZipExtractionService unless they are skipped', async () => {
+      const zipFilePath = await writeZip([
+        { name: 'index.html', content: '<h1>Hi</h1>' },
+        { name: 'secrets', symlinkTarget: '/etc/passwd' }
+      ]);
+
+      expect(await rejectionCode(ZipExtractionService.extract(zipFilePath, path.join(workDir, 'out')))).toBe('SYMLINK_NOT_ALLOWED');
+
+      const result = await ZipExtractionService.extract(zipFilePath, path.join(workDir, 'skipped'), { safety: { symlinks: 'skip' } });
+      expect(result.entries.map(entry => entry.name)).toEqual(['index.html']);
+      expect(result.warnings).toEqual(['Symbolic link secrets was skipped']);
+    });
+
+    it('should keep the violation code through streaming extraction', async () => {
+      const zipFilePath = await writeZip([{ name: 'zeros.bin', content: Buffer.alloc(2 * 1024 * 1024) }]);
+
+      expect(await rejectionCode(ZipExtractionService.extractStreaming(zipFilePath, path.join(workDir, 'out'), { maxMemoryUsage: MEMORY_LIMIT })))
+        .toBe('COMPRESSION_RATIO_EXCEEDED');
+    });
+
+    it('should refuse zip bombs in StreamingZipExtractor before inflating them', async () => {
+      const buffer = await createZip([{ name: 'zeros.bin', content: Buffer.alloc(2 * 1024 * 1024) }]);
+      const onEntry = jest.fn();
+
+      expect(await rejectionCode(new StreamingZipExtractor(MEMORY_LIMIT).processEntriesStream(buffer, onEntry))).toBe('COMPRESSION_RATIO_EXCEEDED');
+      expect(onEntry).not.toHaveBeenCalled();
+    });
+
+    it('should limit entries in OptimizedZipProcessor', async () => {
+      const zipFilePath = await writeZip([{ name: 'a.txt', content: 'a' }, { name: 'b.txt', content: 'b' }]);
+
+      expect(await rejectionCode(new OptimizedZipProcessor(MEMORY_LIMIT).extract(zipFilePath, path.join(workDir, 'out'), { safety: { maxEntries: 1 } })))
+        .toBe('TOO_MANY_ENTRIES');
+    });
+  });
+});
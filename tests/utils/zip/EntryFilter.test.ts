@@ -207,4 +207,24 @@ describe('EntryFilter', () => {
     expect(customFilter).toHaveBeenCalledWith(entry);
     expect(result).toBe(false);
   });
-});
\ No newline at end of file
+
+  it('should route large entries according to the large file policy', () => {
+    filter = new EntryFilter({ largeFiles: { action: 'lfs', threshold: 1000 } });
+    const model = createMockStreamEntry('models/weights.bin', 5000);
+    const source = createMockStreamEntry('src/index.ts', 200);
+
+    expect(filter.matches(model)).toBe(true);
+    expect(filter.getLargeFileRoute(model)).toBe('lfs');
+    expect(filter.getLargeFileRoute(source)).toBeNull();
+    expect(filter.hasCriteria()).toBe(true);
+  });
+
+  it('should exclude large entries with a reason when the policy excludes them', () => {
+    filter.setLargeFilePolicy({ action: 'exclude', threshold: 1000 });
+    const video = createMockStreamEntry('public/intro.mp4', 5000);
+
+    expect(filter.matches(video)).toBe(false);
+    expect(filter.getLargeFileReason(video)).toBe('File size 5000 bytes is above large file threshold 1000 bytes');
+    expect(filter.getLargeFileRoute(video)).toBeNull();
+  });
+});
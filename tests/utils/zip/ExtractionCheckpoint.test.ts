@@ -0,0 +1,162 @@
+import archiver from 'archiver';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createWriteStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import { StreamingZipExtractor } from '../../../src/utils/zip/StreamingZipExtractor';
+import { ExtractionCheckpoint } from '../../../src/utils/zip/ExtractionCheckpoint';
+import { ProgressTracker } from '../../../src/utils/zip/ProgressTracker';
+import { StreamEntry, StreamProgress } from '../../../src/types/streaming';
+
+// Generous enough that the test process's own heap never trips the memory monitor
+const MEMORY_LIMIT = 4 * 1024 * 1024 * 1024;
+
+const names = ['a.txt', 'b.txt', 'c.txt', 'd.txt', 'e.txt'];
+
+// Build a real ZIP archive in memory
+const createZip = async (suffix = ''): Promise<Buffer> => {
+  const archive = archiver('zip');
+  const chunks: Buffer[] = [];
+  archive.on('data', chunk => chunks.push(chunk));
+  const done = new Promise(resolve => archive.on('end', resolve));
+
+  for (const name of names) {
+    archive.append(`content of ${name}${suffix}`.repeat(100), { name });
+  }
+  await archive.finalize();
+  await done;
+  return Buffer.concat(chunks);
+};
+
+describe('ExtractionCheckpoint', () => {
+  let workDir: string;
+  let checkpointPath: string;
+  let buffer: Buffer;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'extraction-checkpoint-'));
+    checkpointPath = path.join(workDir, 'upload.zip.checkpoint');
+    buffer = await createZip();
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  // Write each entry to disk, failing once the given entry is reached
+  const extractTo = (processed: string[], failAt?: string) => async (entry: StreamEntry): Promise<void> => {
+    if (entry.name === failAt) {
+      entry.stream.resume();
+      throw new Error('Memory limit exceeded during processing');
+    }
+    await pipeline(entry.stream, createWriteStream(path.join(workDir, entry.name)));
+    processed.push(entry.name);
+  };
+
+  const interruptAt = async (failAt: string): Promise<string[]> => {
+    const processed: string[] = [];
+    await expect(new StreamingZipExtractor(MEMORY_LIMIT).processEntriesStream(buffer, extractTo(processed, failAt), { checkpointPath }))
+      .rejects.toThrow('Memory limit exceeded during processing');
+    return processed;
+  };
+
+  it('should record completed entries and bytes written in the sidecar file', async () => {
+    expect(await interruptAt('c.txt')).toEqual(['a.txt', 'b.txt']);
+
+    const lines = (await fs.readFile(checkpointPath, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+    const size = 'content of a.txt'.length * 100;
+    expect(lines[0]).toEqual(expect.objectContaining({ version: 1, archiveSha256: expect.stringMatching(/^[0-9a-f]{64}$/) }));
+    expect(lines.slice(1)).toEqual([
+      expect.objectContaining({ name: 'a.txt', size, bytesWritten: size, sha256: expect.stringMatching(/^[0-9a-f]{64}$/) }),
+      expect.objectContaining({ name: 'b.txt', size, bytesWritten: 2 * size })
+    ]);
+  });
+
+  it('should resume after the last completed entry and report resumed progress', async () => {
+    await interruptAt('c.txt');
+    const processed: string[] = [];
+    const progress: StreamProgress[] = [];
+
+    await new StreamingZipExtractor(MEMORY_LIMIT).processEntriesStream(buffer, extractTo(processed), {
+      checkpointPath,
+      resume: true,
+      outputDirectory: workDir,
+      onProgress: update => progress.push(update)
+    });
+
+    expect(processed).toEqual(['c.txt', 'd.txt', 'e.txt']);
+    expect(progress.map(update => [update.processed, update.resumed])).toEqual([[1, 1], [2, 2], [3, 2], [4, 2], [5, 2]]);
+    expect(progress[4].percentage).toBe(100);
+    await expect(fs.stat(checkpointPath)).rejects.toThrow();
+  });
+
+  it('should redo completed entries whose output no longer matches', async () => {
+    await interruptAt('d.txt');
+    await fs.writeFile(path.join(workDir, 'b.txt'), 'edited');
+    const processed: string[] = [];
+
+    await new StreamingZipExtractor(MEMORY_LIMIT).processEntriesStream(buffer, extractTo(processed), {
+      checkpointPath,
+      resume: true,
+      outputDirectory: workDir
+    });
+
+    expect(processed).toEqual(['b.txt', 'd.txt', 'e.txt']);
+    expect(await fs.readFile(path.join(workDir, 'b.txt'), 'utf8')).toBe('content of b.txt'.repeat(100));
+  });
+
+  it('should only resume when completed entries can be checked', async () => {
+    await interruptAt('c.txt');
+    const processed: string[] = [];
+
+    await expect(new StreamingZipExtractor(MEMORY_LIMIT).processEntriesStream(buffer, extractTo(processed), { checkpointPath, resume: true }))
+      .rejects.toThrow('Resuming an extraction needs outputDirectory or verifyCompleted');
+    expect(processed).toEqual([]);
+
+    const verifyCompleted = jest.fn().mockResolvedValue(false);
+    await new StreamingZipExtractor(MEMORY_LIMIT).processEntriesStream(buffer, extractTo(processed), {
+      checkpointPath,
+      resume: true,
+      outputDirectory: workDir,
+      verifyCompleted
+    });
+    expect(verifyCompleted.mock.calls.map(([entry]) => entry.name)).toEqual(['a.txt', 'b.txt']);
+    expect(processed).toEqual(names);
+  });
+
+  it('should start afresh for another archive or without resume', async () => {
+    await interruptAt('c.txt');
+    const processed: string[] = [];
+
+    buffer = await createZip(' v2');
+    await new StreamingZipExtractor(MEMORY_LIMIT).processEntriesStream(buffer, extractTo(processed), { checkpointPath, resume: true, outputDirectory: workDir });
+    expect(processed).toEqual(names);
+
+    await interruptAt('c.txt');
+    processed.length = 0;
+    await new StreamingZipExtractor(MEMORY_LIMIT).processEntriesStream(buffer, extractTo(processed), { checkpointPath });
+    expect(processed).toEqual(names);
+  });
+
+  it('should ignore a partial line left by an interrupted write', async () => {
+    await interruptAt('c.txt');
+    await fs.appendFile(checkpointPath, '{"name":"c.txt","si');
+
+    const checkpoint = await ExtractionCheckpoint.open(checkpointPath, JSON.parse((await fs.readFile(checkpointPath, 'utf8')).split('\n')[0]).archiveSha256, true);
+    expect(checkpoint.completedCount).toBe(2);
+    await checkpoint.record({ name: 'c.txt', size: 1, crc32: '00000000', sha256: 'x' });
+
+    const lines = (await fs.readFile(checkpointPath, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+    expect(lines.map(line => line.name)).toEqual([undefined, 'a.txt', 'b.txt', 'c.txt']);
+    expect(checkpoint.bytesWritten).toBe(lines[3].bytesWritten);
+  });
+
+  it('should leave resumed entries out of the processing rate', () => {
+    const tracker = new ProgressTracker(10);
+
+    tracker.update(4, 4);
+    expect(tracker.getEstimatedTimeRemaining()).toBe(Infinity);
+    expect(tracker.getProgress()).toEqual(expect.objectContaining({ processed: 4, resumed: 4, percentage: 40, rate: 0 }));
+  });
+});
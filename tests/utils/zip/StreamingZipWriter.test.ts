@@ -0,0 +1,133 @@
+import { Readable } from 'stream';
+import yauzl, { Entry } from 'yauzl';
+import { StreamingZipWriter } from '../../../src/utils/zip/StreamingZipWriter';
+import { StreamEntry } from '../../../src/types/streaming';
+import { crc32 } from '../../../src/utils/crc32';
+
+interface ReadEntry {
+  entry: Entry;
+  content: Buffer;
+}
+
+// Read an archive back with yauzl, which validates CRCs and sizes
+const readZip = (buffer: Buffer): Promise<Map<string, ReadEntry>> => new Promise((resolve, reject) => {
+  yauzl.fromBuffer(buffer, { lazyEntries: true }, (err, zipFile) => {
+    if (err || !zipFile) {
+      return reject(err);
+    }
+    const entries = new Map<string, ReadEntry>();
+    zipFile.on('entry', (entry: Entry) => {
+      if (entry.fileName.endsWith('/')) {
+        entries.set(entry.fileName, { entry, content: Buffer.alloc(0) });
+        return zipFile.readEntry();
+      }
+      zipFile.openReadStream(entry, (streamErr, stream) => {
+        if (streamErr || !stream) {
+          return reject(streamErr);
+        }
+        const chunks: Buffer[] = [];
+        stream.on('data', chunk => chunks.push(chunk));
+        stream.on('error', reject);
+        stream.on('end', () => {
+          entries.set(entry.fileName, { entry, content: Buffer.concat(chunks) });
+          zipFile.readEntry();
+        });
+      });
+    });
+    zipFile.on('end', () => resolve(entries));
+    zipFile.on('error', reject);
+    zipFile.readEntry();
+  });
+});
+
+const unixMode = (entry: Entry) => (entry.externalFileAttributes >>> 16) & 0o7777;
+
+describe('StreamingZipWriter', () => {
+  const lastModified = new Date(2024, 4, 17, 9, 30, 12);
+
+  it('should compute standard CRC-32 checksums, also in chunks', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    expect(crc32(Buffer.from('6789'), crc32(Buffer.from('12345')))).toBe(0xcbf43926);
+  });
+
+  it('should archive a project file map', async () => {
+    const logo = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]);
+    const writer = new StreamingZipWriter({ lastModified });
+
+    const archive = await writer.toBuffer({
+      'index.html': '<h1>Hi</h1>',
+      'src/app.js': { content: 'run();', encoding: 'utf-8' },
+      'bin/build.sh': { content: 'IyEvYmluL3No', encoding: 'base64', mode: '100755' },
+      'assets/logo.png': logo,
+      'empty.txt': ''
+    });
+    const entries = await readZip(archive);
+
+    expect([...entries.keys()]).toEqual(['index.html', 'src/app.js', 'bin/build.sh', 'assets/logo.png', 'empty.txt']);
+    expect(entries.get('index.html')!.content.toString()).toBe('<h1>Hi</h1>');
+    expect(entries.get('bin/build.sh')!.content.toString()).toBe('#!/bin/sh');
+    expect(entries.get('assets/logo.png')!.content).toEqual(logo);
+    expect(entries.get('empty.txt')!.content.length).toBe(0);
+    expect(unixMode(entries.get('bin/build.sh')!.entry)).toBe(0o755);
+    expect(unixMode(entries.get('index.html')!.entry)).toBe(0o644);
+    expect(entries.get('index.html')!.entry.getLastModDate().getTime()).toBe(new Date(2024, 4, 17, 9, 30, 12).getTime());
+  });
+
+  it('should deflate or store per entry', async () => {
+    const text = 'const answer = 42;\n'.repeat(500);
+    const writer = new StreamingZipWriter({
+      compression: entry => entry.name.endsWith('.png') ? 'store' : 'deflate'
+    });
+
+    const entries = await readZip(await writer.toBuffer({ 'big.js': text, 'image.png': text }));
+
+    expect(entries.get('big.js')!.entry.compressionMethod).toBe(8);
+    expect(entries.get('big.js')!.entry.compressedSize).toBeLessThan(text.length / 10);
+    expect(entries.get('image.png')!.entry.compressionMethod).toBe(0);
+    expect(entries.get('image.png')!.entry.compressedSize).toBe(text.length);
+    expect(entries.get('image.png')!.content.toString()).toBe(text);
+  });
+
+  it('should stream entries from an async iterable, keeping directories, timestamps and modes', async () => {
+    async function* entries(): AsyncGenerator<StreamEntry> {
+      yield { name: 'scripts', size: 0, isDirectory: true, stream: Readable.from([]), mode: 0o700, lastModified };
+      yield {
+        name: 'scripts/deploy.sh',
+        size: 12,
+        isDirectory: false,
+        stream: Readable.from([Buffer.from('echo '), Buffer.from('deploy\n')]),
+        mode: 0o750,
+        lastModified
+      };
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of new StreamingZipWriter().createArchive(entries())) {
+      chunks.push(chunk);
+    }
+    const read = await readZip(Buffer.concat(chunks));
+
+    expect(read.get('scripts/')!.entry.externalFileAttributes >>> 16).toBe(0o040700);
+    expect(unixMode(read.get('scripts/deploy.sh')!.entry)).toBe(0o750);
+    expect(read.get('scripts/deploy.sh')!.content.toString()).toBe('echo deploy\n');
+    expect(read.get('scripts/deploy.sh')!.entry.getLastModDate().getTime()).toBe(lastModified.getTime());
+  });
+
+  it('should refuse names that escape the archive and duplicates', async () => {
+    const writer = new StreamingZipWriter();
+
+    await expect(writer.toBuffer({ '../evil.sh': 'x' })).rejects.toThrow('Entry name "../evil.sh" is not a relative path inside the archive');
+    await expect(writer.toBuffer({ 'a.txt': 'a', './a.txt': 'b' })).rejects.toThrow('Duplicate archive entry a.txt');
+  });
+
+  it('should fail the archive when an entry stream fails', async () => {
+    const failing = new Readable({
+      read() {
+        this.destroy(new Error('Tab closed'));
+      }
+    });
+
+    await expect(new StreamingZipWriter().toBuffer([{ name: 'a.txt', size: 1, isDirectory: false, stream: failing }]))
+      .rejects.toThrow('Tab closed');
+  });
+});
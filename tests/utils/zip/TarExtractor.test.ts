@@ -0,0 +1,161 @@
+import archiver from 'archiver';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { TarExtractor } from '../../../src/utils/zip/TarExtractor';
+import { detectArchiveType } from '../../../src/utils/zip/ArchiveType';
+import { ZipExtractionService } from '../../../src/utils/zip/ZipExtractionService';
+import { StreamEntry } from '../../../src/types/streaming';
+import { ZipExtractionError } from '../../../src/types/zip';
+
+// Generous enough that the test process's own heap never trips the memory monitor
+const MEMORY_LIMIT = 4 * 1024 * 1024 * 1024;
+
+type ArchiveItem = { name: string; content?: string | Buffer; mode?: number; symlinkTarget?: string };
+
+const lastModified = new Date('2024-05-17T09:30:12Z');
+
+// Build a real tar or tar.gz archive in memory
+const createTar = async (items: ArchiveItem[], gzip = false): Promise<Buffer> => {
+  const archive = archiver('tar', { gzip });
+  const chunks: Buffer[] = [];
+  archive.on('data', chunk => chunks.push(chunk));
+  const done = new Promise(resolve => archive.on('end', resolve));
+
+  for (const item of items) {
+    if (item.symlinkTarget !== undefined) {
+      archive.symlink(item.name, item.symlinkTarget);
+    } else {
+      archive.append(item.content ?? '', { name: item.name, mode: item.mode, date: lastModified });
+    }
+  }
+  await archive.finalize();
+  await done;
+  return Buffer.concat(chunks);
+};
+
+// Archivers normalise names, so unsafe ones need a hand-written ustar header
+const tarHeader = (name: string, content: string): Buffer => {
+  const header = Buffer.alloc(512);
+  header.write(name, 0);
+  header.write('0000644\0', 100);
+  header.write(`${content.length.toString(8).padStart(11, '0')}\0`, 124);
+  header.write('00000000000\0', 136);
+  header.write('0', 156);
+  header.write('ustar\u000000', 257);
+  header.fill(' ', 148, 156);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148);
+  const data = Buffer.alloc(Math.ceil(content.length / 512) * 512);
+  data.write(content);
+  return Buffer.concat([header, data, Buffer.alloc(1024)]);
+};
+
+const readStream = async (entry: StreamEntry): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of entry.stream) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString();
+};
+
+const rejectionCode = async (promise: Promise<unknown>): Promise<string | undefined> => {
+  try {
+    await promise;
+  } catch (error) {
+    return error instanceof ZipExtractionError ? error.code : `not a ZipExtractionError: ${error}`;
+  }
+  return undefined;
+};
+
+describe('TarExtractor', () => {
+  const longName = `${'nested/'.repeat(20)}file.txt`;
+
+  it('should detect archive types from magic bytes', async () => {
+    expect(detectArchiveType(Buffer.from('PK\x03\x04rest', 'latin1'))).toBe('zip');
+    expect(detectArchiveType(await createTar([{ name: 'a.txt', content: 'a' }]))).toBe('tar');
+    expect(detectArchiveType(await createTar([{ name: 'a.txt', content: 'a' }], true))).toBe('tar.gz');
+    expect(detectArchiveType(Buffer.from('{"not": "an archive"}'))).toBe('unknown');
+  });
+
+  it.each([false, true])('should emit stream entries with modes and timestamps (gzip: %s)', async (gzip) => {
+    const buffer = await createTar([
+      { name: 'src/', mode: 0o755 },
+      { name: 'src/index.js', content: 'run();' },
+      { name: 'bin/build.sh', content: '#!/bin/sh', mode: 0o755 },
+      { name: longName, content: 'deep' }
+    ], gzip);
+    const onProgress = jest.fn();
+
+    const entries = await new TarExtractor(MEMORY_LIMIT).extractStreams(buffer, { onProgress });
+
+    expect(entries.map(entry => entry.name)).toEqual(['src/', 'src/index.js', 'bin/build.sh', longName]);
+    expect(entries[0].isDirectory).toBe(true);
+    expect(await readStream(entries[1])).toBe('run();');
+    expect(await readStream(entries[3])).toBe('deep');
+    expect(entries[2].mode).toBe(0o755);
+    expect(entries[2].size).toBe(9);
+    expect(entries[1].lastModified).toEqual(lastModified);
+    expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ processed: 4, total: 4, percentage: 100 }));
+  });
+
+  it('should apply the archive safety policy', async () => {
+    const links = await createTar([{ name: 'index.html', content: 'x' }, { name: 'secrets', symlinkTarget: '/etc/passwd' }]);
+    const extractor = new TarExtractor(MEMORY_LIMIT);
+
+    expect(await rejectionCode(extractor.extractStreams(links))).toBe('SYMLINK_NOT_ALLOWED');
+    expect((await extractor.extractStreams(links, { safety: { symlinks: 'skip' } })).map(entry => entry.name)).toEqual(['index.html']);
+    expect(await rejectionCode(extractor.extractStreams(tarHeader('../evil.sh', 'x')))).toBe('UNSAFE_PATH');
+    expect(await rejectionCode(extractor.extractStreams(links, { safety: { maxEntries: 1 } }))).toBe('TOO_MANY_ENTRIES');
+  });
+
+  it('should refuse gzip bombs while inflating them', async () => {
+    const bomb = await createTar([{ name: 'zeros.bin', content: Buffer.alloc(4 * 1024 * 1024) }], true);
+
+    expect(await rejectionCode(new TarExtractor(MEMORY_LIMIT).extractStreams(bomb))).toBe('COMPRESSION_RATIO_EXCEEDED');
+  });
+
+  it('should report corrupted and foreign data', async () => {
+    const corrupted = await createTar([{ name: 'a.txt', content: 'a' }]);
+    corrupted[0] = 'b'.charCodeAt(0);
+
+    expect(await rejectionCode(new TarExtractor(MEMORY_LIMIT).extractStreams(corrupted))).toBe('CORRUPTED_ZIP_FILE');
+    expect(await rejectionCode(new TarExtractor(MEMORY_LIMIT).extractStreams(zlib.gzipSync('plain text')))).toBe('UNSUPPORTED_FORMAT');
+  });
+
+  describe('ZipExtractionService', () => {
+    let workDir: string;
+
+    beforeEach(async () => {
+      workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tar-extraction-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(workDir, { recursive: true, force: true });
+    });
+
+    it('should extract and list a tar.gz like a ZIP file', async () => {
+      const archivePath = path.join(workDir, 'bundle.tar.gz');
+      await fs.writeFile(archivePath, await createTar([
+        { name: 'repo-main/index.html', content: '<h1>Hi</h1>' },
+        { name: 'repo-main/run.sh', content: '#!/bin/sh', mode: 0o755 },
+        { name: 'repo-main/node_modules/dep.js', content: 'dep' }
+      ], true));
+      const destination = path.join(workDir, 'out');
+
+      const result = await ZipExtractionService.extract(archivePath, destination, {
+        maxMemoryUsage: MEMORY_LIMIT,
+        excludePatterns: ['**/node_modules/**']
+      });
+
+      expect(result.entries.map(entry => entry.name).sort()).toEqual(['repo-main/index.html', 'repo-main/run.sh']);
+      expect(result.entries[0].lastModified).toEqual(lastModified);
+      expect(await fs.readFile(path.join(destination, 'repo-main/index.html'), 'utf8')).toBe('<h1>Hi</h1>');
+      expect((await fs.stat(path.join(destination, 'repo-main/run.sh'))).mode & 0o777).toBe(0o755);
+
+      const listed = await ZipExtractionService.listEntries(archivePath);
+      expect(listed.map(entry => entry.name)).toContain('repo-main/node_modules/dep.js');
+    });
+  });
+});